@@ -0,0 +1,15 @@
+CREATE TABLE "workout_rep" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workout_id" uuid NOT NULL,
+	"rep_index" integer NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp NOT NULL,
+	"min_knee_angle" real NOT NULL,
+	"min_hip_angle" real NOT NULL,
+	"max_torso_angle" real NOT NULL,
+	"issues" jsonb DEFAULT '[]'::jsonb,
+	"phase_durations" jsonb DEFAULT '{}'::jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "workout_rep" ADD CONSTRAINT "workout_rep_workout_id_workout_id_fk" FOREIGN KEY ("workout_id") REFERENCES "public"."workout"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workout_rep_workout_id_idx" ON "workout_rep" USING btree ("workout_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workout" ADD COLUMN "client_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "workout_user_client_id_idx" ON "workout" USING btree ("user_id","client_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workout_rep" ADD COLUMN "samples" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
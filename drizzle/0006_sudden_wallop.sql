@@ -0,0 +1,2 @@
+ALTER TABLE "workout" ADD COLUMN "notes" text;--> statement-breakpoint
+CREATE INDEX "workout_user_created_at_idx" ON "workout" USING btree ("user_id","created_at","id");
\ No newline at end of file
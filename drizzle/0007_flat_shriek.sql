@@ -0,0 +1,20 @@
+CREATE TABLE "workout_set" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workout_id" uuid NOT NULL,
+	"set_index" integer NOT NULL,
+	"target_reps" integer,
+	"weight" real,
+	"rpe" real,
+	"total_reps" integer DEFAULT 0 NOT NULL,
+	"good_form_reps" integer DEFAULT 0 NOT NULL,
+	"bad_form_reps" integer DEFAULT 0 NOT NULL,
+	"mistakes" jsonb DEFAULT '[]'::jsonb,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp NOT NULL,
+	"rest_seconds" integer
+);
+--> statement-breakpoint
+ALTER TABLE "workout_rep" ADD COLUMN "set_id" uuid;--> statement-breakpoint
+ALTER TABLE "workout_set" ADD CONSTRAINT "workout_set_workout_id_workout_id_fk" FOREIGN KEY ("workout_id") REFERENCES "public"."workout"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workout_set_workout_id_idx" ON "workout_set" USING btree ("workout_id");--> statement-breakpoint
+ALTER TABLE "workout_rep" ADD CONSTRAINT "workout_rep_set_id_workout_set_id_fk" FOREIGN KEY ("set_id") REFERENCES "public"."workout_set"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
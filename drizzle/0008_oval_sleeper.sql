@@ -0,0 +1 @@
+ALTER TABLE "workout_set" ADD COLUMN "weight_unit" text DEFAULT 'kg' NOT NULL;
\ No newline at end of file
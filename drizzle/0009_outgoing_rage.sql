@@ -0,0 +1,47 @@
+CREATE TABLE "planned_workout" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_program_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"date" date NOT NULL,
+	"position" integer NOT NULL,
+	"workout_name" text NOT NULL,
+	"exercise_type" text NOT NULL,
+	"target_sets" integer NOT NULL,
+	"target_reps" integer NOT NULL,
+	"weight" real,
+	"weight_unit" text DEFAULT 'kg' NOT NULL,
+	"rest_seconds" integer NOT NULL,
+	"workout_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "program_template" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"training_days" jsonb NOT NULL,
+	"workouts" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "program_template_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "user_program" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"template_id" uuid NOT NULL,
+	"start_date" date NOT NULL,
+	"weight_unit" text DEFAULT 'kg' NOT NULL,
+	"starting_weights" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "planned_workout" ADD CONSTRAINT "planned_workout_user_program_id_user_program_id_fk" FOREIGN KEY ("user_program_id") REFERENCES "public"."user_program"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "planned_workout" ADD CONSTRAINT "planned_workout_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "planned_workout" ADD CONSTRAINT "planned_workout_workout_id_workout_id_fk" FOREIGN KEY ("workout_id") REFERENCES "public"."workout"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_program" ADD CONSTRAINT "user_program_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_program" ADD CONSTRAINT "user_program_template_id_program_template_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."program_template"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "planned_workout_program_date_position_idx" ON "planned_workout" USING btree ("user_program_id","date","position");--> statement-breakpoint
+CREATE INDEX "planned_workout_user_date_idx" ON "planned_workout" USING btree ("user_id","date");--> statement-breakpoint
+CREATE INDEX "user_program_user_id_idx" ON "user_program" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Built-in program templates
+INSERT INTO "program_template" ("slug", "name", "description", "training_days", "workouts") VALUES ('strength-5x5', '5×5 Strength', 'Three full-body sessions a week alternating two workouts. Five sets of five, adding load every session while form holds.', '[0, 2, 4]'::jsonb, '[{"name": "Workout A", "exercises": [{"exerciseType": "squat", "sets": 5, "reps": 5, "restSeconds": 180, "increment": {"kg": 2.5, "lb": 5}}, {"exerciseType": "overhead_press", "sets": 5, "reps": 5, "restSeconds": 180, "increment": {"kg": 2.5, "lb": 5}}]}, {"name": "Workout B", "exercises": [{"exerciseType": "squat", "sets": 5, "reps": 5, "restSeconds": 180, "increment": {"kg": 2.5, "lb": 5}}, {"exerciseType": "deadlift", "sets": 1, "reps": 5, "restSeconds": 180, "increment": {"kg": 5, "lb": 10}}]}]'::jsonb) ON CONFLICT ("slug") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "program_template" ("slug", "name", "description", "training_days", "workouts") VALUES ('linear-progression', 'Beginner Linear Progression', 'Two full-body sessions a week with moderate reps and small, steady load increases.', '[0, 3]'::jsonb, '[{"name": "Full Body", "exercises": [{"exerciseType": "squat", "sets": 3, "reps": 8, "restSeconds": 120, "increment": {"kg": 2.5, "lb": 5}}, {"exerciseType": "deadlift", "sets": 2, "reps": 8, "restSeconds": 120, "increment": {"kg": 2.5, "lb": 5}}, {"exerciseType": "overhead_press", "sets": 3, "reps": 8, "restSeconds": 120, "increment": {"kg": 1.25, "lb": 2.5}}, {"exerciseType": "bicep_curl", "sets": 3, "reps": 10, "restSeconds": 90, "increment": {"kg": 1, "lb": 2.5}}]}]'::jsonb) ON CONFLICT ("slug") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "program_template" ("slug", "name", "description", "training_days", "workouts") VALUES ('bodyweight-basics', 'Bodyweight Basics', 'Three equipment-free sessions a week built on push-ups, squats and lunges.', '[0, 2, 4]'::jsonb, '[{"name": "Bodyweight Circuit", "exercises": [{"exerciseType": "push_up", "sets": 3, "reps": 10, "restSeconds": 60, "increment": null}, {"exerciseType": "squat", "sets": 3, "reps": 15, "restSeconds": 60, "increment": null}, {"exerciseType": "lunge", "sets": 3, "reps": 10, "restSeconds": 60, "increment": null}]}]'::jsonb) ON CONFLICT ("slug") DO NOTHING;
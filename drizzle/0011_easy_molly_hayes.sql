@@ -0,0 +1 @@
+ALTER TABLE "workout_set" ADD COLUMN "recording_url" text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "form_calibration" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"exercise_type" text NOT NULL,
+	"thresholds" jsonb NOT NULL,
+	"rep_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "form_calibration" ADD CONSTRAINT "form_calibration_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "form_calibration_user_exercise_idx" ON "form_calibration" USING btree ("user_id","exercise_type");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workout" ADD COLUMN "average_tempo" jsonb;--> statement-breakpoint
+ALTER TABLE "workout" ADD COLUMN "time_under_tension_seconds" integer;
\ No newline at end of file
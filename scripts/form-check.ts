@@ -0,0 +1,106 @@
+#!/usr/bin/env npx tsx
+/**
+ * Headless form-checker harness.
+ * Runs landmark fixtures through analyzeForm and checks the exercise recognized
+ * and the reps, phases and issues they produce, so threshold changes can be
+ * regression-tested without a camera.
+ *
+ * Run with: pnpm form:check [paths...] [--verbose] [--update]
+ *
+ *   paths      Fixture files or directories (default fixtures/form-checker).
+ *              Recorded set files from storage can be passed as-is.
+ *   --verbose  Print the phases and issues of every fixture, not just failures
+ *   --update   Rewrite each fixture's expectations with the current results
+ */
+
+import { readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import {
+  checkFixture,
+  runFixture,
+  type FixtureExpectations,
+  type FixtureResult,
+  type FormFixture,
+} from "../src/lib/form-fixtures";
+
+const DEFAULT_FIXTURE_DIR = "fixtures/form-checker";
+
+const args = process.argv.slice(2);
+const verbose = args.includes("--verbose");
+const update = args.includes("--update");
+const paths = args.filter((arg) => !arg.startsWith("--"));
+
+function collectFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => join(path, name));
+}
+
+function describe(result: FixtureResult): string {
+  const issues = result.issues.length > 0 ? result.issues.join(", ") : "none";
+  return [
+    `    ${result.frameCount} frames (${result.hiddenFrames} out of view), ${result.reps} reps, ${result.view ?? "no"} view`,
+    `    recognized: ${result.recognized.length > 0 ? result.recognized.join(" > ") : "nothing"}`,
+    `    phases: ${result.phases.join(" > ")}`,
+    `    issues: ${issues}`,
+  ].join("\n");
+}
+
+function toExpectations(result: FixtureResult): FixtureExpectations {
+  return {
+    recognized: result.recognized,
+    ...(result.view ? { view: result.view } : {}),
+    reps: result.reps,
+    phases: result.phases,
+    issues: result.issues,
+    repIssues: result.repIssues,
+  };
+}
+
+const files = (paths.length > 0 ? paths : [DEFAULT_FIXTURE_DIR]).flatMap(collectFiles);
+let failed = 0;
+let unchecked = 0;
+
+for (const file of files) {
+  const name = relative(process.cwd(), file);
+  let fixture: FormFixture;
+  let result: FixtureResult;
+  try {
+    fixture = JSON.parse(readFileSync(file, "utf8")) as FormFixture;
+    result = runFixture(fixture);
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${name}\n    ${error instanceof Error ? error.message : String(error)}`);
+    continue;
+  }
+
+  if (update) {
+    writeFileSync(file, `${JSON.stringify({ ...fixture, expect: toExpectations(result) }, null, 2)}\n`);
+    console.log(`↻ ${name}`);
+    if (verbose) console.log(describe(result));
+    continue;
+  }
+
+  if (!fixture.expect) {
+    unchecked++;
+    console.log(`• ${name} (no expectations)\n${describe(result)}`);
+    continue;
+  }
+
+  const failures = checkFixture(fixture.expect, result);
+  if (failures.length > 0) {
+    failed++;
+    console.log(`✗ ${name}`);
+    failures.forEach((failure) => console.log(`    ${failure}`));
+    if (verbose) console.log(describe(result));
+  } else {
+    console.log(`✓ ${name}`);
+    if (verbose) console.log(describe(result));
+  }
+}
+
+const passed = files.length - failed - unchecked;
+console.log(`\n${passed} passed, ${failed} failed${unchecked > 0 ? `, ${unchecked} unchecked` : ""}`);
+process.exit(failed > 0 ? 1 : 0);
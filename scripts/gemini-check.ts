@@ -0,0 +1,320 @@
+#!/usr/bin/env npx tsx
+/**
+ * Headless Gemini relay harness.
+ * Starts the relay on a free port and plays a coaching session through it,
+ * once against the scripted mock and once forwarded to a local stand-in for
+ * the Live API, checking the setup handshake, throttling and the audio and
+ * turn events the browser client relies on. No network or API key needed.
+ *
+ * Run with: pnpm gemini:check [--verbose]
+ *
+ *   --verbose  Print the relay log after each check
+ */
+
+import type { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { GEMINI_CONFIG } from "../src/lib/gemini-config";
+import { createMockSession, type MockScript, type MockTurn } from "../src/lib/gemini-mock";
+import { startGeminiRelay, type GeminiRelayBackend } from "../src/lib/gemini-relay";
+
+const MESSAGE_TIMEOUT_MS = 2000;
+const SILENCE_MS = 300;
+const MAX_MESSAGES_PER_SECOND = 5;
+const ACCESS_TOKEN = "check_token";
+
+const SCRIPT: MockScript = {
+  greeting: [{ text: "Greeting", audioMs: 200 }],
+  cues: [{ text: "Cue", audioMs: 100 }],
+  cueIntervalMs: 100,
+  replies: [{ text: "Reply", audioMs: 150 }],
+};
+
+const verbose = process.argv.slice(2).includes("--verbose");
+
+interface ServerMessage {
+  setupComplete?: object;
+  serverContent?: {
+    modelTurn?: { parts: { text?: string; inlineData?: { mimeType: string; data: string } }[] };
+    turnComplete?: boolean;
+  };
+}
+
+interface CheckClient {
+  socket: WebSocket;
+  send: (message: object) => void;
+  // Resolves null if nothing arrives in time or the socket closes
+  next: (timeoutMs?: number) => Promise<ServerMessage | null>;
+  closed: Promise<number>;
+  binaryFrames: () => number;
+}
+
+interface Turn {
+  texts: string[];
+  audio: { mimeType: string; bytes: number }[];
+}
+
+function listen(server: WebSocketServer): Promise<number> {
+  return new Promise((resolve) => {
+    server.on("listening", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function connect(url: string): Promise<CheckClient> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const received: ServerMessage[] = [];
+    let waiting: ((message: ServerMessage | null) => void) | null = null;
+    let binaryFrames = 0;
+
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) binaryFrames++;
+      const message = JSON.parse(data.toString()) as ServerMessage;
+      if (waiting) {
+        waiting(message);
+        waiting = null;
+      } else {
+        received.push(message);
+      }
+    });
+
+    const closed = new Promise<number>((resolveClosed) => {
+      socket.on("close", (code) => {
+        waiting?.(null);
+        waiting = null;
+        resolveClosed(code);
+      });
+    });
+
+    socket.on("error", reject);
+    socket.on("open", () =>
+      resolve({
+        socket,
+        send: (message) => socket.send(JSON.stringify(message)),
+        next: (timeoutMs = MESSAGE_TIMEOUT_MS) => {
+          const queued = received.shift();
+          if (queued) return Promise.resolve(queued);
+          if (socket.readyState !== WebSocket.OPEN) return Promise.resolve(null);
+          return new Promise((resolveNext) => {
+            const timer = setTimeout(() => {
+              waiting = null;
+              resolveNext(null);
+            }, timeoutMs);
+            waiting = (message) => {
+              clearTimeout(timer);
+              resolveNext(message);
+            };
+          });
+        },
+        closed,
+        binaryFrames: () => binaryFrames,
+      })
+    );
+  });
+}
+
+// Collect model turn parts until the turn completes
+async function readTurn(client: CheckClient): Promise<Turn | null> {
+  const turn: Turn = { texts: [], audio: [] };
+  for (;;) {
+    const message = await client.next();
+    if (!message?.serverContent) return null;
+    for (const part of message.serverContent.modelTurn?.parts ?? []) {
+      if (part.text) turn.texts.push(part.text);
+      if (part.inlineData) {
+        turn.audio.push({
+          mimeType: part.inlineData.mimeType,
+          bytes: Buffer.from(part.inlineData.data, "base64").length,
+        });
+      }
+    }
+    if (message.serverContent.turnComplete) return turn;
+  }
+}
+
+// Check a turn replays the scripted text with 16-bit PCM audio of the scripted length
+function checkTurn(label: string, turn: Turn | null, expected: MockTurn): string[] {
+  if (!turn) return [`${label}: no completed turn`];
+
+  const failures: string[] = [];
+  if (turn.texts.join(" ") !== expected.text) {
+    failures.push(`${label}: text "${turn.texts.join(" ")}", expected "${expected.text}"`);
+  }
+
+  const rate = GEMINI_CONFIG.AUDIO_OUTPUT_SAMPLE_RATE;
+  const expectedBytes = Math.round((rate * (expected.audioMs ?? 0)) / 1000) * 2;
+  const [audio, ...extra] = turn.audio;
+  if (!audio || extra.length > 0) {
+    failures.push(`${label}: ${turn.audio.length} audio chunks, expected 1`);
+  } else {
+    if (audio.mimeType !== `audio/pcm;rate=${rate}`) {
+      failures.push(`${label}: audio mime type ${audio.mimeType}`);
+    }
+    if (audio.bytes !== expectedBytes) {
+      failures.push(`${label}: ${audio.bytes} audio bytes, expected ${expectedBytes}`);
+    }
+  }
+  return failures;
+}
+
+const mediaInput = { realtimeInput: { mediaChunks: [{ mimeType: "image/jpeg", data: "" }] } };
+const textInput = {
+  clientContent: {
+    turns: [{ role: "user", parts: [{ text: "How am I doing?" }] }],
+    turnComplete: true,
+  },
+};
+
+async function checkMissingToken(relayUrl: string): Promise<string[]> {
+  const client = await connect(relayUrl);
+  const code = await client.closed;
+  return code === 1008 ? [] : [`closed with ${code}, expected 1008`];
+}
+
+async function checkSession(relayUrl: string): Promise<string[]> {
+  const client = await connect(`${relayUrl}?access_token=${ACCESS_TOKEN}`);
+  const failures: string[] = [];
+
+  // Like the real API, nothing is answered until setup completes
+  client.send(mediaInput);
+  if (await client.next(SILENCE_MS)) failures.push("answered before setup");
+
+  client.send({ setup: { model: `models/${GEMINI_CONFIG.MODEL}` } });
+  const setup = await client.next();
+  if (!setup?.setupComplete) failures.push("no setupComplete after setup");
+
+  client.send(mediaInput);
+  failures.push(...checkTurn("greeting", await readTurn(client), SCRIPT.greeting[0]!));
+
+  await delay(SCRIPT.cueIntervalMs);
+  client.send(mediaInput);
+  failures.push(...checkTurn("cue", await readTurn(client), SCRIPT.cues[0]!));
+
+  client.send(textInput);
+  failures.push(...checkTurn("reply", await readTurn(client), SCRIPT.replies[0]!));
+
+  if (client.binaryFrames() > 0) {
+    failures.push(`${client.binaryFrames()} binary frames, browsers expect text`);
+  }
+
+  client.socket.close();
+  await client.closed;
+  return failures;
+}
+
+// A burst of streamed media is cut to the per-second limit
+async function checkThrottle(relayUrl: string, log: string[]): Promise<string[]> {
+  const client = await connect(`${relayUrl}?access_token=${ACCESS_TOKEN}`);
+  client.send({ setup: { model: `models/${GEMINI_CONFIG.MODEL}` } });
+  await client.next();
+  // The relay logs each session under its own id
+  const sessionId = log.findLast((line) => line.includes(" opened "))?.split(" ")[0];
+
+  const burst = MAX_MESSAGES_PER_SECOND * 2;
+  for (let i = 0; i < burst; i++) client.send(mediaInput);
+  await readTurn(client);
+
+  client.socket.close();
+  await client.closed;
+
+  const expected = burst - MAX_MESSAGES_PER_SECOND;
+  for (let waited = 0; waited < MESSAGE_TIMEOUT_MS; waited += 50) {
+    const match = log
+      .filter((line) => sessionId && line.startsWith(sessionId))
+      .map((line) => / (\d+) dropped$/.exec(line))
+      .find(Boolean);
+    if (match) {
+      const dropped = Number(match[1]);
+      return dropped === expected ? [] : [`${dropped} messages dropped, expected ${expected}`];
+    }
+    await delay(50);
+  }
+  return ["relay never logged the closed session"];
+}
+
+// Stand-in for the Live API: replays the script in binary frames, as Gemini does
+async function startUpstream(tokens: string[]): Promise<{ server: WebSocketServer; url: string }> {
+  const server = new WebSocketServer({ port: 0 });
+  server.on("connection", (socket, request) => {
+    tokens.push(
+      new URL(request.url ?? "/", "http://upstream").searchParams.get("access_token") ?? ""
+    );
+    const session = createMockSession(SCRIPT, (message) =>
+      socket.send(Buffer.from(JSON.stringify(message)))
+    );
+    socket.on("message", (data) => session.handleMessage(data.toString()));
+    socket.on("close", () => session.close());
+  });
+  return { server, url: `ws://localhost:${await listen(server)}` };
+}
+
+async function main(): Promise<number> {
+  const upstreamTokens: string[] = [];
+  const upstream = await startUpstream(upstreamTokens);
+  let failed = 0;
+  let passed = 0;
+
+  for (const backend of ["mock", "live"] as GeminiRelayBackend[]) {
+    const log: string[] = [];
+    const relay = startGeminiRelay({
+      port: 0,
+      backend,
+      upstreamUrl: upstream.url,
+      mockScript: SCRIPT,
+      maxMessagesPerSecond: MAX_MESSAGES_PER_SECOND,
+      log: (message) => log.push(message),
+    });
+    const relayUrl = `ws://localhost:${await listen(relay)}`;
+
+    const checks: [string, () => Promise<string[]>][] = [
+      ["rejects a missing access token", () => checkMissingToken(relayUrl)],
+      ["plays a coaching session", () => checkSession(relayUrl)],
+      ["throttles streamed media", () => checkThrottle(relayUrl, log)],
+    ];
+    if (backend === "live") {
+      checks.push([
+        "forwards the access token",
+        async () =>
+          upstreamTokens.length > 0 && upstreamTokens.every((token) => token === ACCESS_TOKEN)
+            ? []
+            : [`upstream received tokens ${JSON.stringify(upstreamTokens)}`],
+      ]);
+    }
+
+    for (const [name, run] of checks) {
+      log.length = 0;
+      let failures: string[];
+      try {
+        failures = await run();
+      } catch (error) {
+        failures = [error instanceof Error ? error.message : String(error)];
+      }
+
+      if (failures.length > 0) {
+        failed++;
+        console.log(`✗ ${backend}: ${name}`);
+        failures.forEach((failure) => console.log(`    ${failure}`));
+      } else {
+        passed++;
+        console.log(`✓ ${backend}: ${name}`);
+      }
+      if (verbose) log.forEach((line) => console.log(`    ${line}`));
+    }
+
+    relay.close();
+  }
+
+  upstream.server.close();
+  console.log(`\n${passed} passed, ${failed} failed`);
+  return failed;
+}
+
+main()
+  .then((failed) => process.exit(failed > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error(`Gemini check failed: ${error}`);
+    process.exit(1);
+  });
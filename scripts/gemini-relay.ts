@@ -0,0 +1,42 @@
+#!/usr/bin/env npx tsx
+/**
+ * WebSocket relay for Gemini Live coaching sessions.
+ * Run with: pnpm gemini:relay (forwards to Google) or pnpm gemini:mock (scripted responses)
+ *
+ * Environment:
+ *   GEMINI_BACKEND      "live" (default) or "mock"
+ *   GEMINI_RELAY_PORT   Port to listen on (default 8081)
+ *   GEMINI_MOCK_SCRIPT  Optional path to a JSON MockScript for the mock backend
+ *
+ * Point the app at the relay with GEMINI_RELAY_URL=ws://localhost:8081
+ */
+
+import { readFileSync } from "fs";
+import { GEMINI_CONFIG } from "../src/lib/gemini-config";
+import { DEFAULT_MOCK_SCRIPT, type MockScript } from "../src/lib/gemini-mock";
+import { startGeminiRelay } from "../src/lib/gemini-relay";
+
+const backend = process.env.GEMINI_BACKEND === "mock" ? "mock" : "live";
+const port = Number(process.env.GEMINI_RELAY_PORT ?? 8081);
+
+function loadMockScript(): MockScript {
+  const path = process.env.GEMINI_MOCK_SCRIPT;
+  if (!path) return DEFAULT_MOCK_SCRIPT;
+  return { ...DEFAULT_MOCK_SCRIPT, ...(JSON.parse(readFileSync(path, "utf8")) as Partial<MockScript>) };
+}
+
+const server = startGeminiRelay({
+  port,
+  backend,
+  upstreamUrl: GEMINI_CONFIG.WEBSOCKET_URL,
+  mockScript: loadMockScript(),
+  log: (message) => console.log(message),
+});
+
+server.on("listening", () => {
+  console.log(`Gemini relay (${backend}) listening on ws://localhost:${port}`);
+});
+
+process.on("SIGINT", () => {
+  server.close(() => process.exit(0));
+});
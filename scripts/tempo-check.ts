@@ -0,0 +1,101 @@
+#!/usr/bin/env npx tsx
+/**
+ * Headless tempo summary harness.
+ * Summarizes reps with known phase durations and checks the average tempo and
+ * time under tension the summary page and saved workouts show, including reps
+ * that skipped a phase or were saved before it was timed.
+ *
+ * Run with: pnpm tempo:check
+ */
+
+import { type RepPhaseDurations, type TempoSummary, summarizeTempo } from "../src/lib/tempo";
+
+interface TempoCase {
+  name: string;
+  exerciseType: string;
+  reps: RepPhaseDurations[];
+  expected: TempoSummary | null;
+}
+
+const CASES: TempoCase[] = [
+  {
+    name: "averages each phase and sums the time under tension",
+    exerciseType: "squat",
+    reps: [
+      { phaseDurations: { standing: 4000, descending: 2000, bottom: 500, ascending: 1000 } },
+      { phaseDurations: { standing: 0, descending: 3000, bottom: 1500, ascending: 2000 } },
+    ],
+    expected: {
+      averageTempo: { eccentricMs: 2500, pauseMs: 1000, concentricMs: 1500 },
+      timeUnderTensionSeconds: 10,
+    },
+  },
+  {
+    name: "lowers the load on the way up for curls",
+    exerciseType: "bicep_curl",
+    reps: [{ phaseDurations: { standing: 0, descending: 1000, bottom: 200, ascending: 3000 } }],
+    expected: {
+      averageTempo: { eccentricMs: 3000, pauseMs: 200, concentricMs: 1000 },
+      timeUnderTensionSeconds: 4,
+    },
+  },
+  {
+    name: "treats an unknown exercise as lowering on the way down",
+    exerciseType: "kettlebell_swing",
+    reps: [{ phaseDurations: { standing: 0, descending: 1000, bottom: 0, ascending: 3000 } }],
+    expected: {
+      averageTempo: { eccentricMs: 1000, pauseMs: 0, concentricMs: 3000 },
+      timeUnderTensionSeconds: 4,
+    },
+  },
+  {
+    name: "rounds the total rather than each rep",
+    exerciseType: "squat",
+    reps: Array.from({ length: 3 }, () => ({
+      phaseDurations: { standing: 0, descending: 800, bottom: 0, ascending: 600 },
+    })),
+    expected: {
+      averageTempo: { eccentricMs: 800, pauseMs: 0, concentricMs: 600 },
+      timeUnderTensionSeconds: 4,
+    },
+  },
+  {
+    name: "counts a zero or missing phase as no time",
+    exerciseType: "squat",
+    reps: [
+      { phaseDurations: { standing: 0, descending: 2000, bottom: 0, ascending: 1000 } },
+      { phaseDurations: { descending: 1000, ascending: 1000 } },
+      { phaseDurations: {} },
+    ],
+    expected: {
+      averageTempo: { eccentricMs: 1000, pauseMs: 0, concentricMs: 667 },
+      timeUnderTensionSeconds: 5,
+    },
+  },
+  {
+    name: "has no summary without reps",
+    exerciseType: "squat",
+    reps: [],
+    expected: null,
+  },
+];
+
+function describe(summary: TempoSummary | null): string {
+  if (!summary) return "no summary";
+  const { eccentricMs, pauseMs, concentricMs } = summary.averageTempo;
+  return `${eccentricMs}-${pauseMs}-${concentricMs} ms, ${summary.timeUnderTensionSeconds}s under tension`;
+}
+
+let failed = 0;
+for (const { name, exerciseType, reps, expected } of CASES) {
+  const actual = summarizeTempo(exerciseType, reps);
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`✓ ${name}`);
+  } else {
+    failed++;
+    console.log(`✗ ${name}\n    expected ${describe(expected)}, got ${describe(actual)}`);
+  }
+}
+
+console.log(`\n${CASES.length - failed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,80 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { computeWorkoutAnalytics, type AnalyticsSet } from "@/lib/analytics";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { ONE_REP_MAX_FORMULAS } from "@/lib/one-rep-max";
+import { workout, workoutSet } from "@/lib/schema";
+
+const querySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
+  tzOffset: z.coerce.number().int().min(-14 * 60).max(14 * 60).default(0),
+  formula: z.enum(ONE_REP_MAX_FORMULAS).default("epley"),
+});
+
+// GET - Progress analytics for the signed-in user (requires auth)
+// Pass tzOffset (minutes, from Date.getTimezoneOffset) so weeks and streaks
+// follow the user's local calendar. formula picks the e1RM estimate
+// (epley or brzycki).
+export async function GET(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse({
+    weeks: searchParams.get("weeks") ?? undefined,
+    tzOffset: searchParams.get("tzOffset") ?? undefined,
+    formula: searchParams.get("formula") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const workouts = await db
+    .select({
+      id: workout.id,
+      exerciseType: workout.exerciseType,
+      totalReps: workout.totalReps,
+      goodFormReps: workout.goodFormReps,
+      durationSeconds: workout.durationSeconds,
+      mistakes: workout.mistakes,
+      createdAt: workout.createdAt,
+    })
+    .from(workout)
+    .where(eq(workout.userId, session.user.id));
+
+  const sets = await db
+    .select({
+      workoutId: workoutSet.workoutId,
+      weight: workoutSet.weight,
+      weightUnit: workoutSet.weightUnit,
+      goodFormReps: workoutSet.goodFormReps,
+    })
+    .from(workoutSet)
+    .innerJoin(workout, eq(workoutSet.workoutId, workout.id))
+    .where(eq(workout.userId, session.user.id));
+
+  const setsByWorkout = new Map<string, AnalyticsSet[]>();
+  for (const { workoutId, ...set } of sets) {
+    setsByWorkout.set(workoutId, [...(setsByWorkout.get(workoutId) ?? []), set]);
+  }
+
+  const analytics = computeWorkoutAnalytics(
+    workouts.map(({ id, ...w }) => ({
+      ...w,
+      mistakes: w.mistakes || [],
+      sets: setsByWorkout.get(id) ?? [],
+    })),
+    {
+      weeks: parsed.data.weeks,
+      timezoneOffsetMinutes: parsed.data.tzOffset,
+      formula: parsed.data.formula,
+    }
+  );
+
+  return NextResponse.json(analytics);
+}
@@ -0,0 +1,99 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { CALIBRATION_REPS, validateCalibration } from "@/lib/calibration";
+import {
+  deleteCalibration,
+  getCalibration,
+  listCalibrations,
+  saveCalibration,
+} from "@/lib/calibrations";
+import { EXERCISE_IDS } from "@/lib/exercises";
+
+const querySchema = z.object({
+  exerciseType: z.enum(EXERCISE_IDS).optional(),
+});
+
+const deleteQuerySchema = z.object({
+  exerciseType: z.enum(EXERCISE_IDS),
+});
+
+const calibrationSchema = z.object({
+  exerciseType: z.enum(EXERCISE_IDS),
+  thresholds: z.record(z.string(), z.number()),
+  repCount: z.number().int().min(CALIBRATION_REPS).max(100),
+});
+
+// GET - The user's calibrated thresholds, for every exercise or just exerciseType (requires auth)
+export async function GET(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse({
+    exerciseType: searchParams.get("exerciseType") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const { exerciseType } = parsed.data;
+  if (exerciseType) {
+    const calibration = await getCalibration(session.user.id, exerciseType);
+    return NextResponse.json({ calibrations: calibration ? [calibration] : [] });
+  }
+
+  const calibrations = await listCalibrations(session.user.id);
+  return NextResponse.json({ calibrations });
+}
+
+// PUT - Save calibrated thresholds for an exercise, replacing earlier ones (requires auth)
+// Only thresholds with a calibration rule are accepted, within the rule's limits.
+export async function PUT(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = calibrationSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+
+  const { exerciseType, thresholds, repCount } = parsed.data;
+  const invalid = validateCalibration(exerciseType, thresholds);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const calibration = await saveCalibration(session.user.id, exerciseType, thresholds, repCount);
+
+  return NextResponse.json(calibration);
+}
+
+// DELETE - Reset an exercise to the default thresholds (requires auth)
+export async function DELETE(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = deleteQuerySchema.safeParse({
+    exerciseType: searchParams.get("exerciseType") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const deleted = await deleteCalibration(session.user.id, parsed.data.exerciseType);
+  if (!deleted) {
+    return NextResponse.json({ error: "Calibration not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,13 +1,70 @@
+import { headers } from "next/headers";
 import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { GoogleGenAI, Modality } from "@google/genai";
+import { auth } from "@/lib/auth";
+import { EXERCISE_IDS, isExercise } from "@/lib/exercises";
 import { GEMINI_CONFIG, getGymCoachSystemPrompt, RESPONSE_CONFIG } from "@/lib/gemini-config";
-import type { ExerciseType } from "@/lib/gemini-config";
+import { getPreferences } from "@/lib/preferences";
+import { createRateLimiter } from "@/lib/rate-limit";
 
-// GET - Get Gemini Live session configuration
-// Note: For production, this should generate ephemeral tokens instead of returning the API key
+const sessionRateLimiter = createRateLimiter(
+  GEMINI_CONFIG.SESSION_RATE_LIMIT,
+  GEMINI_CONFIG.SESSION_RATE_LIMIT_WINDOW_MS
+);
+
+// Mint a single-use ephemeral token locked to the exercise's coaching setup
+async function createSessionToken(
+  apiKey: string,
+  systemPrompt: string,
+  now: number,
+  expiresAt: number
+): Promise<string> {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: "v1alpha" } });
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(expiresAt).toISOString(),
+      newSessionExpireTime: new Date(now + GEMINI_CONFIG.TOKEN_CONNECT_WINDOW_MS).toISOString(),
+      liveConnectConstraints: {
+        model: GEMINI_CONFIG.MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: RESPONSE_CONFIG.speechConfig,
+          systemInstruction: systemPrompt,
+        },
+      },
+    },
+  });
+
+  if (!token.name) {
+    throw new Error("Token response did not include a token");
+  }
+  return token.name;
+}
+
+// GET - Create a Gemini Live session for the signed-in user (requires auth)
+// Returns a short-lived session token (or a mock token when GEMINI_BACKEND=mock);
+// the API key itself never leaves the server.
 export async function GET(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const backend = process.env.GEMINI_BACKEND === "mock" ? "mock" : "live";
+  const relayUrl = process.env.GEMINI_RELAY_URL;
   const apiKey = process.env.GEMINI_API_KEY;
 
-  if (!apiKey) {
+  if (backend === "mock" && !relayUrl) {
+    return NextResponse.json(
+      { error: "GEMINI_RELAY_URL must be set to use the mock Gemini backend" },
+      { status: 500 }
+    );
+  }
+
+  if (backend === "live" && !apiKey) {
     return NextResponse.json(
       { error: "Gemini API key not configured" },
       { status: 500 }
@@ -16,17 +73,46 @@ export async function GET(request: Request) {
 
   // Get exercise type from query params
   const { searchParams } = new URL(request.url);
-  const exercise = searchParams.get("exercise") as ExerciseType | null;
+  const exercise = searchParams.get("exercise");
 
-  if (!exercise || !["squat", "deadlift"].includes(exercise)) {
+  if (!isExercise(exercise)) {
     return NextResponse.json(
-      { error: "Invalid exercise type. Must be 'squat' or 'deadlift'" },
+      { error: `Invalid exercise type. Must be one of: ${EXERCISE_IDS.join(", ")}` },
       { status: 400 }
     );
   }
 
-  // Build the WebSocket URL with API key
-  const wsUrl = `${GEMINI_CONFIG.WEBSOCKET_URL}?key=${apiKey}`;
+  const rateLimit = sessionRateLimiter.check(session.user.id);
+
+  if (!rateLimit.allowed) {
+    const retryAfterSeconds = Math.ceil(rateLimit.retryAfterMs / 1000);
+    return NextResponse.json(
+      { error: "Too many coaching sessions started. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+  }
+
+  const { language } = await getPreferences(session.user.id);
+  const systemPrompt = getGymCoachSystemPrompt(exercise, language);
+  const now = Date.now();
+  const expiresAt = now + GEMINI_CONFIG.SESSION_TIMEOUT_MS;
+
+  let accessToken: string;
+  try {
+    accessToken =
+      backend === "mock"
+        ? `mock_${randomUUID()}`
+        : await createSessionToken(apiKey!, systemPrompt, now, expiresAt);
+  } catch (error) {
+    console.error("Failed to create Gemini session token:", error);
+    return NextResponse.json(
+      { error: "Failed to create coaching session" },
+      { status: 502 }
+    );
+  }
+
+  // Browsers connect through the relay when one is configured, otherwise straight to Gemini
+  const wsUrl = `${relayUrl || GEMINI_CONFIG.WEBSOCKET_URL}?access_token=${encodeURIComponent(accessToken)}`;
 
   // Build the setup configuration for the Gemini Live session
   const setupConfig = {
@@ -36,12 +122,13 @@ export async function GET(request: Request) {
       speechConfig: RESPONSE_CONFIG.speechConfig,
     },
     systemInstruction: {
-      parts: [{ text: getGymCoachSystemPrompt(exercise) }],
+      parts: [{ text: systemPrompt }],
     },
   };
 
   return NextResponse.json({
     wsUrl,
+    expiresAt,
     setupConfig,
     settings: {
       videoFps: GEMINI_CONFIG.VIDEO_FPS,
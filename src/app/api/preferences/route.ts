@@ -0,0 +1,38 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { LOCALES } from "@/lib/i18n";
+import { getPreferences, savePreferences } from "@/lib/preferences";
+
+const preferencesSchema = z.object({
+  language: z.enum(LOCALES),
+});
+
+// GET - The user's preferences (requires auth)
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const preferences = await getPreferences(session.user.id);
+  return NextResponse.json(preferences);
+}
+
+// PUT - Save the user's preferences (requires auth)
+export async function PUT(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = preferencesSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+
+  const preferences = await savePreferences(session.user.id, parsed.data);
+  return NextResponse.json(preferences);
+}
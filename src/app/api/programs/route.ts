@@ -0,0 +1,80 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { EXERCISE_IDS } from "@/lib/exercises";
+import {
+  enrollInProgram,
+  getActiveProgram,
+  leaveProgram,
+  listProgramTemplates,
+} from "@/lib/program-schedule";
+import { isDateString } from "@/lib/programs";
+import { SET_PLAN_LIMITS, WEIGHT_UNITS } from "@/lib/sets";
+
+const enrollSchema = z.object({
+  templateId: z.string().uuid(),
+  startDate: z.string().refine(isDateString, { message: "Invalid date" }),
+  weightUnit: z.enum(WEIGHT_UNITS).default("kg"),
+  startingWeights: z
+    .partialRecord(z.enum(EXERCISE_IDS), z.number().positive().max(SET_PLAN_LIMITS.maxWeight))
+    .default({}),
+});
+
+// GET - Available program templates and the user's active program (requires auth)
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [templates, active] = await Promise.all([
+    listProgramTemplates(),
+    getActiveProgram(session.user.id),
+  ]);
+
+  return NextResponse.json({ templates, active });
+}
+
+// POST - Start following a program, replacing the current one (requires auth)
+// startDate is the user's local date; startingWeights gives the first-session
+// load per exercise, anything missing is scheduled as bodyweight.
+export async function POST(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = enrollSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+
+  const { templateId, startDate, weightUnit, startingWeights } = parsed.data;
+  const active = await enrollInProgram(session.user.id, templateId, {
+    startDate,
+    weightUnit,
+    startingWeights: startingWeights as Record<string, number>,
+  });
+  if (!active) {
+    return NextResponse.json({ error: "Program not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(active, { status: 201 });
+}
+
+// DELETE - Stop following the active program (requires auth)
+export async function DELETE() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const left = await leaveProgram(session.user.id);
+  if (!left) {
+    return NextResponse.json({ error: "No active program" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,29 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { getPlannedWorkout } from "@/lib/program-schedule";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET - A single planned workout (requires auth)
+export async function GET(_req: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: "Planned workout not found" }, { status: 404 });
+  }
+
+  const found = await getPlannedWorkout(session.user.id, id);
+  if (!found) {
+    return NextResponse.json({ error: "Planned workout not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(found);
+}
@@ -0,0 +1,33 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { getWeekSchedule } from "@/lib/program-schedule";
+import { isDateString } from "@/lib/programs";
+
+const querySchema = z.object({
+  date: z.string().refine(isDateString, { message: "Invalid date" }),
+});
+
+// GET - The active program's week containing date (requires auth)
+// date is the user's local date (YYYY-MM-DD). The week is generated from the
+// program template the first time it is requested.
+export async function GET(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse({ date: searchParams.get("date") ?? undefined });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const schedule = await getWeekSchedule(session.user.id, parsed.data.date);
+  if (!schedule) {
+    return NextResponse.json({ error: "No active program" }, { status: 404 });
+  }
+
+  return NextResponse.json(schedule);
+}
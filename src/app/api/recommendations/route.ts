@@ -0,0 +1,31 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { EXERCISE_IDS } from "@/lib/exercises";
+import { getRecommendations } from "@/lib/recommendations";
+
+const querySchema = z.object({
+  exerciseType: z.enum(EXERCISE_IDS).optional(),
+});
+
+// GET - Recommended load and rep targets for the next session (requires auth)
+// Covers every exercise with saved history, or just exerciseType when given.
+export async function GET(req: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse({
+    exerciseType: searchParams.get("exerciseType") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const recommendations = await getRecommendations(session.user.id, parsed.data.exerciseType);
+
+  return NextResponse.json({ recommendations });
+}
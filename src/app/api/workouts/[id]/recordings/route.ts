@@ -0,0 +1,89 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { MAX_RECORDING_FRAMES, RECORDING_LANDMARK_COUNT } from "@/lib/recording";
+import { workout, workoutSet } from "@/lib/schema";
+import { deleteFile, upload } from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const idSchema = z.string().uuid();
+
+const frameSchema = z.object({
+  t: z.number().min(0),
+  landmarks: z
+    .array(z.tuple([z.number(), z.number(), z.number(), z.number()]))
+    .length(RECORDING_LANDMARK_COUNT),
+});
+
+const recordingSchema = z.object({
+  version: z.literal(1),
+  exerciseType: z.string(),
+  setIndex: z.number().int().min(1),
+  startedAt: z.number().int().min(0),
+  frames: z.array(frameSchema).min(1).max(MAX_RECORDING_FRAMES),
+});
+
+// POST - Attach a set's landmark recording to a saved workout (requires auth)
+// Uploading again for the same set replaces the previous recording.
+export async function POST(req: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = recordingSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+  const recording = parsed.data;
+
+  const [found] = await db
+    .select({ set: workoutSet, exerciseType: workout.exerciseType })
+    .from(workoutSet)
+    .innerJoin(workout, eq(workoutSet.workoutId, workout.id))
+    .where(
+      and(
+        eq(workout.id, id),
+        eq(workout.userId, session.user.id),
+        eq(workoutSet.setIndex, recording.setIndex)
+      )
+    );
+  if (!found) {
+    return NextResponse.json({ error: "Set not found" }, { status: 404 });
+  }
+  if (found.exerciseType !== recording.exerciseType) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+
+  // Random suffix keeps recording URLs unguessable
+  const stored = await upload(
+    Buffer.from(JSON.stringify(recording)),
+    `${found.set.id}-${crypto.randomUUID()}.json`,
+    "recordings"
+  );
+
+  await db
+    .update(workoutSet)
+    .set({ recordingUrl: stored.url })
+    .where(eq(workoutSet.id, found.set.id));
+
+  if (found.set.recordingUrl) {
+    await deleteFile(found.set.recordingUrl).catch((error) =>
+      console.warn("Failed to delete old recording:", error)
+    );
+  }
+
+  return NextResponse.json({ setIndex: recording.setIndex, recordingUrl: stored.url });
+}
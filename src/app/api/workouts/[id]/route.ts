@@ -0,0 +1,139 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { workout, workoutSet } from "@/lib/schema";
+import { deleteFile } from "@/lib/storage";
+import { getWorkoutDetail } from "@/lib/workouts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const idSchema = z.string().uuid();
+
+const updateSchema = z
+  .object({
+    totalReps: z.number().int().min(0),
+    goodFormReps: z.number().int().min(0),
+    badFormReps: z.number().int().min(0),
+    notes: z.string().trim().max(1000).nullable(),
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "Nothing to update",
+  });
+
+// GET - Get a single workout with its sets and reps (requires auth)
+export async function GET(_req: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  const found = await getWorkoutDetail(session.user.id, id);
+  if (!found) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(found);
+}
+
+// PATCH - Correct a workout's rep counts or notes (requires auth)
+// Good and bad form reps must still add up to the total after the update.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid data" }, { status: 400 });
+  }
+
+  const [existing] = await db
+    .select()
+    .from(workout)
+    .where(and(eq(workout.id, id), eq(workout.userId, session.user.id)));
+  if (!existing) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  const { notes, ...counts } = parsed.data;
+  const totalReps = counts.totalReps ?? existing.totalReps;
+  const goodFormReps = counts.goodFormReps ?? existing.goodFormReps;
+  const badFormReps = counts.badFormReps ?? existing.badFormReps;
+
+  if (goodFormReps + badFormReps !== totalReps) {
+    return NextResponse.json(
+      { error: "Good and bad form reps must add up to the total" },
+      { status: 400 }
+    );
+  }
+
+  const [updated] = await db
+    .update(workout)
+    .set({
+      totalReps,
+      goodFormReps,
+      badFormReps,
+      ...(notes !== undefined ? { notes: notes || null } : {}),
+    })
+    .where(and(eq(workout.id, id), eq(workout.userId, session.user.id)))
+    .returning();
+
+  return NextResponse.json(updated);
+}
+
+// DELETE - Delete a workout with its sets, reps and recordings (requires auth)
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  // Sets cascade with the workout, so collect their recordings first
+  const recordings = await db
+    .select({ url: workoutSet.recordingUrl })
+    .from(workoutSet)
+    .innerJoin(workout, eq(workoutSet.workoutId, workout.id))
+    .where(and(eq(workout.id, id), eq(workout.userId, session.user.id)));
+
+  const deleted = await db
+    .delete(workout)
+    .where(and(eq(workout.id, id), eq(workout.userId, session.user.id)))
+    .returning({ id: workout.id });
+
+  if (deleted.length === 0) {
+    return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+  }
+
+  for (const { url } of recordings) {
+    if (url) {
+      await deleteFile(url).catch((error) =>
+        console.warn("Failed to delete recording:", error)
+      );
+    }
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
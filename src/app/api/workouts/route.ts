@@ -1,57 +1,231 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { eq, desc } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { workout } from "@/lib/schema";
-
-const workoutSchema = z.object({
-  exerciseType: z.enum(["squat", "deadlift"]),
-  totalReps: z.number().int().min(0),
-  goodFormReps: z.number().int().min(0),
-  badFormReps: z.number().int().min(0),
-  durationSeconds: z.number().int().min(0),
-  mistakes: z.array(z.string()),
+import { EXERCISE_IDS } from "@/lib/exercises";
+import { completePlannedWorkout } from "@/lib/program-schedule";
+import type { AngleSample } from "@/lib/rep-tracker";
+import { workout, workoutRep, workoutSet } from "@/lib/schema";
+import { WEIGHT_UNITS } from "@/lib/sets";
+import { summarizeTempo } from "@/lib/tempo";
+import { decodeCursor, listWorkouts } from "@/lib/workouts";
+
+const phaseDurationsSchema = z.object({
+  standing: z.number().min(0),
+  descending: z.number().min(0),
+  bottom: z.number().min(0),
+  ascending: z.number().min(0),
+});
+
+const angleSampleSchema = z.object({
+  t: z.number().min(0),
+  kneeAngle: z.number().min(0).max(180),
+  hipAngle: z.number().min(0).max(180),
+  torsoAngle: z.number().min(0).max(180),
+  phase: z.enum(["standing", "descending", "bottom", "ascending"]),
+  issues: z.array(z.string()).optional(),
 });
 
+const repSchema = z.object({
+  repIndex: z.number().int().min(1),
+  setIndex: z.number().int().min(1).optional(),
+  startedAt: z.number().int().min(0),
+  endedAt: z.number().int().min(0),
+  minKneeAngle: z.number().min(0).max(180),
+  minHipAngle: z.number().min(0).max(180),
+  maxTorsoAngle: z.number().min(0).max(180),
+  issues: z.array(z.string()),
+  phaseDurations: phaseDurationsSchema,
+  samples: z.array(angleSampleSchema).max(600).default([]),
+});
+
+// Every rep is judged either good or bad form
+const addsUpToTotal = (counts: { totalReps: number; goodFormReps: number; badFormReps: number }) =>
+  counts.goodFormReps + counts.badFormReps === counts.totalReps;
+const REP_COUNT_MESSAGE = "Good and bad form reps must add up to the total";
+
+const setSchema = z
+  .object({
+    setIndex: z.number().int().min(1),
+    targetReps: z.number().int().min(1).nullable(),
+    weight: z.number().min(0).max(1000).nullable(),
+    weightUnit: z.enum(WEIGHT_UNITS).default("kg"),
+    rpe: z.number().min(1).max(10).nullable(),
+    totalReps: z.number().int().min(0),
+    goodFormReps: z.number().int().min(0),
+    badFormReps: z.number().int().min(0),
+    mistakes: z.array(z.string()),
+    startedAt: z.number().int().min(0),
+    endedAt: z.number().int().min(0),
+    restSeconds: z.number().int().min(0).nullable(),
+  })
+  .refine(addsUpToTotal, { message: REP_COUNT_MESSAGE });
+
+const workoutSchema = z
+  .object({
+    exerciseType: z.enum(EXERCISE_IDS),
+    totalReps: z.number().int().min(0),
+    goodFormReps: z.number().int().min(0),
+    badFormReps: z.number().int().min(0),
+    durationSeconds: z.number().int().min(0),
+    mistakes: z.array(z.string()),
+    plannedWorkoutId: z.string().uuid().optional(), // Program schedule entry this workout completes
+    sets: z.array(setSchema).max(100).default([]),
+    reps: z.array(repSchema).max(1000).default([]),
+  })
+  .refine(addsUpToTotal, { message: REP_COUNT_MESSAGE });
+
+const idempotencyKeySchema = z.string().min(1).max(100);
+
 // POST - Save a workout (requires auth)
+// Send an Idempotency-Key header so retried uploads from the offline queue
+// return the already-saved workout instead of creating a duplicate.
 export async function POST(req: Request) {
   const session = await auth.api.getSession({ headers: await headers() });
   if (!session) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const body = await req.json();
+  const body = await req.json().catch(() => null);
   const parsed = workoutSchema.safeParse(body);
   if (!parsed.success) {
     return NextResponse.json({ error: "Invalid data" }, { status: 400 });
   }
 
-  const [inserted] = await db
-    .insert(workout)
-    .values({
-      userId: session.user.id,
-      ...parsed.data,
-    })
-    .returning();
+  const idempotencyKey = req.headers.get("Idempotency-Key");
+  const parsedKey = idempotencyKey === null ? null : idempotencyKeySchema.safeParse(idempotencyKey);
+  if (parsedKey && !parsedKey.success) {
+    return NextResponse.json({ error: "Invalid Idempotency-Key" }, { status: 400 });
+  }
+  const clientId = parsedKey ? parsedKey.data : null;
+
+  const { plannedWorkoutId, sets, reps, ...workoutData } = parsed.data;
+  // Tempo is derived from the rep phases rather than trusted from the client
+  const tempo = summarizeTempo(workoutData.exerciseType, reps);
+
+  const inserted = await db.transaction(async (tx) => {
+    const [savedWorkout] = await tx
+      .insert(workout)
+      .values({
+        userId: session.user.id,
+        clientId,
+        ...workoutData,
+        averageTempo: tempo?.averageTempo ?? null,
+        timeUnderTensionSeconds: tempo?.timeUnderTensionSeconds ?? null,
+      })
+      .onConflictDoNothing({ target: [workout.userId, workout.clientId] })
+      .returning();
+
+    if (!savedWorkout) {
+      if (!clientId) {
+        throw new Error("Failed to insert workout");
+      }
+
+      // Already saved by an earlier attempt with the same key
+      const [existing] = await tx
+        .select()
+        .from(workout)
+        .where(and(eq(workout.userId, session.user.id), eq(workout.clientId, clientId)));
+      if (!existing) {
+        throw new Error("Failed to insert workout");
+      }
+      const existingSets = await tx
+        .select()
+        .from(workoutSet)
+        .where(eq(workoutSet.workoutId, existing.id))
+        .orderBy(workoutSet.setIndex);
+      const existingReps = await tx
+        .select()
+        .from(workoutRep)
+        .where(eq(workoutRep.workoutId, existing.id))
+        .orderBy(workoutRep.repIndex);
+      return { ...existing, sets: existingSets, reps: existingReps };
+    }
+
+    const savedSets =
+      sets.length > 0
+        ? await tx
+            .insert(workoutSet)
+            .values(
+              sets.map((set) => ({
+                ...set,
+                workoutId: savedWorkout.id,
+                startedAt: new Date(set.startedAt),
+                endedAt: new Date(set.endedAt),
+              }))
+            )
+            .returning()
+        : [];
+    const setIds = new Map(savedSets.map((set) => [set.setIndex, set.id]));
+
+    const savedReps =
+      reps.length > 0
+        ? await tx
+            .insert(workoutRep)
+            .values(
+              reps.map(({ setIndex, ...rep }) => ({
+                ...rep,
+                workoutId: savedWorkout.id,
+                setId: setIndex === undefined ? null : (setIds.get(setIndex) ?? null),
+                startedAt: new Date(rep.startedAt),
+                endedAt: new Date(rep.endedAt),
+                samples: rep.samples as AngleSample[],
+              }))
+            )
+            .returning()
+        : [];
+
+    if (plannedWorkoutId) {
+      await completePlannedWorkout(tx, session.user.id, plannedWorkoutId, savedWorkout);
+    }
+
+    return { ...savedWorkout, sets: savedSets, reps: savedReps };
+  });
 
   return NextResponse.json(inserted);
 }
 
-// GET - List user's workouts (requires auth)
-export async function GET() {
+const listQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().min(1).max(200).optional(),
+    exerciseType: z.enum(EXERCISE_IDS).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+  });
+
+// GET - List user's workouts, newest first (requires auth)
+// Supports cursor pagination (pass back nextCursor) and filtering by
+// exerciseType and a from/to date range.
+export async function GET(req: Request) {
   const session = await auth.api.getSession({ headers: await headers() });
   if (!session) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const workouts = await db
-    .select()
-    .from(workout)
-    .where(eq(workout.userId, session.user.id))
-    .orderBy(desc(workout.createdAt))
-    .limit(50);
+  const { searchParams } = new URL(req.url);
+  const parsed = listQuerySchema.safeParse(
+    Object.fromEntries(
+      ["limit", "cursor", "exerciseType", "from", "to"].flatMap((key) => {
+        const value = searchParams.get(key);
+        return value ? [[key, value]] : [];
+      })
+    )
+  );
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  if (parsed.data.cursor && !decodeCursor(parsed.data.cursor)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  const page = await listWorkouts(session.user.id, parsed.data);
 
-  return NextResponse.json(workouts);
+  return NextResponse.json(page);
 }
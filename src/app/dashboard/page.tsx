@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { Lock, Dumbbell, History } from "lucide-react";
 import { UserProfile } from "@/components/auth/user-profile";
+import { ProgressOverview } from "@/components/dashboard/progress-overview";
 import { Button } from "@/components/ui/button";
 import { useSession } from "@/lib/auth-client";
 
@@ -47,7 +48,7 @@ export default function DashboardPage() {
             Start Workout
           </h2>
           <p className="text-muted-foreground mb-4">
-            Begin a new squat or deadlift session with AI-powered form analysis
+            Begin a new training session with AI-powered form analysis
           </p>
           <Button asChild>
             <Link href="/workout">Start Workout</Link>
@@ -82,6 +83,9 @@ export default function DashboardPage() {
           </div>
         </div>
       </div>
+
+      <h2 className="text-2xl font-bold mt-12 mb-6">Your Progress</h2>
+      <ProgressOverview />
     </div>
   );
 }
@@ -0,0 +1,202 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AngleTimelineChart } from "@/components/workout/angle-timeline-chart";
+import { RepBreakdown } from "@/components/workout/rep-breakdown";
+import { SetBreakdown } from "@/components/workout/set-breakdown";
+import { SetReplayPlayer, type RecordedSet } from "@/components/workout/set-replay-player";
+import { auth } from "@/lib/auth";
+import { getCalibration } from "@/lib/calibrations";
+import { getExerciseName, isExercise } from "@/lib/exercises";
+import type { FormIssue, Phase } from "@/lib/form-checker";
+import type { RepRecord } from "@/lib/rep-tracker";
+import type { SetRecord } from "@/lib/sets";
+import { formatTempo } from "@/lib/tempo";
+import { getWorkoutDetail } from "@/lib/workouts";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins === 0) {
+    return `${secs}s`;
+  }
+  return `${mins}m ${secs}s`;
+}
+
+export default async function WorkoutDetailPage({ params }: PageProps) {
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const savedWorkout = await getWorkoutDetail(session.user.id, id);
+
+  if (!savedWorkout) {
+    notFound();
+  }
+
+  // Replays are re-analyzed with the thresholds the user trains with
+  const calibration = await getCalibration(session.user.id, savedWorkout.exerciseType);
+
+  // Transform the rows back into the shape recorded during the workout
+  const sets: SetRecord[] = savedWorkout.sets.map((set) => ({
+    setIndex: set.setIndex,
+    targetReps: set.targetReps,
+    weight: set.weight,
+    weightUnit: set.weightUnit,
+    rpe: set.rpe,
+    totalReps: set.totalReps,
+    goodFormReps: set.goodFormReps,
+    badFormReps: set.badFormReps,
+    mistakes: set.mistakes || [],
+    startedAt: set.startedAt.getTime(),
+    endedAt: set.endedAt.getTime(),
+    restSeconds: set.restSeconds,
+  }));
+  const recordings: RecordedSet[] = savedWorkout.sets.flatMap((set) =>
+    set.recordingUrl ? [{ setIndex: set.setIndex, url: set.recordingUrl }] : []
+  );
+  const setIndexById = new Map(savedWorkout.sets.map((set) => [set.id, set.setIndex]));
+
+  const reps: RepRecord[] = savedWorkout.reps.map((rep) => ({
+    repIndex: rep.repIndex,
+    startedAt: rep.startedAt.getTime(),
+    endedAt: rep.endedAt.getTime(),
+    minKneeAngle: rep.minKneeAngle,
+    minHipAngle: rep.minHipAngle,
+    maxTorsoAngle: rep.maxTorsoAngle,
+    issues: (rep.issues as FormIssue[]) || [],
+    phaseDurations: {
+      standing: 0,
+      descending: 0,
+      bottom: 0,
+      ascending: 0,
+      ...(rep.phaseDurations as Partial<Record<Phase, number>>),
+    },
+    samples: rep.samples || [],
+    ...(rep.setId ? { setIndex: setIndexById.get(rep.setId) ?? 0 } : {}),
+  }));
+
+  const createdAt = savedWorkout.createdAt.toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <main className="flex-1 container mx-auto px-4 py-12">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4">
+            <Link href="/history">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to History
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">
+            {getExerciseName(savedWorkout.exerciseType)}
+          </h1>
+          <p className="text-muted-foreground mt-2">{createdAt}</p>
+          {savedWorkout.notes && (
+            <p className="text-sm mt-4 whitespace-pre-line">{savedWorkout.notes}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-4 text-center mb-6">
+          <div>
+            <div className="text-2xl font-bold">{savedWorkout.totalReps}</div>
+            <div className="text-xs text-muted-foreground">Reps</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-green-500">
+              {savedWorkout.goodFormReps}
+            </div>
+            <div className="text-xs text-muted-foreground">Good</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-red-500">
+              {savedWorkout.badFormReps}
+            </div>
+            <div className="text-xs text-muted-foreground">Bad</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">
+              {formatDuration(savedWorkout.durationSeconds)}
+            </div>
+            <div className="text-xs text-muted-foreground">Time</div>
+          </div>
+        </div>
+
+        {/* Tempo, for workouts saved with recorded reps */}
+        {savedWorkout.averageTempo && savedWorkout.timeUnderTensionSeconds !== null && (
+          <div className="grid grid-cols-2 gap-4 text-center mb-6">
+            <div>
+              <div className="text-2xl font-bold tabular-nums">
+                {formatTempo(savedWorkout.averageTempo)}
+              </div>
+              <div className="text-xs text-muted-foreground">Avg Tempo</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">
+                {formatDuration(savedWorkout.timeUnderTensionSeconds)}
+              </div>
+              <div className="text-xs text-muted-foreground">Time Under Tension</div>
+            </div>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">Rep Timeline</CardTitle>
+            <CardDescription>
+              Joint angles through each rep, shaded by movement phase
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AngleTimelineChart reps={reps} />
+          </CardContent>
+        </Card>
+
+        <SetBreakdown sets={sets} className="max-w-none mb-6" />
+
+        {isExercise(savedWorkout.exerciseType) && recordings.length > 0 && (
+          <SetReplayPlayer
+            exerciseType={savedWorkout.exerciseType}
+            recordings={recordings}
+            thresholds={calibration?.thresholds ?? null}
+            className="mb-6"
+          />
+        )}
+
+        <RepBreakdown
+          exerciseType={savedWorkout.exerciseType}
+          reps={reps}
+          className="max-w-none"
+        />
+      </div>
+    </main>
+  );
+}
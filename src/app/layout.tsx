@@ -5,6 +5,8 @@ import { SiteFooter } from "@/components/site-footer";
 import { SiteHeader } from "@/components/site-header";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
+import { WorkoutSyncManager } from "@/components/workout/workout-sync-manager";
+import { LocaleProvider } from "@/contexts/locale-context";
 import type { Metadata } from "next";
 
 const geistSans = Geist({
@@ -98,12 +100,15 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <TourProvider>
-            <SiteHeader />
-            <main id="main-content">{children}</main>
-            <SiteFooter />
-            <Toaster richColors position="top-right" />
-          </TourProvider>
+          <LocaleProvider>
+            <TourProvider>
+              <SiteHeader />
+              <main id="main-content">{children}</main>
+              <SiteFooter />
+              <Toaster richColors position="top-right" />
+              <WorkoutSyncManager />
+            </TourProvider>
+          </LocaleProvider>
         </ThemeProvider>
       </body>
     </html>
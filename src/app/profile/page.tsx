@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Mail, Calendar, User, Shield, ArrowLeft, Lock, Smartphone } from "lucide-react";
 import { toast } from "sonner";
+import { LanguageSelect } from "@/components/language-select";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -183,6 +184,19 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
 
+        {/* Coaching Language */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Coaching Language</CardTitle>
+            <CardDescription>
+              The language of voice cues, workout screens and the AI coach
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LanguageSelect />
+          </CardContent>
+        </Card>
+
         {/* Account Activity */}
         <Card>
           <CardHeader>
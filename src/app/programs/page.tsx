@@ -0,0 +1,36 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { ProgramList } from "@/components/programs/program-list";
+import { Button } from "@/components/ui/button";
+import { auth } from "@/lib/auth";
+
+export default async function ProgramsPage() {
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  return (
+    <main className="flex-1 container mx-auto px-4 py-12">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" asChild className="mb-4">
+            <Link href="/workout">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Exercises
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">Training Programs</h1>
+          <p className="text-muted-foreground mt-2">
+            Follow a program to get a weekly schedule with planned sets, reps and weights
+          </p>
+        </div>
+
+        <ProgramList />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { use, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { notFound, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { CameraView } from "@/components/workout/camera-view";
+import { FormIndicator } from "@/components/workout/form-indicator";
+import { PoseOverlay } from "@/components/workout/pose-overlay";
+import { useCamera } from "@/hooks/use-camera";
+import { useFormChecker } from "@/hooks/use-form-checker";
+import { usePoseDetection } from "@/hooks/use-pose-detection";
+import { CALIBRATION_REPS, deriveThresholds, type CalibrationResult } from "@/lib/calibration";
+import {
+  type Exercise,
+  type ThresholdOverrides,
+  getExerciseName,
+  isExercise,
+} from "@/lib/exercises";
+
+type Stage = "idle" | "recording" | "review";
+
+interface CalibrateContentProps {
+  exercise: Exercise;
+}
+
+function CalibrateContent({ exercise }: CalibrateContentProps) {
+  const router = useRouter();
+  const [stage, setStage] = useState<Stage>("idle");
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The calibration currently in use, so it can be reset to the defaults
+  const [current, setCurrent] = useState<ThresholdOverrides | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/calibrations?exerciseType=${exercise}`)
+      .then(async (response) => {
+        if (response.status === 401) return null; // Guests can calibrate but not save
+        if (!response.ok) {
+          throw new Error("Failed to load calibration");
+        }
+        const data = (await response.json()) as {
+          calibrations: { thresholds: ThresholdOverrides }[];
+        };
+        return data.calibrations[0]?.thresholds ?? null;
+      })
+      .then((thresholds) => {
+        if (!cancelled) setCurrent(thresholds);
+      })
+      .catch((error) => console.warn("Failed to load calibration:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exercise]);
+
+  const {
+    videoRef,
+    isActive: cameraActive,
+    error: cameraError,
+    isLoading: cameraLoading,
+    startCamera,
+    stopCamera,
+  } = useCamera();
+
+  const {
+    landmarks,
+    isReady: poseReady,
+    isLoading: poseLoading,
+    error: poseError,
+    initialize: initializePose,
+    detectPose,
+    destroy: destroyPose,
+    startRecording,
+    stopRecording,
+  } = usePoseDetection();
+
+  // Reference reps are counted with the default thresholds
+  const repsRef = useRef(0);
+  const handleRepCompleted = useCallback(() => {
+    repsRef.current++;
+    if (repsRef.current < CALIBRATION_REPS) return;
+
+    const recording = stopRecording();
+    destroyPose();
+    stopCamera();
+    setResult(deriveThresholds(exercise, recording?.frames ?? []));
+    setStage("review");
+  }, [stopRecording, destroyPose, stopCamera, exercise]);
+
+  const {
+    analysis,
+    repCount,
+    analyzeLandmarks,
+    reset: resetFormChecker,
+  } = useFormChecker(exercise, {
+    onRepCompleted: handleRepCompleted,
+  });
+
+  // Size of the camera container so the skeleton overlay lines up with the video
+  const cameraContainerRef = useRef<HTMLDivElement | null>(null);
+  const [overlaySize, setOverlaySize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = cameraContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) {
+        setOverlaySize({
+          width: Math.round(entry.contentRect.width),
+          height: Math.round(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleStart = useCallback(async () => {
+    try {
+      initializePose();
+      await startCamera();
+
+      resetFormChecker();
+      repsRef.current = 0;
+      setResult(null);
+      startRecording();
+      setStage("recording");
+    } catch (error) {
+      console.error("Failed to start calibration:", error);
+    }
+  }, [initializePose, startCamera, resetFormChecker, startRecording]);
+
+  // Run pose detection every animation frame while recording
+  useEffect(() => {
+    if (!cameraActive || !poseReady || stage !== "recording") return;
+
+    let frameId: number;
+    const loop = () => {
+      const videoElement = videoRef.current;
+      if (videoElement) {
+        detectPose(videoElement);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [cameraActive, poseReady, stage, detectPose, videoRef]);
+
+  useEffect(() => {
+    if (!landmarks || stage !== "recording") return;
+    analyzeLandmarks(landmarks);
+  }, [landmarks, stage, analyzeLandmarks]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      destroyPose();
+      stopCamera();
+    };
+  }, [destroyPose, stopCamera]);
+
+  const handleSave = async () => {
+    if (!result) return;
+
+    const thresholds = Object.fromEntries(result.thresholds.map((t) => [t.threshold, t.value]));
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/calibrations", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exerciseType: exercise, thresholds, repCount: result.repCount }),
+      });
+
+      if (response.status === 401) {
+        throw new Error("Sign in to save your calibration");
+      }
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save calibration");
+      }
+
+      toast.success("Calibration saved");
+      router.push(`/workout/${exercise}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save calibration");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      const response = await fetch(`/api/calibrations?exerciseType=${exercise}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to reset calibration");
+      }
+
+      setCurrent(null);
+      toast.success("Using the default thresholds again");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reset calibration");
+    }
+  };
+
+  const isInitializing = cameraLoading || poseLoading;
+  const hasError = cameraError || poseError;
+
+  return (
+    <main className="flex-1 flex flex-col h-[calc(100vh-4rem)]">
+      {/* Header */}
+      <div className="flex items-center gap-4 px-4 py-2 border-b">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/workout/${exercise}`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <h1 className="text-xl font-semibold">Calibrate {getExerciseName(exercise)}</h1>
+      </div>
+
+      <div className="flex-1 relative" ref={cameraContainerRef}>
+        <CameraView ref={videoRef} isActive={cameraActive} className="w-full h-full" />
+
+        {cameraActive && stage === "recording" && overlaySize.width > 0 && (
+          <PoseOverlay
+            landmarks={landmarks}
+            width={overlaySize.width}
+            height={overlaySize.height}
+            isGoodForm
+          />
+        )}
+
+        {stage === "recording" && (
+          <div className="absolute top-4 right-4 bg-background/90 backdrop-blur rounded-lg p-3 shadow-lg text-center">
+            <p className="text-3xl font-bold">
+              {repCount}/{CALIBRATION_REPS}
+            </p>
+            <p className="text-xs text-muted-foreground">reference reps</p>
+          </div>
+        )}
+
+        {stage === "recording" && analysis && !analysis.inFrame && (
+          <FormIndicator
+            isGoodForm
+            issues={[]}
+            hiddenParts={analysis.hiddenParts}
+            className="absolute bottom-4 left-4"
+          />
+        )}
+
+        {isInitializing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">
+                {cameraLoading ? "Starting camera..." : "Loading pose detection..."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {hasError && !isInitializing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+            <div className="text-center max-w-md px-4">
+              <p className="text-red-500 mb-4">{cameraError || poseError}</p>
+              <Button onClick={handleStart}>Try Again</Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-4 border-t bg-background">
+        {stage === "idle" && (
+          <div className="max-w-md mx-auto text-center space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Do {CALIBRATION_REPS} slow reps with your best form, filmed the way you usually
+              train. Your form thresholds are then fitted to how your body moves, so your
+              proportions and mobility aren&apos;t flagged as mistakes. Checks your camera angle
+              can&apos;t judge keep their defaults.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button onClick={handleStart}>Start Calibration</Button>
+              {current && (
+                <Button variant="outline" onClick={handleReset}>
+                  Reset to Defaults
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {stage === "recording" && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => {
+                stopRecording();
+                setStage("idle");
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {stage === "review" && result && (
+          <div className="max-w-md mx-auto space-y-3">
+            {result.thresholds.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="font-normal py-1">Check</th>
+                    <th className="font-normal py-1 text-right">Default</th>
+                    <th className="font-normal py-1 text-right">Yours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.thresholds.map((threshold) => (
+                    <tr key={threshold.threshold} className="border-t">
+                      <td className="py-1">{threshold.label}</td>
+                      <td className="py-1 text-right">{threshold.defaultValue}</td>
+                      <td className="py-1 text-right font-medium">{threshold.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                Couldn&apos;t measure your reps. Make sure your whole body is in view and try
+                again.
+              </p>
+            )}
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={handleStart}>
+                Redo
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={result.thresholds.length === 0 || isSaving}
+              >
+                {isSaving ? "Saving..." : "Save Calibration"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+interface PageProps {
+  params: Promise<{ exercise: string }>;
+}
+
+export default function CalibrateExercisePage({ params }: PageProps) {
+  const { exercise } = use(params);
+
+  if (!isExercise(exercise)) {
+    notFound();
+  }
+
+  return <CalibrateContent exercise={exercise} />;
+}
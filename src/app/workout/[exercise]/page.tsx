@@ -1,42 +1,168 @@
 "use client";
 
-import { use, useEffect, useCallback, useState } from "react";
+import { use, useEffect, useCallback, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter, notFound } from "next/navigation";
 import {
   ArrowLeft,
+  Bot,
+  BotOff,
   Mic,
   MicOff,
   Wifi,
   WifiOff,
   Loader2,
-  Plus,
-  Minus,
 } from "lucide-react";
 import { WorkoutTour, HelpButton } from "@/components/product-tour";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
 import { CameraView } from "@/components/workout/camera-view";
+import { FormIndicator } from "@/components/workout/form-indicator";
+import { PoseOverlay } from "@/components/workout/pose-overlay";
 import { RepCounter } from "@/components/workout/rep-counter";
+import { RestTimer } from "@/components/workout/rest-timer";
+import { SetPlanner } from "@/components/workout/set-planner";
 import { WorkoutControls } from "@/components/workout/workout-controls";
+import { useLocale } from "@/contexts/locale-context";
 import {
   WorkoutProvider,
   useWorkout,
   formatTime,
-  type ExerciseType,
+  getWorkoutSummary,
 } from "@/contexts/workout-context";
 import { useCamera } from "@/hooks/use-camera";
+import { useFormChecker } from "@/hooks/use-form-checker";
 import { useGeminiLive } from "@/hooks/use-gemini-live";
-
-const VALID_EXERCISES: ExerciseType[] = ["squat", "deadlift"];
+import { usePoseDetection } from "@/hooks/use-pose-detection";
+import { useVoiceFeedback } from "@/hooks/use-voice-feedback";
+import { type Exercise, type ThresholdOverrides, isExercise } from "@/lib/exercises";
+import type { FormIssue } from "@/lib/form-checker";
+import { interpolate } from "@/lib/i18n";
+import { getProgressionReasonText } from "@/lib/messages";
+import type { PlannedWorkout } from "@/lib/programs";
+import type { Recommendation } from "@/lib/progression";
+import type { SetRecording } from "@/lib/recording";
+import type { RepRecord } from "@/lib/rep-tracker";
+import { DEFAULT_SET_PLAN, formatWeight, type SetPlan } from "@/lib/sets";
+import { getRepTempo, isDescentTooFast } from "@/lib/tempo";
+import { getSummaryUrl, handOffWorkouts } from "@/lib/workout-handoff";
+import { isQueueSupported, saveRecordingsLocally } from "@/lib/workout-queue";
 
 interface WorkoutContentProps {
-  exercise: ExerciseType;
+  exercise: Exercise;
+  plannedWorkoutId: string | null; // From a program schedule, prefills the targets
 }
 
-function WorkoutContent({ exercise }: WorkoutContentProps) {
+function WorkoutContent({ exercise, plannedWorkoutId }: WorkoutContentProps) {
   const router = useRouter();
-  const { state, startWorkout, pauseWorkout, resumeWorkout, endWorkout } =
-    useWorkout();
+  const { locale, direction, messages } = useLocale();
+  const {
+    state,
+    startWorkout,
+    pauseWorkout,
+    resumeWorkout,
+    endWorkout,
+    completeSet,
+    startNextSet,
+    setRpe,
+    setNextWeight,
+    countRep,
+  } = useWorkout();
+
+  // Sets, target reps, weight and rest chosen before starting
+  const [plan, setPlan] = useState<SetPlan>(DEFAULT_SET_PLAN);
+  const [plannedWorkout, setPlannedWorkout] = useState<PlannedWorkout | null>(null);
+  const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+  const isResting = state.restEndsAt !== null;
+
+  // Load the program's targets for this session
+  useEffect(() => {
+    if (!plannedWorkoutId) return;
+
+    let cancelled = false;
+    fetch(`/api/programs/schedule/${plannedWorkoutId}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load planned workout");
+        }
+        return (await response.json()) as PlannedWorkout;
+      })
+      .then((planned) => {
+        if (cancelled || planned.exerciseType !== exercise) return;
+        setPlannedWorkout(planned);
+        setPlan((current) => ({
+          ...current,
+          targetSets: planned.targetSets,
+          targetReps: planned.targetReps,
+          weight: planned.weight,
+          weightUnit: planned.weightUnit,
+          restSeconds: planned.restSeconds,
+        }));
+      })
+      .catch((error) => console.warn("Failed to load planned workout:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plannedWorkoutId, exercise]);
+
+  // Without a program session, start from the auto-progression recommendation
+  useEffect(() => {
+    if (plannedWorkoutId) return;
+
+    let cancelled = false;
+    fetch(`/api/recommendations?exerciseType=${exercise}`)
+      .then(async (response) => {
+        if (response.status === 401) return null; // Guests get the default plan
+        if (!response.ok) {
+          throw new Error("Failed to load recommendation");
+        }
+        const data = (await response.json()) as { recommendations: Recommendation[] };
+        return data.recommendations[0] ?? null;
+      })
+      .then((recommended) => {
+        if (cancelled || !recommended) return;
+        setRecommendation(recommended);
+        setPlan((current) => ({
+          ...current,
+          targetSets: recommended.targetSets,
+          targetReps: recommended.targetReps,
+          weight: recommended.weight,
+          weightUnit: recommended.weightUnit,
+        }));
+      })
+      .catch((error) => console.warn("Failed to load recommendation:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plannedWorkoutId, exercise]);
+
+  // The user's calibrated thresholds, if they have calibrated this exercise
+  const [calibration, setCalibration] = useState<ThresholdOverrides | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/calibrations?exerciseType=${exercise}`)
+      .then(async (response) => {
+        if (response.status === 401) return null; // Guests use the default thresholds
+        if (!response.ok) {
+          throw new Error("Failed to load calibration");
+        }
+        const data = (await response.json()) as {
+          calibrations: { thresholds: ThresholdOverrides }[];
+        };
+        return data.calibrations[0]?.thresholds ?? null;
+      })
+      .then((thresholds) => {
+        if (!cancelled) setCalibration(thresholds);
+      })
+      .catch((error) => console.warn("Failed to load calibration:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exercise]);
 
   // Camera setup
   const {
@@ -48,7 +174,48 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
     stopCamera,
   } = useCamera();
 
-  // Gemini Live for AI coaching
+  // On-device pose detection (MediaPipe worker)
+  const {
+    landmarks,
+    isReady: poseReady,
+    isLoading: poseLoading,
+    error: poseError,
+    initialize: initializePose,
+    detectPose,
+    destroy: destroyPose,
+    isRecording,
+    startRecording,
+    stopRecording,
+  } = usePoseDetection();
+
+  // Optional landmark recording of each set for replay from the history page
+  const [recordSets, setRecordSets] = useState(false);
+  const recordingsRef = useRef<SetRecording[]>([]);
+  const currentSetIndex = state.currentSet?.setIndex ?? null;
+
+  const finishSetRecording = useCallback(
+    (setIndex: number) => {
+      const recording = stopRecording();
+      if (recording && recording.frames.length > 0) {
+        recordingsRef.current.push({ version: 1, exerciseType: exercise, setIndex, ...recording });
+      }
+    },
+    [stopRecording, exercise]
+  );
+
+  useEffect(() => {
+    if (!recordSets || currentSetIndex === null) return;
+
+    startRecording();
+    return () => finishSetRecording(currentSetIndex);
+  }, [recordSets, currentSetIndex, startRecording, finishSetRecording]);
+
+  // Local voice cues (muted while the Gemini coach is talking)
+  const { speakCue, speakIssue, speakRepComplete, stop: stopVoice } = useVoiceFeedback();
+
+  // Gemini Live for optional AI coaching on top of local detection
+  const [coachEnabled, setCoachEnabled] = useState(false);
+  const [geminiError, setGeminiError] = useState<string | null>(null);
   const {
     connect: connectGemini,
     disconnect: disconnectGemini,
@@ -68,37 +235,160 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
     },
   });
 
-  // Manual rep tracking (Gemini will announce reps verbally, user can also track manually)
-  const [repCount, setRepCount] = useState(0);
-  const [goodFormCount, setGoodFormCount] = useState(0);
-  const [badFormCount, setBadFormCount] = useState(0);
-  const [geminiError, setGeminiError] = useState<string | null>(null);
+  // Local rep counting feeds the workout context
+  const handleRepCompleted = useCallback(
+    (isGoodForm: boolean, mistakes: FormIssue[], rep: RepRecord) => {
+      countRep(isGoodForm, mistakes, rep);
+      if (!isConnected) {
+        if (isDescentTooFast(getRepTempo(rep, exercise), state.plan.tempo)) {
+          speakCue("slow_down");
+        }
+        speakRepComplete(isGoodForm, rep.repIndex);
+      }
+    },
+    [countRep, isConnected, exercise, state.plan.tempo, speakCue, speakRepComplete]
+  );
+
+  const {
+    analysis,
+    analyzeLandmarks,
+    reset: resetFormChecker,
+  } = useFormChecker(exercise, {
+    onRepCompleted: handleRepCompleted,
+    thresholds: calibration,
+  });
+
+  // Size of the camera container so the skeleton overlay lines up with the video
+  const cameraContainerRef = useRef<HTMLDivElement | null>(null);
+  const [overlaySize, setOverlaySize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = cameraContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) {
+        setOverlaySize({
+          width: Math.round(entry.contentRect.width),
+          height: Math.round(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
-  // Initialize camera and Gemini when starting
+  // Connect the optional AI coach without blocking local detection
+  const startCoach = useCallback(async () => {
+    setGeminiError(null);
+    try {
+      await connectGemini();
+    } catch (error) {
+      if (error instanceof Error) {
+        setGeminiError(error.message);
+      }
+    }
+  }, [connectGemini]);
+
+  // Initialize camera and pose detection when starting
   const handleStart = useCallback(async () => {
     setGeminiError(null);
     try {
-      // Start camera first
+      // Start camera and load the pose model in parallel
+      initializePose();
       await startCamera();
 
-      // Connect to Gemini
-      await connectGemini();
-
       // Start workout timer
-      startWorkout(exercise);
+      resetFormChecker();
+      recordingsRef.current = [];
+      startWorkout(exercise, plan);
+
+      if (coachEnabled) {
+        await startCoach();
+      }
     } catch (error) {
       console.error("Failed to start workout:", error);
-      if (error instanceof Error) {
-        setGeminiError(error.message);
+    }
+  }, [
+    initializePose,
+    startCamera,
+    resetFormChecker,
+    startWorkout,
+    exercise,
+    plan,
+    coachEnabled,
+    startCoach,
+  ]);
+
+  // Toggle the Gemini coach on or off
+  const handleToggleCoach = useCallback(() => {
+    if (coachEnabled) {
+      setCoachEnabled(false);
+      stopStreaming();
+      disconnectGemini();
+      setGeminiError(null);
+    } else {
+      setCoachEnabled(true);
+      if (state.isActive) {
+        void startCoach();
       }
     }
-  }, [startCamera, connectGemini, startWorkout, exercise, setGeminiError]);
+  }, [coachEnabled, stopStreaming, disconnectGemini, state.isActive, startCoach]);
+
+  // Run pose detection every animation frame while the workout is running
+  useEffect(() => {
+    if (!cameraActive || !poseReady || !state.isActive || state.isPaused || isResting) {
+      return;
+    }
+
+    let frameId: number;
+    const loop = () => {
+      const videoElement = videoRef.current;
+      if (videoElement) {
+        detectPose(videoElement);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [
+    cameraActive,
+    poseReady,
+    state.isActive,
+    state.isPaused,
+    isResting,
+    detectPose,
+    videoRef,
+  ]);
+
+  // Analyze each new set of landmarks from the worker
+  useEffect(() => {
+    if (!landmarks || !state.isActive || state.isPaused || isResting) return;
+
+    const result = analyzeLandmarks(landmarks);
+    if (result && !isConnected) {
+      if (!result.inFrame) {
+        speakCue("out_of_frame");
+      }
+      result.issues.forEach((issue) => speakIssue(issue));
+    }
+  }, [
+    landmarks,
+    state.isActive,
+    state.isPaused,
+    isResting,
+    analyzeLandmarks,
+    isConnected,
+    speakCue,
+    speakIssue,
+  ]);
 
   // Start streaming when camera is active and Gemini is connected
   useEffect(() => {
     if (cameraActive && isConnected && state.isActive && !state.isPaused) {
       const videoElement = videoRef.current;
-      if (videoElement) {
+      if (videoElement && !isStreaming) {
         startStreaming(videoElement);
       }
     } else if (isStreaming && (state.isPaused || !state.isActive)) {
@@ -119,118 +409,162 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
   const handlePause = useCallback(() => {
     pauseWorkout();
     stopStreaming();
-  }, [pauseWorkout, stopStreaming]);
+    stopVoice();
+  }, [pauseWorkout, stopStreaming, stopVoice]);
 
   // Handle resume
   const handleResume = useCallback(() => {
     resumeWorkout();
-    const videoElement = videoRef.current;
-    if (videoElement && isConnected) {
-      startStreaming(videoElement);
-    }
-  }, [resumeWorkout, startStreaming, isConnected, videoRef]);
+  }, [resumeWorkout]);
 
   // Handle stop - navigate to summary
-  const handleStop = useCallback(() => {
+  const handleStop = useCallback(async () => {
+    if (state.currentSet) {
+      finishSetRecording(state.currentSet.setIndex);
+    }
+
     // Stop everything
     stopStreaming();
     disconnectGemini();
+    stopVoice();
+    destroyPose();
     stopCamera();
     endWorkout();
 
     // Get workout summary data
     const summaryData = {
+      ...getWorkoutSummary(state),
       exerciseType: exercise,
-      totalReps: repCount,
-      goodFormReps: goodFormCount,
-      badFormReps: badFormCount,
-      durationSeconds: state.elapsedSeconds,
-      mistakes: [] as string[],
+      clientId: crypto.randomUUID(),
+      ...(plannedWorkout ? { plannedWorkoutId: plannedWorkout.id } : {}),
     };
 
-    // Navigate to summary with data
-    router.push(
-      `/workout/summary?data=${encodeURIComponent(JSON.stringify(summaryData))}`
-    );
+    // Recordings are too large to hand off with the summary, so they wait on the
+    // device with the workout queue. Sets without reps aren't saved and neither are their recordings.
+    const savedSets = new Set(summaryData.sets.map((set) => set.setIndex));
+    const recordings = recordingsRef.current.filter((r) => savedSets.has(r.setIndex));
+    recordingsRef.current = [];
+    if (recordings.length > 0 && isQueueSupported()) {
+      await saveRecordingsLocally(summaryData.clientId, recordings).catch((error) =>
+        console.warn("Failed to store set recordings:", error)
+      );
+    }
+
+    router.push(getSummaryUrl(handOffWorkouts([summaryData])));
   }, [
+    finishSetRecording,
     stopStreaming,
     disconnectGemini,
+    stopVoice,
+    destroyPose,
     stopCamera,
     endWorkout,
+    state,
     exercise,
-    repCount,
-    goodFormCount,
-    badFormCount,
-    state.elapsedSeconds,
+    plannedWorkout,
     router,
   ]);
 
-  // Manual rep tracking
-  const addGoodRep = useCallback(() => {
-    setRepCount((prev) => prev + 1);
-    setGoodFormCount((prev) => prev + 1);
-  }, [setRepCount, setGoodFormCount]);
-
-  const addBadRep = useCallback(() => {
-    setRepCount((prev) => prev + 1);
-    setBadFormCount((prev) => prev + 1);
-  }, [setRepCount, setBadFormCount]);
-
-  const removeRep = useCallback(() => {
-    if (repCount > 0) {
-      setRepCount((prev) => prev - 1);
-      // Remove from good form if possible, otherwise from bad
-      if (goodFormCount > 0) {
-        setGoodFormCount((prev) => prev - 1);
-      } else if (badFormCount > 0) {
-        setBadFormCount((prev) => prev - 1);
-      }
+  // End the current set and start resting
+  const handleCompleteSet = useCallback(() => {
+    completeSet();
+    if (!isConnected && state.sets.length + 1 < state.plan.targetSets) {
+      speakCue("set_complete", { seconds: state.plan.restSeconds });
     }
-  }, [repCount, goodFormCount, badFormCount, setRepCount, setGoodFormCount, setBadFormCount]);
+  }, [completeSet, isConnected, speakCue, state.sets.length, state.plan]);
+
+  // Leave the rest period and start analyzing the next set from scratch
+  const handleStartNextSet = useCallback(() => {
+    resetFormChecker();
+    startNextSet();
+    if (!isConnected) {
+      speakCue("next_set");
+    }
+  }, [resetFormChecker, startNextSet, isConnected, speakCue]);
+
+  // Finish the set automatically once the target reps are reached
+  useEffect(() => {
+    const set = state.currentSet;
+    if (set && state.plan.targetReps !== null && set.totalReps >= state.plan.targetReps) {
+      handleCompleteSet();
+    }
+  }, [state.currentSet, state.plan.targetReps, handleCompleteSet]);
+
+  // Start the next set when the rest timer runs out
+  useEffect(() => {
+    if (isResting && state.restRemainingSeconds === 0) {
+      handleStartNextSet();
+    }
+  }, [isResting, state.restRemainingSeconds, handleStartNextSet]);
+
+  // Wrap up once every planned set is done
+  useEffect(() => {
+    if (
+      state.isActive &&
+      !state.currentSet &&
+      !isResting &&
+      state.sets.length >= state.plan.targetSets
+    ) {
+      void handleStop();
+    }
+  }, [
+    state.isActive,
+    state.currentSet,
+    isResting,
+    state.sets.length,
+    state.plan.targetSets,
+    handleStop,
+  ]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopStreaming();
       disconnectGemini();
+      stopVoice();
+      destroyPose();
       stopCamera();
     };
-  }, [stopStreaming, disconnectGemini, stopCamera]);
+  }, [stopStreaming, disconnectGemini, stopVoice, destroyPose, stopCamera]);
 
-  const isInitializing = cameraLoading || connectionState === "connecting";
-  const hasError = cameraError || geminiError;
+  const isInitializing = cameraLoading || poseLoading;
+  const hasError = cameraError || poseError;
 
   // Connection status display
   const getConnectionStatus = () => {
+    if (!coachEnabled) {
+      return { text: messages.live.coachOff, color: "text-muted-foreground" };
+    }
     switch (connectionState) {
       case "connecting":
-        return { text: "Connecting to AI coach...", color: "text-yellow-500" };
+        return { text: messages.live.coachConnecting, color: "text-yellow-500" };
       case "connected":
-        return { text: "AI Coach Active", color: "text-green-500" };
+        return { text: messages.live.coachActive, color: "text-green-500" };
       case "error":
-        return { text: "Connection Error", color: "text-red-500" };
+        return { text: messages.live.coachError, color: "text-red-500" };
       default:
-        return { text: "Disconnected", color: "text-muted-foreground" };
+        return { text: messages.live.coachDisconnected, color: "text-muted-foreground" };
     }
   };
 
   const connectionStatus = getConnectionStatus();
+  const lastSet = state.sets[state.sets.length - 1];
 
   return (
     <>
       <WorkoutTour isWorkoutActive={state.isActive} />
       <HelpButton />
-      <main className="flex-1 flex flex-col h-[calc(100vh-4rem)]">
+      <main dir={direction} lang={locale} className="flex-1 flex flex-col h-[calc(100vh-4rem)]">
         {/* Header */}
         <div className="flex items-center justify-between px-4 py-2 border-b">
           <div className="flex items-center gap-4">
             <Button variant="ghost" size="sm" asChild>
               <Link href="/workout">
-                <ArrowLeft className="h-4 w-4 mr-2" />
-                Back
+                <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+                {messages.common.back}
               </Link>
             </Button>
-            <h1 className="text-xl font-semibold capitalize">{exercise}</h1>
+            <h1 className="text-xl font-semibold">{messages.exerciseNames[exercise]}</h1>
           </div>
           <div className="flex items-center gap-2">
             {/* Connection status */}
@@ -247,16 +581,32 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
             {/* Speaking indicator */}
             {isSpeaking && (
               <span className="text-xs text-blue-500 animate-pulse">
-                Speaking...
+                {messages.live.speaking}
               </span>
             )}
+            {/* AI coach toggle */}
+            <span data-tour="coach-toggle">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleToggleCoach}
+                title={coachEnabled ? messages.live.turnCoachOff : messages.live.turnCoachOn}
+                disabled={connectionState === "connecting"}
+              >
+                {coachEnabled ? (
+                  <Bot className="h-5 w-5" />
+                ) : (
+                  <BotOff className="h-5 w-5" />
+                )}
+              </Button>
+            </span>
             {/* Mic toggle */}
             <span data-tour="mic-toggle">
               <Button
                 variant="ghost"
                 size="icon"
                 onClick={() => setMicEnabled(!isMicEnabled)}
-                title={isMicEnabled ? "Mute microphone" : "Enable microphone"}
+                title={isMicEnabled ? messages.live.muteMic : messages.live.enableMic}
                 disabled={!isConnected}
               >
                 {isMicEnabled ? (
@@ -270,7 +620,7 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
         </div>
 
         {/* Main content */}
-        <div className="flex-1 relative" data-tour="camera">
+        <div className="flex-1 relative" data-tour="camera" ref={cameraContainerRef}>
           {/* Camera view */}
           <CameraView
             ref={videoRef}
@@ -278,6 +628,16 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
             className="w-full h-full"
           />
 
+          {/* Skeleton overlay */}
+          {cameraActive && state.isActive && overlaySize.width > 0 && (
+            <PoseOverlay
+              landmarks={landmarks}
+              width={overlaySize.width}
+              height={overlaySize.height}
+              isGoodForm={analysis?.isGoodForm ?? true}
+            />
+          )}
+
           {/* Loading overlay */}
           {isInitializing && (
             <div className="absolute inset-0 flex items-center justify-center bg-background/80">
@@ -285,8 +645,8 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
                 <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
                 <p className="text-sm text-muted-foreground">
                   {cameraLoading
-                    ? "Starting camera..."
-                    : "Connecting to AI coach..."}
+                    ? messages.common.startingCamera
+                    : messages.common.loadingPose}
                 </p>
               </div>
             </div>
@@ -296,8 +656,8 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
           {hasError && !isInitializing && (
             <div className="absolute inset-0 flex items-center justify-center bg-background/80">
               <div className="text-center max-w-md px-4">
-                <p className="text-red-500 mb-4">{cameraError || geminiError}</p>
-                <Button onClick={handleStart}>Try Again</Button>
+                <p className="text-red-500 mb-4">{cameraError || poseError}</p>
+                <Button onClick={handleStart}>{messages.common.tryAgain}</Button>
               </div>
             </div>
           )}
@@ -305,86 +665,148 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
           {/* Workout UI overlays (only when active) */}
           {state.isActive && (
             <>
-              {/* Rep counter - top right */}
-              <div className="absolute top-4 right-4">
+              {/* Rep counter - top end */}
+              <div className="absolute top-4 end-4">
                 <RepCounter
-                  totalReps={repCount}
-                  goodFormReps={goodFormCount}
-                  badFormReps={badFormCount}
+                  totalReps={state.totalReps}
+                  goodFormReps={state.goodFormReps}
+                  badFormReps={state.badFormReps}
                   elapsedTime={formatTime(state.elapsedSeconds)}
+                  {...(state.currentSet
+                    ? {
+                        setProgress: {
+                          setIndex: state.currentSet.setIndex,
+                          targetSets: state.plan.targetSets,
+                          setReps: state.currentSet.totalReps,
+                          targetReps: state.plan.targetReps,
+                        },
+                      }
+                    : {})}
                 />
               </div>
 
-              {/* AI Status indicator - top left */}
-              <div className="absolute top-4 left-4" data-tour="ai-status">
+              {/* AI Status indicator - top start */}
+              <div className="absolute top-4 start-4" data-tour="ai-status">
                 <div className="bg-background/90 backdrop-blur rounded-lg p-3 shadow-lg">
                   <div className="flex items-center gap-2 mb-2">
-                    {isConnected ? (
+                    {poseReady ? (
                       <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
                     ) : (
                       <div className="w-2 h-2 rounded-full bg-red-500" />
                     )}
                     <span className="text-sm font-medium">
-                      {isConnected ? "AI Coach Active" : "AI Disconnected"}
+                      {poseReady ? messages.live.trackingActive : messages.live.trackingOff}
                     </span>
+                    {isRecording && (
+                      <span className="text-xs font-semibold text-red-500">
+                        {messages.live.recording}
+                      </span>
+                    )}
                   </div>
-                  {isConnected && (
+                  <p className="text-xs text-muted-foreground">
+                    {isConnected ? messages.live.coachWatching : messages.live.countingOnDevice}
+                  </p>
+                  {analysis?.inFrame && (
                     <p className="text-xs text-muted-foreground">
-                      Watching your form in real-time
+                      {interpolate(messages.common.filmedFrom, {
+                        view: messages.viewLabels[analysis.view],
+                      })}
                     </p>
                   )}
+                  {geminiError && (
+                    <p className="text-xs text-red-500 mt-1">{geminiError}</p>
+                  )}
                 </div>
               </div>
 
-              {/* Manual rep buttons - bottom left */}
-              <div className="absolute bottom-4 left-4" data-tour="manual-reps">
-                <div className="bg-background/90 backdrop-blur rounded-lg p-2 shadow-lg">
-                  <p className="text-xs text-muted-foreground mb-2 text-center">
-                    Manual Rep Count
-                  </p>
-                  <div className="flex items-center gap-1">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={removeRep}
-                      disabled={repCount === 0}
-                    >
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={addGoodRep}
-                      className="bg-green-600 hover:bg-green-700"
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Good
-                    </Button>
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={addBadRep}
-                      className="bg-orange-600 hover:bg-orange-700"
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Bad
-                    </Button>
-                  </div>
+              {/* Rest timer between sets - centered */}
+              {isResting && lastSet && (
+                <div className="absolute inset-0 flex items-center justify-center p-4 bg-background/40">
+                  <RestTimer
+                    remainingSeconds={state.restRemainingSeconds}
+                    totalSeconds={state.plan.restSeconds}
+                    lastSet={lastSet}
+                    targetSets={state.plan.targetSets}
+                    nextWeight={state.nextWeight}
+                    onRpeChange={(rpe) => setRpe(lastSet.setIndex, rpe)}
+                    onNextWeightChange={setNextWeight}
+                    onSkip={handleStartNextSet}
+                  />
                 </div>
-              </div>
+              )}
+
+              {/* Live form feedback - bottom start */}
+              {analysis && !isResting && (
+                <div className="absolute bottom-4 start-4" data-tour="form-indicator">
+                  <FormIndicator
+                    isGoodForm={analysis.isGoodForm}
+                    issues={analysis.issues}
+                    view={analysis.view}
+                    unassessable={analysis.unassessable}
+                    hiddenParts={analysis.hiddenParts}
+                  />
+                </div>
+              )}
             </>
           )}
         </div>
 
         {/* Controls */}
         <div className="px-4 py-4 border-t bg-background">
+          {!state.isActive && plannedWorkout && (
+            <p className="text-sm text-muted-foreground text-center mb-3">
+              {interpolate(messages.live.planned, {
+                name: plannedWorkout.workoutName,
+                sets: plannedWorkout.targetSets,
+                reps: plannedWorkout.targetReps,
+                weight: formatWeight(plannedWorkout.weight, plannedWorkout.weightUnit),
+              })}
+            </p>
+          )}
+          {!state.isActive && recommendation && (
+            <p className="text-sm text-muted-foreground text-center mb-3">
+              {interpolate(messages.live.suggested, {
+                sets: recommendation.targetSets,
+                reps: recommendation.targetReps,
+                weight: formatWeight(recommendation.weight, recommendation.weightUnit),
+                reason: getProgressionReasonText(messages, recommendation.reason),
+              })}
+            </p>
+          )}
+          {!state.isActive && (
+            <>
+              <SetPlanner plan={plan} onChange={setPlan} className="mb-2" />
+              <div className="flex items-center justify-center gap-2 mb-2">
+                <input
+                  id="record-sets"
+                  type="checkbox"
+                  checked={recordSets}
+                  onChange={(e) => setRecordSets(e.target.checked)}
+                  className="h-4 w-4 accent-primary"
+                />
+                <Label htmlFor="record-sets" className="text-sm font-normal">
+                  {messages.live.recordSets}
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground text-center mb-4">
+                {calibration
+                  ? messages.live.calibratedThresholds
+                  : messages.live.defaultThresholds}{" "}
+                <Link href={`/workout/${exercise}/calibrate`} className="underline">
+                  {calibration ? messages.live.recalibrate : messages.live.calibrate}
+                </Link>
+              </p>
+            </>
+          )}
           <WorkoutControls
             isActive={state.isActive}
             isPaused={state.isPaused}
+            isResting={isResting}
             onStart={handleStart}
             onPause={handlePause}
             onResume={handleResume}
             onStop={handleStop}
+            onCompleteSet={handleCompleteSet}
           />
         </div>
       </main>
@@ -394,19 +816,24 @@ function WorkoutContent({ exercise }: WorkoutContentProps) {
 
 interface PageProps {
   params: Promise<{ exercise: string }>;
+  searchParams: Promise<{ planned?: string | string[] }>;
 }
 
-export default function WorkoutExercisePage({ params }: PageProps) {
+export default function WorkoutExercisePage({ params, searchParams }: PageProps) {
   const { exercise } = use(params);
+  const { planned } = use(searchParams);
 
   // Validate exercise type
-  if (!VALID_EXERCISES.includes(exercise as ExerciseType)) {
+  if (!isExercise(exercise)) {
     notFound();
   }
 
   return (
     <WorkoutProvider>
-      <WorkoutContent exercise={exercise as ExerciseType} />
+      <WorkoutContent
+        exercise={exercise}
+        plannedWorkoutId={typeof planned === "string" ? planned : null}
+      />
     </WorkoutProvider>
   );
 }
@@ -0,0 +1,518 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CameraView } from "@/components/workout/camera-view";
+import { FormIndicator } from "@/components/workout/form-indicator";
+import { PoseOverlay } from "@/components/workout/pose-overlay";
+import { RepCounter } from "@/components/workout/rep-counter";
+import { WorkoutControls } from "@/components/workout/workout-controls";
+import { useLocale } from "@/contexts/locale-context";
+import {
+  WorkoutProvider,
+  useWorkout,
+  formatTime,
+  getWorkoutSummary,
+} from "@/contexts/workout-context";
+import { useCamera } from "@/hooks/use-camera";
+import { useFormChecker } from "@/hooks/use-form-checker";
+import { type Landmark, usePoseDetection } from "@/hooks/use-pose-detection";
+import { useVoiceFeedback } from "@/hooks/use-voice-feedback";
+import {
+  type Activity,
+  type RecognitionFrame,
+  createExerciseRecognizer,
+  recognizeFrame,
+} from "@/lib/exercise-recognition";
+import { EXERCISE_IDS, type Exercise, type ThresholdOverrides } from "@/lib/exercises";
+import type { FormIssue } from "@/lib/form-checker";
+import { formatList, interpolate } from "@/lib/i18n";
+import { getLocalizedExerciseName } from "@/lib/messages";
+import type { RepRecord } from "@/lib/rep-tracker";
+import { DEFAULT_SET_PLAN, SET_PLAN_LIMITS, type SetPlan } from "@/lib/sets";
+import { getRepTempo, isDescentTooFast } from "@/lib/tempo";
+import { getSummaryUrl, handOffWorkouts } from "@/lib/workout-handoff";
+import type { WorkoutSummaryData } from "@/lib/workout-queue";
+
+// Sets run until the lifter stops moving and rests last until they start again,
+// so there are no targets to reach
+const AUTO_PLAN: SetPlan = {
+  ...DEFAULT_SET_PLAN,
+  targetSets: SET_PLAN_LIMITS.maxSets,
+  targetReps: null,
+  restSeconds: SET_PLAN_LIMITS.maxRestSeconds,
+};
+
+function AutoWorkoutContent() {
+  const router = useRouter();
+  const { locale, direction, messages } = useLocale();
+  const {
+    state,
+    startWorkout,
+    pauseWorkout,
+    resumeWorkout,
+    endWorkout,
+    completeSet,
+    startNextSet,
+    countRep,
+  } = useWorkout();
+  const isResting = state.restEndsAt !== null;
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [activity, setActivity] = useState<Activity | null>(null);
+  // The exercise being analyzed: the latest one recognized
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  // Workouts for the exercises finished earlier in the session, one per exercise
+  const [finished, setFinished] = useState<WorkoutSummaryData[]>([]);
+
+  const recognizerRef = useRef(createExerciseRecognizer<Landmark>());
+  // Frames a new exercise was recognized from, analyzed once its analyzer is active
+  const pendingFramesRef = useRef<RecognitionFrame<Landmark>[] | null>(null);
+  const lastLandmarksRef = useRef<Landmark[] | null>(null);
+
+  // Calibrated thresholds for every exercise the user has calibrated
+  const [calibrations, setCalibrations] = useState<
+    Partial<Record<Exercise, ThresholdOverrides>>
+  >({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/calibrations")
+      .then(async (response) => {
+        if (response.status === 401) return []; // Guests use the default thresholds
+        if (!response.ok) {
+          throw new Error("Failed to load calibrations");
+        }
+        const data = (await response.json()) as {
+          calibrations: { exerciseType: Exercise; thresholds: ThresholdOverrides }[];
+        };
+        return data.calibrations;
+      })
+      .then((rows) => {
+        if (cancelled) return;
+        setCalibrations(Object.fromEntries(rows.map((row) => [row.exerciseType, row.thresholds])));
+      })
+      .catch((error) => console.warn("Failed to load calibrations:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const {
+    videoRef,
+    isActive: cameraActive,
+    error: cameraError,
+    isLoading: cameraLoading,
+    startCamera,
+    stopCamera,
+  } = useCamera();
+
+  const {
+    landmarks,
+    isReady: poseReady,
+    isLoading: poseLoading,
+    error: poseError,
+    initialize: initializePose,
+    detectPose,
+    destroy: destroyPose,
+  } = usePoseDetection();
+
+  const { speakCue, speakIssue, speakRepComplete, stop: stopVoice } = useVoiceFeedback();
+
+  const handleRepCompleted = useCallback(
+    (isGoodForm: boolean, mistakes: FormIssue[], rep: RepRecord) => {
+      countRep(isGoodForm, mistakes, rep);
+      // No tempo is prescribed, so only a dropped descent is called out
+      if (exercise && isDescentTooFast(getRepTempo(rep, exercise), null)) {
+        speakCue("slow_down");
+      }
+      speakRepComplete(isGoodForm, rep.repIndex);
+    },
+    [countRep, exercise, speakCue, speakRepComplete]
+  );
+
+  // Nothing is analyzed until an exercise is recognized, so the first exercise
+  // only stands in until then
+  const {
+    analysis,
+    analyzeLandmarks,
+    reset: resetFormChecker,
+  } = useFormChecker(exercise ?? EXERCISE_IDS[0], {
+    onRepCompleted: handleRepCompleted,
+    thresholds: exercise ? (calibrations[exercise] ?? null) : null,
+  });
+
+  // Size of the camera container so the skeleton overlay lines up with the video
+  const cameraContainerRef = useRef<HTMLDivElement | null>(null);
+  const [overlaySize, setOverlaySize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = cameraContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) {
+        setOverlaySize({
+          width: Math.round(entry.contentRect.width),
+          height: Math.round(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The current exercise's workout so far, null when it has no reps worth saving
+  const getCurrentWorkout = useCallback((): WorkoutSummaryData | null => {
+    if (!state.exercise || state.totalReps === 0) return null;
+    return {
+      ...getWorkoutSummary(state),
+      exerciseType: state.exercise,
+      clientId: crypto.randomUUID(),
+    };
+  }, [state]);
+
+  const replayFrames = useCallback(
+    (frames: RecognitionFrame<Landmark>[]) => {
+      frames.forEach((frame) => analyzeLandmarks(frame.landmarks, frame.t));
+    },
+    [analyzeLandmarks]
+  );
+
+  // React to the recognizer settling on a different activity
+  const handleActivityChange = useCallback(
+    (next: Activity) => {
+      setActivity(next);
+
+      if (next === "idle") {
+        // Stopping ends the set; the rest lasts until an exercise is recognized again
+        if (state.currentSet && state.currentSet.totalReps > 0) {
+          completeSet();
+          speakCue("set_complete_open_rest");
+        }
+        return;
+      }
+
+      // The reps that got the exercise recognized are analyzed too, so none are lost
+      const frames = [...recognizerRef.current.frames];
+
+      if (next === state.exercise && (state.currentSet || isResting)) {
+        // Back to the same exercise: the next set, or the current one carries on
+        if (isResting) {
+          startNextSet();
+          speakCue("next_set");
+        }
+        resetFormChecker();
+        replayFrames(frames);
+        return;
+      }
+
+      // A different exercise is saved as a workout of its own
+      const current = getCurrentWorkout();
+      if (current) {
+        setFinished((prev) => [...prev, current]);
+      }
+      resetFormChecker();
+      startWorkout(next, AUTO_PLAN);
+      speakCue("exercise_detected", { exercise: messages.exerciseNames[next] });
+
+      if (next === exercise) {
+        replayFrames(frames);
+      } else {
+        pendingFramesRef.current = frames;
+        setExercise(next);
+      }
+    },
+    [
+      state.currentSet,
+      state.exercise,
+      isResting,
+      exercise,
+      completeSet,
+      startNextSet,
+      startWorkout,
+      resetFormChecker,
+      replayFrames,
+      getCurrentWorkout,
+      speakCue,
+      messages,
+    ]
+  );
+
+  // Once the analyzer has switched to a new exercise, catch up on the frames it was recognized from
+  useEffect(() => {
+    const frames = pendingFramesRef.current;
+    if (!frames) return;
+
+    pendingFramesRef.current = null;
+    replayFrames(frames);
+  }, [exercise, replayFrames]);
+
+  const handleStart = useCallback(async () => {
+    try {
+      initializePose();
+      await startCamera();
+
+      recognizerRef.current = createExerciseRecognizer();
+      resetFormChecker();
+      setFinished([]);
+      setActivity(null);
+      setIsPaused(false);
+      setIsRunning(true);
+    } catch (error) {
+      console.error("Failed to start workout:", error);
+    }
+  }, [initializePose, startCamera, resetFormChecker]);
+
+  // Pose detection keeps running while resting, to spot the next set starting
+  useEffect(() => {
+    if (!cameraActive || !poseReady || !isRunning || isPaused) return;
+
+    let frameId: number;
+    const loop = () => {
+      const videoElement = videoRef.current;
+      if (videoElement) {
+        detectPose(videoElement);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [cameraActive, poseReady, isRunning, isPaused, detectPose, videoRef]);
+
+  // Recognize the exercise from each new set of landmarks, then analyze it
+  useEffect(() => {
+    if (!landmarks || !isRunning || isPaused) return;
+    // Only new frames: the effect also re-runs when the workout state changes
+    if (landmarks === lastLandmarksRef.current) return;
+    lastLandmarksRef.current = landmarks;
+
+    const now = Date.now();
+    const recognition = recognizeFrame(recognizerRef.current, landmarks, now);
+    if (recognition.changed && recognition.activity) {
+      // This frame is part of the window replayed for a newly recognized exercise
+      handleActivityChange(recognition.activity);
+      return;
+    }
+    if (!exercise || recognition.activity !== exercise) return;
+
+    const result = analyzeLandmarks(landmarks, now);
+    if (result) {
+      if (!result.inFrame) {
+        speakCue("out_of_frame");
+      }
+      result.issues.forEach((issue) => speakIssue(issue));
+    }
+  }, [
+    landmarks,
+    isRunning,
+    isPaused,
+    exercise,
+    handleActivityChange,
+    analyzeLandmarks,
+    speakCue,
+    speakIssue,
+  ]);
+
+  const handlePause = useCallback(() => {
+    setIsPaused(true);
+    pauseWorkout();
+    stopVoice();
+  }, [pauseWorkout, stopVoice]);
+
+  const handleResume = useCallback(() => {
+    setIsPaused(false);
+    resumeWorkout();
+  }, [resumeWorkout]);
+
+  // Stop and show every exercise's workout on the summary page
+  const handleStop = useCallback(() => {
+    const current = getCurrentWorkout();
+    const workouts = current ? [...finished, current] : finished;
+
+    stopVoice();
+    destroyPose();
+    stopCamera();
+    endWorkout();
+    setIsRunning(false);
+
+    router.push(getSummaryUrl(handOffWorkouts(workouts)));
+  }, [getCurrentWorkout, finished, stopVoice, destroyPose, stopCamera, endWorkout, router]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      stopVoice();
+      destroyPose();
+      stopCamera();
+    };
+  }, [stopVoice, destroyPose, stopCamera]);
+
+  const isInitializing = cameraLoading || poseLoading;
+  const hasError = cameraError || poseError;
+  const isAnalyzing = exercise !== null && activity === exercise;
+
+  const getActivityStatus = () => {
+    if (activity === null) return messages.auto.startExercise;
+    if (activity === "idle") {
+      return isResting
+        ? interpolate(messages.auto.resting, {
+            time: formatTime(AUTO_PLAN.restSeconds - state.restRemainingSeconds),
+          })
+        : messages.auto.waiting;
+    }
+    return messages.exerciseNames[activity];
+  };
+
+  return (
+    <main dir={direction} lang={locale} className="flex-1 flex flex-col h-[calc(100vh-4rem)]">
+      {/* Header */}
+      <div className="flex items-center gap-4 px-4 py-2 border-b">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/workout">
+            <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+            {messages.common.back}
+          </Link>
+        </Button>
+        <h1 className="text-xl font-semibold">{messages.auto.title}</h1>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 relative" ref={cameraContainerRef}>
+        <CameraView ref={videoRef} isActive={cameraActive} className="w-full h-full" />
+
+        {cameraActive && isRunning && overlaySize.width > 0 && (
+          <PoseOverlay
+            landmarks={landmarks}
+            width={overlaySize.width}
+            height={overlaySize.height}
+            isGoodForm={!isAnalyzing || (analysis?.isGoodForm ?? true)}
+          />
+        )}
+
+        {isInitializing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">
+                {cameraLoading ? messages.common.startingCamera : messages.common.loadingPose}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {hasError && !isInitializing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+            <div className="text-center max-w-md px-4">
+              <p className="text-red-500 mb-4">{cameraError || poseError}</p>
+              <Button onClick={handleStart}>{messages.common.tryAgain}</Button>
+            </div>
+          </div>
+        )}
+
+        {isRunning && (
+          <>
+            {/* Reps of the current exercise - top end */}
+            {state.exercise && (
+              <div className="absolute top-4 end-4">
+                <RepCounter
+                  totalReps={state.totalReps}
+                  goodFormReps={state.goodFormReps}
+                  badFormReps={state.badFormReps}
+                  elapsedTime={formatTime(state.elapsedSeconds)}
+                />
+              </div>
+            )}
+
+            {/* Recognized activity - top start */}
+            <div className="absolute top-4 start-4">
+              <div className="bg-background/90 backdrop-blur rounded-lg p-3 shadow-lg">
+                <div className="flex items-center gap-2 mb-1">
+                  <div
+                    className={`w-2 h-2 rounded-full ${
+                      isAnalyzing ? "bg-green-500 animate-pulse" : "bg-muted-foreground"
+                    }`}
+                  />
+                  <span className="text-sm font-medium">{getActivityStatus()}</span>
+                </div>
+                {state.currentSet && state.currentSet.totalReps > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {interpolate(messages.auto.setReps, {
+                      set: state.currentSet.setIndex,
+                      reps: state.currentSet.totalReps,
+                    })}
+                  </p>
+                )}
+                {isAnalyzing && analysis?.inFrame && (
+                  <p className="text-xs text-muted-foreground">
+                    {interpolate(messages.common.filmedFrom, {
+                      view: messages.viewLabels[analysis.view],
+                    })}
+                  </p>
+                )}
+                {finished.map((workout) => (
+                  <p key={workout.clientId} className="text-xs text-muted-foreground">
+                    {interpolate(messages.auto.done, {
+                      exercise: getLocalizedExerciseName(messages, workout.exerciseType),
+                      reps: workout.totalReps,
+                    })}
+                  </p>
+                ))}
+              </div>
+            </div>
+
+            {/* Live form feedback - bottom start */}
+            {isAnalyzing && analysis && (
+              <div className="absolute bottom-4 start-4">
+                <FormIndicator
+                  isGoodForm={analysis.isGoodForm}
+                  issues={analysis.issues}
+                  view={analysis.view}
+                  unassessable={analysis.unassessable}
+                  hiddenParts={analysis.hiddenParts}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="px-4 py-4 border-t bg-background">
+        {!isRunning && (
+          <p className="text-sm text-muted-foreground text-center max-w-md mx-auto mb-4">
+            {interpolate(messages.auto.intro, {
+              exercises: formatList(
+                EXERCISE_IDS.map((id) => messages.exerciseNames[id]),
+                locale
+              ),
+            })}
+          </p>
+        )}
+        <WorkoutControls
+          isActive={isRunning}
+          isPaused={isPaused}
+          isResting={isResting}
+          onStart={handleStart}
+          onPause={handlePause}
+          onResume={handleResume}
+          onStop={handleStop}
+        />
+      </div>
+    </main>
+  );
+}
+
+export default function AutoWorkoutPage() {
+  return (
+    <WorkoutProvider>
+      <AutoWorkoutContent />
+    </WorkoutProvider>
+  );
+}
@@ -1,51 +1,100 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, ScanSearch } from "lucide-react";
+import { LanguageSelect } from "@/components/language-select";
+import { TodaysPlan } from "@/components/programs/todays-plan";
 import { Button } from "@/components/ui/button";
+import { CueSettings } from "@/components/workout/cue-settings";
 import { ExerciseCard } from "@/components/workout/exercise-card";
-import type { ExerciseType } from "@/contexts/workout-context";
+import { useLocale } from "@/contexts/locale-context";
+import { useSession } from "@/lib/auth-client";
+import { EXERCISE_IDS, type Exercise } from "@/lib/exercises";
+import type { Recommendation } from "@/lib/progression";
 
 export default function WorkoutPage() {
   const router = useRouter();
+  const { data: session } = useSession();
+  const { locale, direction, messages } = useLocale();
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
 
-  const handleSelectExercise = (exercise: ExerciseType) => {
+  // Next-session targets from the auto-progression service
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    fetch("/api/recommendations")
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load recommendations");
+        }
+        return (await response.json()) as { recommendations: Recommendation[] };
+      })
+      .then((data) => {
+        if (!cancelled) setRecommendations(data.recommendations);
+      })
+      .catch((error) => console.warn("Failed to load recommendations:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const handleSelectExercise = (exercise: Exercise) => {
     router.push(`/workout/${exercise}`);
   };
 
   return (
-    <main className="flex-1 container mx-auto px-4 py-12">
+    <main dir={direction} lang={locale} className="flex-1 container mx-auto px-4 py-12">
       <div className="max-w-2xl mx-auto">
         <div className="mb-8">
           <Button variant="ghost" size="sm" asChild className="mb-4">
             <Link href="/">
-              <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to Home
+              <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+              {messages.selection.backToHome}
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">{messages.selection.title}</h1>
+          <p className="text-muted-foreground mt-2">{messages.selection.subtitle}</p>
+          <LanguageSelect className="mt-4" />
+          <CueSettings className="mt-3" />
+        </div>
+
+        <TodaysPlan className="mb-8" />
+
+        <div className="mb-8 flex items-center justify-between gap-4 rounded-lg border p-4">
+          <div>
+            <h2 className="font-semibold">{messages.selection.autoDetectTitle}</h2>
+            <p className="text-sm text-muted-foreground">
+              {messages.selection.autoDetectDescription}
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/workout/auto">
+              <ScanSearch className="h-4 w-4 me-2" />
+              {messages.selection.start}
             </Link>
           </Button>
-          <h1 className="text-3xl font-bold">Choose Exercise</h1>
-          <p className="text-muted-foreground mt-2">
-            Select the exercise you want to perform with AI form analysis
-          </p>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <ExerciseCard
-            exercise="squat"
-            onSelect={() => handleSelectExercise("squat")}
-          />
-          <ExerciseCard
-            exercise="deadlift"
-            onSelect={() => handleSelectExercise("deadlift")}
-          />
+          {EXERCISE_IDS.map((exercise) => (
+            <ExerciseCard
+              key={exercise}
+              exercise={exercise}
+              recommendation={recommendations.find((r) => r.exerciseType === exercise) ?? null}
+              onSelect={() => handleSelectExercise(exercise)}
+            />
+          ))}
         </div>
 
         <div className="mt-8 text-center">
           <p className="text-sm text-muted-foreground">
-            Position your camera so your full body is visible.
+            {messages.selection.cameraTip}
             <br />
-            Stand sideways for best form detection results.
+            {messages.selection.sideTip}
           </p>
         </div>
       </div>
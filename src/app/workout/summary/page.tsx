@@ -5,60 +5,119 @@ import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { ArrowLeft, LogIn } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { GuestWorkoutsBanner } from "@/components/workout/guest-workouts-banner";
+import { RepBreakdown } from "@/components/workout/rep-breakdown";
+import { SetBreakdown } from "@/components/workout/set-breakdown";
 import { WorkoutSummaryCard } from "@/components/workout/workout-summary-card";
+import { useLocale } from "@/contexts/locale-context";
 import { useSession } from "@/lib/auth-client";
-
-interface WorkoutSummaryData {
-  exerciseType: string;
-  totalReps: number;
-  goodFormReps: number;
-  badFormReps: number;
-  durationSeconds: number;
-  mistakes: string[];
-}
+import { interpolate } from "@/lib/i18n";
+import { summarizeTempo } from "@/lib/tempo";
+import { loadHandedOffWorkouts } from "@/lib/workout-handoff";
+import {
+  discardQueuedWorkout,
+  getQueuedWorkout,
+  isQueueSupported,
+  saveWorkoutLocally,
+  syncQueuedWorkouts,
+  type WorkoutSummaryData,
+} from "@/lib/workout-queue";
 
 function SummaryContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { data: session } = useSession();
+  const { data: session, isPending: isSessionPending } = useSession();
+  const { locale, direction, messages } = useLocale();
 
-  const [summaryData, setSummaryData] = useState<WorkoutSummaryData | null>(null);
+  // One workout per exercise; an auto-detect session can cover several
+  const [workouts, setWorkouts] = useState<WorkoutSummaryData[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saved, setSaved] = useState(false);
+  const [savedOffline, setSavedOffline] = useState(false);
+  const [keptAsGuest, setKeptAsGuest] = useState(false);
+  // Workouts the server rejected; they stay on the device until discarded
+  const [rejectedIds, setRejectedIds] = useState<string[]>([]);
+  const [discarded, setDiscarded] = useState(false);
 
-  // Parse summary data from URL
+  // Load the workouts handed off by the workout page
   useEffect(() => {
+    const id = searchParams.get("id");
+    if (id) {
+      setWorkouts(loadHandedOffWorkouts(id) ?? []);
+      return;
+    }
+
     const dataParam = searchParams.get("data");
     if (dataParam) {
       try {
         const parsed = JSON.parse(decodeURIComponent(dataParam));
-        setSummaryData(parsed);
+        // Older links carry the data itself and no client id - give them one so they can be queued
+        setWorkouts(
+          (Array.isArray(parsed) ? parsed : [parsed]).map((workout) => ({
+            clientId: crypto.randomUUID(),
+            ...workout,
+          }))
+        );
       } catch (e) {
         console.error("Failed to parse workout data:", e);
       }
     }
   }, [searchParams]);
 
-  // Save workout to database
+  // Keep guest workouts on this device so they can be claimed after signing in
+  useEffect(() => {
+    if (workouts.length === 0 || isSessionPending || session || !isQueueSupported()) return;
+
+    Promise.all(workouts.map((workout) => saveWorkoutLocally(workout, null)))
+      .then(() => setKeptAsGuest(true))
+      .catch((e) => console.warn("Failed to store guest workout:", e));
+  }, [workouts, session, isSessionPending]);
+
+  // Save the workouts to the device queue, then sync them to the database
   const handleSave = async () => {
-    if (!summaryData || !session) return;
+    if (workouts.length === 0 || !session) return;
 
     setIsSaving(true);
     setSaveError(null);
 
     try {
-      const response = await fetch("/api/workouts", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(summaryData),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to save workout");
+      if (!isQueueSupported()) {
+        // The idempotency key makes a retry after a partial failure skip the ones already saved
+        for (const { clientId, ...payload } of workouts) {
+          const response = await fetch("/api/workouts", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "Idempotency-Key": clientId },
+            body: JSON.stringify(payload),
+          });
+
+          if (!response.ok) {
+            throw new Error("Failed to save workout");
+          }
+        }
+
+        setSaved(true);
+        return;
       }
 
-      setSaved(true);
+      for (const workout of workouts) {
+        await saveWorkoutLocally(workout, session.user.id);
+      }
+      await syncQueuedWorkouts(session.user.id, true);
+
+      const queued = await Promise.all(workouts.map((workout) => getQueuedWorkout(workout.clientId)));
+      const failedIds = queued.flatMap((record) =>
+        record?.status === "failed" ? [record.clientId] : []
+      );
+      if (failedIds.length > 0) {
+        // A rejected workout will never sync, so don't promise that it will
+        setRejectedIds(failedIds);
+      } else if (queued.some(Boolean)) {
+        // Still on the device - the background sync will retry
+        setSavedOffline(true);
+      } else {
+        setSaved(true);
+      }
     } catch (e) {
       setSaveError(e instanceof Error ? e.message : "Failed to save workout");
     } finally {
@@ -66,22 +125,33 @@ function SummaryContent() {
     }
   };
 
+  // Drop rejected workouts from the device queue
+  const handleDiscard = async () => {
+    try {
+      await Promise.all(rejectedIds.map((clientId) => discardQueuedWorkout(clientId)));
+      setRejectedIds([]);
+      setDiscarded(true);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : "Failed to discard workout");
+    }
+  };
+
   // Start new workout
   const handleStartNew = () => {
     router.push("/workout");
   };
 
+  const canSave = !saved && !savedOffline && !discarded && rejectedIds.length === 0;
+
   // No data - redirect to workout selection
-  if (!summaryData) {
+  if (workouts.length === 0) {
     return (
-      <main className="flex-1 container mx-auto px-4 py-12">
+      <main dir={direction} lang={locale} className="flex-1 container mx-auto px-4 py-12">
         <div className="max-w-md mx-auto text-center">
-          <h1 className="text-2xl font-bold mb-4">No Workout Data</h1>
-          <p className="text-muted-foreground mb-6">
-            It looks like you haven&apos;t completed a workout yet.
-          </p>
+          <h1 className="text-2xl font-bold mb-4">{messages.summary.noData}</h1>
+          <p className="text-muted-foreground mb-6">{messages.summary.noDataDescription}</p>
           <Button asChild>
-            <Link href="/workout">Start a Workout</Link>
+            <Link href="/workout">{messages.summary.startWorkout}</Link>
           </Button>
         </div>
       </main>
@@ -89,52 +159,109 @@ function SummaryContent() {
   }
 
   return (
-    <main className="flex-1 container mx-auto px-4 py-12">
+    <main dir={direction} lang={locale} className="flex-1 container mx-auto px-4 py-12">
       <div className="max-w-md mx-auto">
         <Button variant="ghost" size="sm" asChild className="mb-6">
           <Link href="/workout">
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Exercises
+            <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+            {messages.summary.backToExercises}
           </Link>
         </Button>
 
-        <WorkoutSummaryCard
-          exerciseType={summaryData.exerciseType}
-          totalReps={summaryData.totalReps}
-          goodFormReps={summaryData.goodFormReps}
-          badFormReps={summaryData.badFormReps}
-          durationSeconds={summaryData.durationSeconds}
-          mistakes={summaryData.mistakes}
-          {...(session && !saved ? { onSave: handleSave } : {})}
-          onStartNew={handleStartNew}
-          isSaving={isSaving}
-        />
+        {workouts.length > 1 && (
+          <p className="text-sm text-muted-foreground mb-6">
+            {interpolate(messages.summary.multipleExercises, { count: workouts.length })}
+          </p>
+        )}
+
+        {workouts.map((workout, i) => {
+          // Save and start-new actions go under the last workout and cover them all
+          const isLast = i === workouts.length - 1;
+          return (
+            <section key={workout.clientId} className={i > 0 ? "mt-10" : undefined}>
+              <WorkoutSummaryCard
+                exerciseType={workout.exerciseType}
+                totalReps={workout.totalReps}
+                goodFormReps={workout.goodFormReps}
+                badFormReps={workout.badFormReps}
+                durationSeconds={workout.durationSeconds}
+                mistakes={workout.mistakes}
+                tempo={summarizeTempo(workout.exerciseType, workout.reps ?? [])}
+                {...(isLast && session && canSave ? { onSave: handleSave } : {})}
+                {...(isLast ? { onStartNew: handleStartNew } : {})}
+                isSaving={isSaving}
+                {...(workouts.length > 1 ? { saveLabel: messages.summary.saveAll } : {})}
+              />
+
+              {/* Per-set detail */}
+              {workout.sets && workout.sets.length > 0 && (
+                <SetBreakdown sets={workout.sets} className="mt-6" />
+              )}
+
+              {/* Per-rep detail */}
+              {workout.reps && workout.reps.length > 0 && (
+                <RepBreakdown
+                  exerciseType={workout.exerciseType}
+                  reps={workout.reps}
+                  className="mt-6"
+                />
+              )}
+            </section>
+          );
+        })}
 
         {/* Save error */}
         {saveError && (
           <p className="text-red-500 text-sm text-center mt-4">{saveError}</p>
         )}
 
+        {/* Rejected by the server */}
+        {rejectedIds.length > 0 && (
+          <div className="text-center mt-4">
+            <p className="text-red-500 text-sm mb-2">{messages.summary.saveRejected}</p>
+            <Button variant="outline" size="sm" onClick={handleDiscard}>
+              {messages.summary.discard}
+            </Button>
+          </div>
+        )}
+
+        {/* Rejected workouts removed from the device */}
+        {discarded && (
+          <p className="text-sm text-muted-foreground text-center mt-4">
+            {messages.summary.discarded}
+          </p>
+        )}
+
         {/* Save success */}
         {saved && (
           <div className="text-center mt-4">
-            <p className="text-green-500 text-sm mb-2">Workout saved!</p>
+            <p className="text-green-500 text-sm mb-2">{messages.summary.saved}</p>
             <Button variant="link" asChild>
-              <Link href="/history">View History</Link>
+              <Link href="/history">{messages.summary.viewHistory}</Link>
             </Button>
           </div>
         )}
 
+        {/* Saved on the device while offline */}
+        {savedOffline && (
+          <p className="text-sm text-muted-foreground text-center mt-4">
+            {messages.summary.savedOffline}
+          </p>
+        )}
+
+        {/* Guest workouts recorded earlier on this device */}
+        <GuestWorkoutsBanner className="mt-6" />
+
         {/* Login prompt for guests */}
         {!session && (
           <div className="mt-6 p-4 border rounded-lg text-center">
             <p className="text-sm text-muted-foreground mb-3">
-              Sign in to save your workout history
+              {keptAsGuest ? messages.summary.keptAsGuest : messages.summary.signInToSave}
             </p>
             <Button variant="outline" asChild>
               <Link href="/login">
-                <LogIn className="h-4 w-4 mr-2" />
-                Sign In
+                <LogIn className="h-4 w-4 me-2" />
+                {messages.summary.signIn}
               </Link>
             </Button>
           </div>
@@ -145,12 +272,14 @@ function SummaryContent() {
 }
 
 export default function WorkoutSummaryPage() {
+  const { messages } = useLocale();
+
   return (
     <Suspense
       fallback={
         <main className="flex-1 container mx-auto px-4 py-12">
           <div className="max-w-md mx-auto text-center">
-            <p className="text-muted-foreground">Loading...</p>
+            <p className="text-muted-foreground">{messages.summary.loading}</p>
           </div>
         </main>
       }
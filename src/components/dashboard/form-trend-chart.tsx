@@ -0,0 +1,94 @@
+"use client";
+
+import { formatWeekLabel, type WeeklyStats } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+
+interface FormTrendChartProps {
+  weekly: WeeklyStats[];
+  className?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+export function FormTrendChart({ weekly, className }: FormTrendChartProps) {
+  const step = PLOT_WIDTH / Math.max(weekly.length - 1, 1);
+  const labelEvery = Math.ceil(weekly.length / 6);
+  const scaleY = (percentage: number) => PADDING.top + PLOT_HEIGHT * (1 - percentage / 100);
+
+  // Weeks without reps are skipped; the line joins the weeks either side
+  const points = weekly.flatMap((week, i) =>
+    week.goodFormPercentage === null
+      ? []
+      : [{ week, x: PADDING.left + step * i, y: scaleY(week.goodFormPercentage) }]
+  );
+  const path = points
+    .map((point, i) => `${i === 0 ? "M" : "L"}${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+    .join(" ");
+
+  if (points.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted-foreground text-center py-8", className)}>
+        No reps recorded in this period yet.
+      </p>
+    );
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn("w-full h-auto", className)}
+      role="img"
+      aria-label="Good form percentage per week"
+    >
+      {[0, 50, 100].map((percentage) => (
+        <g key={percentage}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={scaleY(percentage)}
+            y2={scaleY(percentage)}
+            className="stroke-border"
+            strokeDasharray="2 4"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={scaleY(percentage)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {percentage}%
+          </text>
+        </g>
+      ))}
+
+      {weekly.map((week, i) =>
+        i % labelEvery === 0 ? (
+          <text
+            key={week.weekStart}
+            x={PADDING.left + step * i}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {formatWeekLabel(week.weekStart)}
+          </text>
+        ) : null
+      )}
+
+      <path d={path} fill="none" strokeWidth={2} strokeLinejoin="round" className="stroke-primary" />
+
+      {points.map((point) => (
+        <circle key={point.week.weekStart} cx={point.x} cy={point.y} r={3.5} className="fill-primary">
+          <title>
+            {`Week of ${formatWeekLabel(point.week.weekStart)}: ${point.week.goodFormPercentage}% good form`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { formatWeekLabel, type OneRepMaxProgress } from "@/lib/analytics";
+import { formatWeight } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+
+interface OneRepMaxChartProps {
+  progress: OneRepMaxProgress;
+  className?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+export function OneRepMaxChart({ progress, className }: OneRepMaxChartProps) {
+  const { points, unit } = progress;
+
+  if (points.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted-foreground text-center py-4", className)}>
+        No loaded sets in this period.
+      </p>
+    );
+  }
+
+  // Pad the range so a flat line sits in the middle rather than on an edge
+  const values = points.map((point) => point.oneRepMax);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const margin = Math.max((max - min) * 0.1, 2.5);
+  const low = Math.max(min - margin, 0);
+  const high = max + margin;
+
+  const step = PLOT_WIDTH / Math.max(points.length - 1, 1);
+  const labelEvery = Math.ceil(points.length / 6);
+  const scaleX = (i: number) =>
+    points.length === 1 ? PADDING.left + PLOT_WIDTH / 2 : PADDING.left + step * i;
+  const scaleY = (weight: number) =>
+    PADDING.top + PLOT_HEIGHT * (1 - (weight - low) / (high - low));
+
+  const path = points
+    .map((point, i) => `${i === 0 ? "M" : "L"}${scaleX(i).toFixed(1)},${scaleY(point.oneRepMax).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn("w-full h-auto", className)}
+      role="img"
+      aria-label="Estimated one-rep max over time"
+    >
+      {[low, (low + high) / 2, high].map((weight) => (
+        <g key={weight}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={scaleY(weight)}
+            y2={scaleY(weight)}
+            className="stroke-border"
+            strokeDasharray="2 4"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={scaleY(weight)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {Math.round(weight)}
+          </text>
+        </g>
+      ))}
+
+      {points.map((point, i) =>
+        i % labelEvery === 0 ? (
+          <text
+            key={point.date}
+            x={scaleX(i)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {formatWeekLabel(point.date)}
+          </text>
+        ) : null
+      )}
+
+      <path d={path} fill="none" strokeWidth={2} strokeLinejoin="round" className="stroke-primary" />
+
+      {points.map((point, i) => (
+        <circle key={point.date} cx={scaleX(i)} cy={scaleY(point.oneRepMax)} r={3.5} className="fill-primary">
+          <title>{`${formatWeekLabel(point.date)}: ${formatWeight(point.oneRepMax, unit)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
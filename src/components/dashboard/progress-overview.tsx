@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dumbbell, Flame, Trophy } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { WorkoutAnalytics } from "@/lib/analytics";
+import { getExerciseName } from "@/lib/exercises";
+import { VOICE_FEEDBACK, type FormIssue } from "@/lib/form-checker";
+import {
+  ONE_REP_MAX_FORMULA_NAMES,
+  ONE_REP_MAX_FORMULAS,
+  type OneRepMaxFormula,
+} from "@/lib/one-rep-max";
+import { formatWeight } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+import { FormTrendChart } from "./form-trend-chart";
+import { OneRepMaxChart } from "./one-rep-max-chart";
+import { WeeklyVolumeChart } from "./weekly-volume-chart";
+
+interface ProgressOverviewProps {
+  className?: string;
+}
+
+const WEEKS = 12;
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins === 0) {
+    return `${secs}s`;
+  }
+  return `${mins}m ${secs}s`;
+}
+
+export function ProgressOverview({ className }: ProgressOverviewProps) {
+  const [analytics, setAnalytics] = useState<WorkoutAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [formula, setFormula] = useState<OneRepMaxFormula>("epley");
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({
+      weeks: String(WEEKS),
+      tzOffset: String(new Date().getTimezoneOffset()),
+      formula,
+    });
+
+    fetch(`/api/analytics?${params}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load progress");
+        }
+        return (await response.json()) as WorkoutAnalytics;
+      })
+      .then((data) => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load progress");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formula]);
+
+  if (error) {
+    return <p className={cn("text-sm text-red-500", className)}>{error}</p>;
+  }
+
+  if (!analytics) {
+    return (
+      <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-6", className)}>
+        {[0, 1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-64" />
+        ))}
+      </div>
+    );
+  }
+
+  if (analytics.totalWorkouts === 0) {
+    return (
+      <Card className={cn("text-center", className)}>
+        <CardContent className="py-12">
+          <p className="text-muted-foreground">No saved workouts yet.</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            Save a workout to start tracking your progress here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const mistakeEntries = Object.entries(analytics.topMistakes);
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        <div className="p-4 border border-border rounded-lg">
+          <div className="text-2xl font-bold flex items-center justify-center gap-1">
+            <Flame className="h-5 w-5 text-orange-500" />
+            {analytics.streaks.current}
+          </div>
+          <div className="text-xs text-muted-foreground">Day Streak</div>
+        </div>
+        <div className="p-4 border border-border rounded-lg">
+          <div className="text-2xl font-bold">{analytics.streaks.longest}</div>
+          <div className="text-xs text-muted-foreground">Longest Streak</div>
+        </div>
+        <div className="p-4 border border-border rounded-lg">
+          <div className="text-2xl font-bold">{analytics.totalWorkouts}</div>
+          <div className="text-xs text-muted-foreground">Workouts</div>
+        </div>
+        <div className="p-4 border border-border rounded-lg">
+          <div className="text-2xl font-bold">{analytics.totalReps}</div>
+          <div className="text-xs text-muted-foreground">Total Reps</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Weekly Volume</CardTitle>
+            <CardDescription>Reps per week over the last {WEEKS} weeks</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WeeklyVolumeChart weekly={analytics.weekly} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Form Trend</CardTitle>
+            <CardDescription>Percentage of reps with good form each week</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FormTrendChart weekly={analytics.weekly} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-yellow-500" />
+              Personal Bests
+            </CardTitle>
+            <CardDescription>Your best single workout for each exercise</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {analytics.personalBests.map((best) => (
+                <li key={best.exerciseType} className="py-3 first:pt-0 last:pb-0">
+                  <div className="font-medium">{getExerciseName(best.exerciseType)}</div>
+                  <div className="grid grid-cols-3 gap-2 mt-1 text-center">
+                    <div>
+                      <div className="text-sm font-semibold tabular-nums">{best.mostReps}</div>
+                      <div className="text-xs text-muted-foreground">Most Reps</div>
+                    </div>
+                    <div>
+                      <div className="text-sm font-semibold tabular-nums">
+                        {best.bestFormPercentage === null ? "—" : `${best.bestFormPercentage}%`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">Best Form</div>
+                    </div>
+                    <div>
+                      <div className="text-sm font-semibold tabular-nums">
+                        {formatDuration(best.longestDurationSeconds)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">Longest</div>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Most Frequent Mistakes</CardTitle>
+            <CardDescription>Workouts in which each issue came up</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {mistakeEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No form issues recorded. Great work!</p>
+            ) : (
+              <div className="space-y-4">
+                {mistakeEntries.map(([exerciseType, mistakes]) => {
+                  const maxCount = Math.max(...mistakes.map((m) => m.count), 1);
+                  return (
+                    <div key={exerciseType}>
+                      <div className="font-medium text-sm mb-2">{getExerciseName(exerciseType)}</div>
+                      <ul className="space-y-1.5">
+                        {mistakes.map(({ mistake, count }) => (
+                          <li key={mistake} className="text-xs">
+                            <div className="flex justify-between mb-0.5">
+                              <span>{VOICE_FEEDBACK[mistake as FormIssue] || mistake}</span>
+                              <span className="text-muted-foreground tabular-nums">{count}×</span>
+                            </div>
+                            <div className="h-1.5 rounded-full bg-muted">
+                              <div
+                                className="h-1.5 rounded-full bg-red-400"
+                                style={{ width: `${(count / maxCount) * 100}%` }}
+                              />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {analytics.oneRepMax.length > 0 && (
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Dumbbell className="h-5 w-5" />
+                  Estimated 1RM
+                </CardTitle>
+                <select
+                  aria-label="Estimation formula"
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value as OneRepMaxFormula)}
+                  className="border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                >
+                  {ONE_REP_MAX_FORMULAS.map((id) => (
+                    <option key={id} value={id}>
+                      {ONE_REP_MAX_FORMULA_NAMES[id]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <CardDescription>
+                Best daily estimate from good-form reps over the last {WEEKS} weeks
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {analytics.oneRepMax.map((progress) => (
+                  <li key={progress.exerciseType} className="py-3 first:pt-0 last:pb-0">
+                    <div className="flex items-baseline justify-between">
+                      <span className="font-medium">{getExerciseName(progress.exerciseType)}</span>
+                      <span className="text-sm text-muted-foreground">
+                        Best{" "}
+                        <span className="font-semibold text-foreground tabular-nums">
+                          {formatWeight(progress.best, progress.unit)}
+                        </span>
+                      </span>
+                    </div>
+                    <OneRepMaxChart progress={progress} className="mt-2" />
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { formatWeekLabel, type WeeklyStats } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+
+interface WeeklyVolumeChartProps {
+  weekly: WeeklyStats[];
+  className?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 8, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const BAR_GAP = 0.3; // Fraction of each slot left empty
+
+export function WeeklyVolumeChart({ weekly, className }: WeeklyVolumeChartProps) {
+  const maxReps = Math.max(...weekly.map((week) => week.totalReps), 1);
+  const slotWidth = PLOT_WIDTH / Math.max(weekly.length, 1);
+  const barWidth = slotWidth * (1 - BAR_GAP);
+  const labelEvery = Math.ceil(weekly.length / 6);
+  const scaleHeight = (reps: number) => (PLOT_HEIGHT * reps) / maxReps;
+
+  return (
+    <div className={cn("w-full", className)}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Reps per week"
+      >
+        {[0, 0.5, 1].map((fraction) => {
+          const y = PADDING.top + PLOT_HEIGHT * (1 - fraction);
+          return (
+            <g key={fraction}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y}
+                y2={y}
+                className="stroke-border"
+                strokeDasharray="2 4"
+              />
+              <text
+                x={PADDING.left - 6}
+                y={y}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {Math.round(maxReps * fraction)}
+              </text>
+            </g>
+          );
+        })}
+
+        {weekly.map((week, i) => {
+          const x = PADDING.left + slotWidth * i + (slotWidth - barWidth) / 2;
+          const baseline = PADDING.top + PLOT_HEIGHT;
+          const goodHeight = scaleHeight(week.goodFormReps);
+          const otherHeight = scaleHeight(week.totalReps - week.goodFormReps);
+
+          return (
+            <g key={week.weekStart}>
+              <title>
+                {`Week of ${formatWeekLabel(week.weekStart)}: ${week.totalReps} reps (${week.goodFormReps} good) in ${week.workouts} workouts`}
+              </title>
+              <rect
+                x={x}
+                y={baseline - goodHeight}
+                width={barWidth}
+                height={goodHeight}
+                className="fill-green-500"
+              />
+              <rect
+                x={x}
+                y={baseline - goodHeight - otherHeight}
+                width={barWidth}
+                height={otherHeight}
+                className="fill-red-400"
+              />
+              {i % labelEvery === 0 && (
+                <text
+                  x={x + barWidth / 2}
+                  y={HEIGHT - 8}
+                  textAnchor="middle"
+                  className="fill-muted-foreground text-[10px]"
+                >
+                  {formatWeekLabel(week.weekStart)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex gap-4 mt-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-2 rounded-sm bg-green-500" />
+          Good form
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-2 rounded-sm bg-red-400" />
+          Needs work
+        </span>
+      </div>
+    </div>
+  );
+}
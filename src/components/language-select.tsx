@@ -0,0 +1,47 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { toast } from "sonner";
+import { Label } from "@/components/ui/label";
+import { useLocale } from "@/contexts/locale-context";
+import { LOCALES, LOCALE_INFO, isLocale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface LanguageSelectProps {
+  className?: string;
+}
+
+// Picks the language of the voice cues, the workout pages and the AI coach
+export function LanguageSelect({ className }: LanguageSelectProps) {
+  const { locale, messages, setLocale } = useLocale();
+
+  const handleChange = async (value: string) => {
+    if (!isLocale(value)) return;
+    try {
+      await setLocale(value);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save language");
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Languages className="h-4 w-4 text-muted-foreground" />
+      <Label htmlFor="coaching-language" className="text-sm font-normal">
+        {messages.common.language}
+      </Label>
+      <select
+        id="coaching-language"
+        value={locale}
+        onChange={(e) => void handleChange(e.target.value)}
+        className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_INFO[option].name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -44,16 +44,23 @@ const tourSteps: Step[] = [
   {
     target: '[data-tour="ai-status"]',
     content:
-      "This indicator shows your AI coach's connection status. When active, it watches every rep and provides voice feedback on your form.",
+      "This indicator shows that form tracking is running on your device. It counts every rep and speaks corrections when your form slips.",
     placement: "right",
-    title: "AI Coach Status",
+    title: "Form Tracking Status",
   },
   {
-    target: '[data-tour="manual-reps"]',
+    target: '[data-tour="form-indicator"]',
     content:
-      "If the AI counting seems off, use these buttons to manually adjust your rep count. Tap + Good for proper form, + Bad for form corrections.",
+      "Live form feedback appears here. The skeleton over your video turns red whenever a form issue is detected.",
     placement: "right",
-    title: "Manual Rep Tracking",
+    title: "Form Feedback",
+  },
+  {
+    target: '[data-tour="coach-toggle"]',
+    content:
+      "Turn on the AI coach for extra spoken coaching on top of on-device tracking. It needs an internet connection.",
+    placement: "bottom",
+    title: "AI Coach",
   },
   {
     target: '[data-tour="mic-toggle"]',
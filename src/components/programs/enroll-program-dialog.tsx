@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getExerciseName } from "@/lib/exercises";
+import { getLocalDate, isLoadedExercise, type ProgramTemplate } from "@/lib/programs";
+import { SET_PLAN_LIMITS, WEIGHT_UNITS, type WeightUnit } from "@/lib/sets";
+
+interface EnrollProgramDialogProps {
+  template: ProgramTemplate | null;
+  onOpenChange: (open: boolean) => void;
+  onEnrolled: () => void;
+}
+
+// Exercises in the program that take a starting weight, in program order
+function getLoadedExercises(template: ProgramTemplate): string[] {
+  const exercises = template.workouts.flatMap((workout) =>
+    workout.exercises.filter(isLoadedExercise).map((exercise) => exercise.exerciseType)
+  );
+  return Array.from(new Set(exercises));
+}
+
+export function EnrollProgramDialog({
+  template,
+  onOpenChange,
+  onEnrolled,
+}: EnrollProgramDialogProps) {
+  const [startDate, setStartDate] = useState("");
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>("kg");
+  const [startingWeights, setStartingWeights] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever a different program is opened
+  useEffect(() => {
+    if (template) {
+      setStartDate(getLocalDate());
+      setStartingWeights({});
+    }
+  }, [template]);
+
+  const loadedExercises = template ? getLoadedExercises(template) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!template || !startDate) return;
+
+    // Blank weights are left out and scheduled as bodyweight
+    const weights: Record<string, number> = {};
+    for (const exercise of loadedExercises) {
+      const parsed = Number.parseFloat(startingWeights[exercise] ?? "");
+      if (Number.isFinite(parsed) && parsed > 0) {
+        weights[exercise] = Math.min(parsed, SET_PLAN_LIMITS.maxWeight);
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/programs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          templateId: template.id,
+          startDate,
+          weightUnit,
+          startingWeights: weights,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to start program");
+      }
+
+      onOpenChange(false);
+      onEnrolled();
+      toast.success(`Started ${template.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start program");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={template !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{template ? `Start ${template.name}` : "Start Program"}</DialogTitle>
+          <DialogDescription>
+            Pick a start date and the weights for your first session. Leave a weight blank to
+            train it with bodyweight.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="program-start-date">Start Date</Label>
+              <Input
+                id="program-start-date"
+                type="date"
+                required
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="program-weight-unit">Unit</Label>
+              <select
+                id="program-weight-unit"
+                value={weightUnit}
+                onChange={(e) => setWeightUnit(e.target.value as WeightUnit)}
+                className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+              >
+                {WEIGHT_UNITS.map((unit) => (
+                  <option key={unit} value={unit}>
+                    {unit}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {loadedExercises.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {loadedExercises.map((exercise) => (
+                <div key={exercise} className="space-y-2">
+                  <Label htmlFor={`starting-weight-${exercise}`}>
+                    {getExerciseName(exercise)} ({weightUnit})
+                  </Label>
+                  <Input
+                    id={`starting-weight-${exercise}`}
+                    type="number"
+                    min={0}
+                    step={weightUnit === "kg" ? 0.5 : 1}
+                    max={SET_PLAN_LIMITS.maxWeight}
+                    placeholder="Bodyweight"
+                    value={startingWeights[exercise] ?? ""}
+                    onChange={(e) =>
+                      setStartingWeights({ ...startingWeights, [exercise]: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!startDate || isSaving}>
+              {isSaving ? "Starting..." : "Start Program"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
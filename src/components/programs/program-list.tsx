@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getExerciseName } from "@/lib/exercises";
+import { WEEKDAY_NAMES, type ProgramTemplate } from "@/lib/programs";
+import type { WeightUnit } from "@/lib/sets";
+import { EnrollProgramDialog } from "./enroll-program-dialog";
+import { WeekSchedule } from "./week-schedule";
+
+interface ActiveProgramResponse {
+  enrollment: { id: string; startDate: string; weightUnit: WeightUnit };
+  template: ProgramTemplate;
+}
+
+interface ProgramsResponse {
+  templates: ProgramTemplate[];
+  active: ActiveProgramResponse | null;
+}
+
+interface ProgramListProps {
+  className?: string;
+}
+
+function formatTrainingDays(days: number[]): string {
+  return days.map((day) => WEEKDAY_NAMES[day]).join(" · ");
+}
+
+export function ProgramList({ className }: ProgramListProps) {
+  const [data, setData] = useState<ProgramsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [enrolling, setEnrolling] = useState<ProgramTemplate | null>(null);
+  const [isLeaving, setIsLeaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/programs");
+      if (!response.ok) {
+        throw new Error("Failed to load programs");
+      }
+      setData((await response.json()) as ProgramsResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load programs");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleLeave = async () => {
+    setIsLeaving(true);
+    try {
+      const response = await fetch("/api/programs", { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to leave program");
+      }
+      toast.success("Program stopped");
+      await load();
+    } catch {
+      toast.error("Couldn't stop the program. Please try again.");
+    } finally {
+      setIsLeaving(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center">
+        <p className="text-sm text-red-500">{error}</p>
+        <Button variant="outline" size="sm" className="mt-2" onClick={load}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className={className}>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  const { active, templates } = data;
+
+  return (
+    <div className={className}>
+      {active && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-lg">{active.template.name}</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-500 hover:text-red-600"
+                onClick={handleLeave}
+                disabled={isLeaving}
+              >
+                {isLeaving ? "Stopping..." : "Stop Program"}
+              </Button>
+            </div>
+            <CardDescription>
+              Started{" "}
+              {new Date(`${active.enrollment.startDate}T00:00:00Z`).toLocaleDateString(undefined, {
+                month: "long",
+                day: "numeric",
+                year: "numeric",
+                timeZone: "UTC",
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WeekSchedule programId={active.enrollment.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      <h2 className="text-xl font-semibold mb-4">
+        {active ? "Switch Program" : "Choose a Program"}
+      </h2>
+
+      <div className="space-y-4">
+        {templates.map((template) => {
+          const isActive = active?.template.id === template.id;
+
+          return (
+            <Card key={template.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle className="text-lg">{template.name}</CardTitle>
+                  {isActive && <Badge>Active</Badge>}
+                </div>
+                <CardDescription>{template.description}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground mb-3">
+                  {formatTrainingDays(template.trainingDays)}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {template.workouts.map((workout) => (
+                    <div key={workout.name}>
+                      <div className="text-sm font-medium mb-1">{workout.name}</div>
+                      <ul className="text-sm text-muted-foreground space-y-0.5">
+                        {workout.exercises.map((exercise) => (
+                          <li key={exercise.exerciseType}>
+                            {getExerciseName(exercise.exerciseType)} {exercise.sets} ×{" "}
+                            {exercise.reps}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end mt-4">
+                  <Button
+                    size="sm"
+                    variant={isActive ? "outline" : "default"}
+                    onClick={() => setEnrolling(template)}
+                  >
+                    {isActive ? "Restart" : "Start Program"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <EnrollProgramDialog
+        template={enrolling}
+        onOpenChange={(open) => !open && setEnrolling(null)}
+        onEnrolled={load}
+      />
+    </div>
+  );
+}
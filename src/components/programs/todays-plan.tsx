@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { CalendarDays, CheckCircle2, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSession } from "@/lib/auth-client";
+import { getExerciseName } from "@/lib/exercises";
+import { getLocalDate, type PlannedWorkout } from "@/lib/programs";
+import { formatWeight } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+
+interface ScheduleResponse {
+  program: { template: { name: string } };
+  plannedWorkouts: PlannedWorkout[];
+}
+
+interface TodaysPlanProps {
+  className?: string;
+}
+
+function formatDayLabel(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Today's planned session from the user's program, shown on the workout
+ * selection page
+ */
+export function TodaysPlan({ className }: TodaysPlanProps) {
+  const { data: session } = useSession();
+  // undefined = loading, null = not following a program
+  const [schedule, setSchedule] = useState<ScheduleResponse | null | undefined>(undefined);
+  const today = getLocalDate();
+
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    fetch(`/api/programs/schedule?date=${today}`)
+      .then(async (response) => {
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          throw new Error("Failed to load schedule");
+        }
+        return (await response.json()) as ScheduleResponse;
+      })
+      .then((data) => {
+        if (!cancelled) setSchedule(data);
+      })
+      .catch((error) => {
+        console.warn("Failed to load today's plan:", error);
+        if (!cancelled) setSchedule(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, today]);
+
+  if (!session) {
+    return null;
+  }
+
+  if (schedule === undefined) {
+    return <Skeleton className={cn("h-40", className)} />;
+  }
+
+  if (schedule === null) {
+    return (
+      <div
+        className={cn(
+          "p-4 border rounded-lg flex items-center justify-between gap-4",
+          className
+        )}
+      >
+        <p className="text-sm text-muted-foreground">
+          Follow a training program to get a planned session with targets each day.
+        </p>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/programs">Browse Programs</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const todays = schedule.plannedWorkouts.filter((planned) => planned.date === today);
+  const next = schedule.plannedWorkouts.find((planned) => planned.date > today);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Today&apos;s Planned Session
+        </CardTitle>
+        <CardDescription>
+          {schedule.program.template.name}
+          {todays[0] && ` · ${todays[0].workoutName}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {todays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Rest day.
+            {next && ` Next session: ${formatDayLabel(next.date)}.`}
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {todays.map((planned) => (
+              <li
+                key={planned.id}
+                className="py-3 first:pt-0 last:pb-0 flex items-center justify-between gap-4"
+              >
+                <div>
+                  <div className="font-medium">{getExerciseName(planned.exerciseType)}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {planned.targetSets} × {planned.targetReps} ·{" "}
+                    {formatWeight(planned.weight, planned.weightUnit)}
+                  </div>
+                </div>
+                {planned.workoutId ? (
+                  <span className="text-sm text-green-500 flex items-center gap-1">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Done
+                  </span>
+                ) : (
+                  <Button size="sm" asChild>
+                    <Link href={`/workout/${planned.exerciseType}?planned=${planned.id}`}>
+                      <Play className="h-4 w-4 mr-1" />
+                      Start
+                    </Link>
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button variant="link" size="sm" className="px-0 mt-2" asChild>
+          <Link href="/programs">View week</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { CheckCircle2, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getExerciseName } from "@/lib/exercises";
+import {
+  WEEKDAY_NAMES,
+  addDays,
+  getLocalDate,
+  getWeekStart,
+  type PlannedWorkout,
+} from "@/lib/programs";
+import { formatWeight } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+
+interface ScheduleResponse {
+  weekStart: string;
+  plannedWorkouts: PlannedWorkout[];
+}
+
+interface WeekScheduleProps {
+  programId: string; // Reloads when the active program changes
+  className?: string;
+}
+
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * One week of the active program, day by day
+ */
+export function WeekSchedule({ programId, className }: WeekScheduleProps) {
+  const today = getLocalDate();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(today));
+  // Results are kept with the week they belong to; anything else is still loading
+  const [loaded, setLoaded] = useState<ScheduleResponse | null>(null);
+  const [failed, setFailed] = useState<{ weekStart: string; message: string } | null>(null);
+  const schedule = loaded?.weekStart === weekStart ? loaded : null;
+  const error = failed?.weekStart === weekStart ? failed.message : null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/programs/schedule?date=${weekStart}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load schedule");
+        }
+        return (await response.json()) as ScheduleResponse;
+      })
+      .then((data) => {
+        if (!cancelled) setLoaded(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setFailed({
+            weekStart,
+            message: err instanceof Error ? err.message : "Failed to load schedule",
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [programId, weekStart]);
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label="Previous week"
+          onClick={() => setWeekStart(addDays(weekStart, -7))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {formatShortDate(weekStart)} – {formatShortDate(addDays(weekStart, 6))}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label="Next week"
+          onClick={() => setWeekStart(addDays(weekStart, 7))}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+
+      {!schedule && !error && <Skeleton className="h-48" />}
+
+      {schedule && (
+        <ul className="divide-y border rounded-lg">
+          {WEEKDAY_NAMES.map((weekday, i) => {
+            const date = addDays(schedule.weekStart, i);
+            const planned = schedule.plannedWorkouts.filter((p) => p.date === date);
+
+            return (
+              <li
+                key={date}
+                className={cn("p-3 flex gap-4", date === today && "bg-muted/50")}
+              >
+                <div className="w-14 shrink-0">
+                  <div className="text-sm font-medium">{weekday}</div>
+                  <div className="text-xs text-muted-foreground">{formatShortDate(date)}</div>
+                </div>
+                {planned.length === 0 ? (
+                  <span className="text-sm text-muted-foreground self-center">Rest</span>
+                ) : (
+                  <div className="flex-1 space-y-1">
+                    <div className="text-xs text-muted-foreground">{planned[0]?.workoutName}</div>
+                    {planned.map((p) => (
+                      <div key={p.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                          {getExerciseName(p.exerciseType)}{" "}
+                          <span className="text-muted-foreground">
+                            {p.targetSets} × {p.targetReps} · {formatWeight(p.weight, p.weightUnit)}
+                          </span>
+                        </span>
+                        {p.workoutId ? (
+                          <Link href={`/history/${p.workoutId}`} aria-label="View workout">
+                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                          </Link>
+                        ) : (
+                          date === today && (
+                            <Link
+                              href={`/workout/${p.exerciseType}?planned=${p.id}`}
+                              className="text-xs text-primary hover:underline"
+                            >
+                              Start
+                            </Link>
+                          )
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Dumbbell, Play, History } from "lucide-react";
+import { Dumbbell, Play, History, CalendarDays } from "lucide-react";
 import { UserProfile } from "@/components/auth/user-profile";
 import { useSession } from "@/lib/auth-client";
 import { ModeToggle } from "./ui/mode-toggle";
@@ -58,6 +58,15 @@ export function SiteHeader() {
                   History
                 </Link>
               )}
+              {session && (
+                <Link
+                  href="/programs"
+                  className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <CalendarDays className="h-4 w-4" />
+                  Programs
+                </Link>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-4" role="group" aria-label="User actions">
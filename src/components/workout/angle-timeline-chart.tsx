@@ -0,0 +1,226 @@
+"use client";
+
+import { VOICE_FEEDBACK, type FormIssue, type Phase } from "@/lib/form-checker";
+import type { AngleSample } from "@/lib/rep-tracker";
+import { cn } from "@/lib/utils";
+
+interface TimelineRep {
+  repIndex: number;
+  startedAt: number; // Epoch ms
+  samples: AngleSample[];
+}
+
+interface AngleTimelineChartProps {
+  reps: TimelineRep[];
+  className?: string;
+}
+
+interface PlotPoint extends AngleSample {
+  x: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 20, right: 12, bottom: 28, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const MAX_ANGLE = 180;
+const ANGLE_GRID = [0, 45, 90, 135, 180];
+
+const PHASE_STYLES: Record<Phase, { label: string; className: string }> = {
+  standing: { label: "Standing", className: "fill-slate-400/10" },
+  descending: { label: "Descending", className: "fill-sky-400/20" },
+  bottom: { label: "Bottom", className: "fill-amber-400/25" },
+  ascending: { label: "Ascending", className: "fill-emerald-400/20" },
+};
+
+const ANGLE_SERIES = [
+  { key: "kneeAngle", label: "Knee", className: "stroke-blue-500" },
+  { key: "hipAngle", label: "Hip", className: "stroke-orange-500" },
+  { key: "torsoAngle", label: "Torso lean", className: "stroke-purple-500" },
+] as const;
+
+function scaleY(angle: number): number {
+  const clamped = Math.min(Math.max(angle, 0), MAX_ANGLE);
+  return PADDING.top + PLOT_HEIGHT * (1 - clamped / MAX_ANGLE);
+}
+
+function buildPath(reps: PlotPoint[][], key: (typeof ANGLE_SERIES)[number]["key"]): string {
+  // Start a new sub-path per rep so the gaps between reps aren't bridged
+  return reps
+    .map((points) =>
+      points
+        .map((point, i) => `${i === 0 ? "M" : "L"}${point.x.toFixed(1)},${scaleY(point[key]).toFixed(1)}`)
+        .join(" ")
+    )
+    .join(" ");
+}
+
+export function AngleTimelineChart({ reps, className }: AngleTimelineChartProps) {
+  const withSamples = reps.filter((rep) => rep.samples.length > 0);
+  const firstRep = withSamples[0];
+
+  if (!firstRep) {
+    return (
+      <p className={cn("text-sm text-muted-foreground text-center py-8", className)}>
+        No angle data was recorded for this workout.
+      </p>
+    );
+  }
+
+  const origin = firstRep.startedAt;
+  const lastRep = withSamples[withSamples.length - 1] ?? firstRep;
+  const lastSample = lastRep.samples[lastRep.samples.length - 1];
+  const totalMs = Math.max(lastRep.startedAt + (lastSample?.t ?? 0) - origin, 1);
+  const scaleX = (ms: number) => PADDING.left + (PLOT_WIDTH * ms) / totalMs;
+
+  const plotted: PlotPoint[][] = withSamples.map((rep) =>
+    rep.samples.map((sample) => ({ ...sample, x: scaleX(rep.startedAt + sample.t - origin) }))
+  );
+
+  const totalSeconds = totalMs / 1000;
+  const tickStep = totalSeconds > 60 ? 10 : totalSeconds > 20 ? 5 : 1;
+  const timeTicks: number[] = [];
+  for (let s = 0; s <= totalSeconds; s += tickStep) {
+    timeTicks.push(s);
+  }
+
+  return (
+    <div className={className}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Joint angles over time"
+      >
+        {/* Phase shading */}
+        {plotted.map((points, repIdx) =>
+          points.slice(0, -1).map((point, i) => {
+            const next = points[i + 1];
+            if (!next) return null;
+            return (
+              <rect
+                key={`${repIdx}-${i}`}
+                x={point.x}
+                y={PADDING.top}
+                width={Math.max(next.x - point.x, 0.5)}
+                height={PLOT_HEIGHT}
+                className={PHASE_STYLES[point.phase].className}
+              />
+            );
+          })
+        )}
+
+        {/* Angle grid */}
+        {ANGLE_GRID.map((angle) => (
+          <g key={angle}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={scaleY(angle)}
+              y2={scaleY(angle)}
+              className="stroke-border"
+              strokeDasharray="2 4"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={scaleY(angle)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {angle}°
+            </text>
+          </g>
+        ))}
+
+        {/* Time axis */}
+        {timeTicks.map((seconds) => (
+          <text
+            key={seconds}
+            x={scaleX(seconds * 1000)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {seconds}s
+          </text>
+        ))}
+
+        {/* Rep labels */}
+        {withSamples.map((rep, i) => (
+          <text
+            key={rep.repIndex}
+            x={plotted[i]?.[0]?.x ?? PADDING.left}
+            y={PADDING.top - 6}
+            className="fill-muted-foreground text-[10px]"
+          >
+            R{rep.repIndex}
+          </text>
+        ))}
+
+        {/* Angle lines */}
+        {ANGLE_SERIES.map((series) => (
+          <path
+            key={series.key}
+            d={buildPath(plotted, series.key)}
+            fill="none"
+            strokeWidth={1.75}
+            strokeLinejoin="round"
+            className={series.className}
+          />
+        ))}
+
+        {/* Issue markers */}
+        {plotted.flatMap((points) =>
+          points
+            .filter((point) => point.issues && point.issues.length > 0)
+            .map((point, i) => (
+              <g key={`${point.x}-${i}`}>
+                <line
+                  x1={point.x}
+                  x2={point.x}
+                  y1={PADDING.top}
+                  y2={PADDING.top + PLOT_HEIGHT}
+                  className="stroke-red-500"
+                  strokeWidth={1}
+                  strokeDasharray="3 2"
+                />
+                <circle cx={point.x} cy={PADDING.top + 4} r={4} className="fill-red-500">
+                  <title>
+                    {(point.issues ?? [])
+                      .map((issue) => VOICE_FEEDBACK[issue as FormIssue] || issue)
+                      .join(", ")}
+                  </title>
+                </circle>
+              </g>
+            ))
+        )}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-muted-foreground">
+        {ANGLE_SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1.5">
+            <svg width="14" height="4" aria-hidden>
+              <line x1="0" x2="14" y1="2" y2="2" strokeWidth={3} className={series.className} />
+            </svg>
+            {series.label}
+          </span>
+        ))}
+        {(Object.keys(PHASE_STYLES) as Phase[]).map((phase) => (
+          <span key={phase} className="flex items-center gap-1.5">
+            <svg width="10" height="10" aria-hidden>
+              <rect width="10" height="10" rx="2" className={PHASE_STYLES[phase].className} />
+            </svg>
+            {PHASE_STYLES[phase].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-2 rounded-full bg-red-500" />
+          Form issue
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Volume2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { useLocale } from "@/contexts/locale-context";
+import { useCueSettings } from "@/hooks/use-cue-settings";
+import { CUE_MODES, isCueMode } from "@/lib/cue-modes";
+import { cn } from "@/lib/utils";
+
+interface CueSettingsProps {
+  className?: string;
+}
+
+const SELECT_CLASS_NAME =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+// Picks how coaching cues are played: speech or tones
+export function CueSettings({ className }: CueSettingsProps) {
+  const { messages } = useLocale();
+  const { settings, updateSettings } = useCueSettings();
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-x-4 gap-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <Volume2 className="h-4 w-4 text-muted-foreground" />
+        <Label htmlFor="cue-mode" className="text-sm font-normal">
+          {messages.audio.cueMode}
+        </Label>
+        <select
+          id="cue-mode"
+          value={settings.mode}
+          onChange={(e) => {
+            if (isCueMode(e.target.value)) updateSettings({ mode: e.target.value });
+          }}
+          className={SELECT_CLASS_NAME}
+        >
+          {CUE_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {messages.audio.cueModes[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="rep-beeps"
+          type="checkbox"
+          checked={settings.repBeeps}
+          onChange={(e) => updateSettings({ repBeeps: e.target.checked })}
+          className="h-4 w-4 accent-primary"
+        />
+        <Label htmlFor="rep-beeps" className="text-sm font-normal">
+          {messages.audio.repBeeps}
+        </Label>
+      </div>
+    </div>
+  );
+}
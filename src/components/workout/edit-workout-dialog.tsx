@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { getExerciseName } from "@/lib/exercises";
+
+export interface EditableWorkout {
+  id: string;
+  exerciseType: string;
+  totalReps: number;
+  goodFormReps: number;
+  badFormReps: number;
+  notes: string | null;
+}
+
+interface EditWorkoutDialogProps {
+  workout: EditableWorkout | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (workout: EditableWorkout) => void;
+}
+
+export function EditWorkoutDialog({ workout, onOpenChange, onSaved }: EditWorkoutDialogProps) {
+  const [goodFormReps, setGoodFormReps] = useState("0");
+  const [badFormReps, setBadFormReps] = useState("0");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever a different workout is opened
+  useEffect(() => {
+    if (workout) {
+      setGoodFormReps(String(workout.goodFormReps));
+      setBadFormReps(String(workout.badFormReps));
+      setNotes(workout.notes ?? "");
+    }
+  }, [workout]);
+
+  const good = Number.parseInt(goodFormReps, 10);
+  const bad = Number.parseInt(badFormReps, 10);
+  const isValid = Number.isInteger(good) && Number.isInteger(bad) && good >= 0 && bad >= 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workout || !isValid) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          totalReps: good + bad,
+          goodFormReps: good,
+          badFormReps: bad,
+          notes: notes.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to update workout");
+      }
+
+      onSaved(await response.json());
+      onOpenChange(false);
+      toast.success("Workout updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update workout");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={workout !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Workout</DialogTitle>
+          <DialogDescription>
+            {workout
+              ? `Correct the rep counts or add notes for this ${getExerciseName(workout.exerciseType).toLowerCase()} session.`
+              : "Correct the rep counts or add notes."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="good-form-reps">Good Form Reps</Label>
+              <Input
+                id="good-form-reps"
+                type="number"
+                min={0}
+                value={goodFormReps}
+                onChange={(e) => setGoodFormReps(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bad-form-reps">Bad Form Reps</Label>
+              <Input
+                id="bad-form-reps"
+                type="number"
+                min={0}
+                value={badFormReps}
+                onChange={(e) => setBadFormReps(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Total: {isValid ? good + bad : "—"} reps
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="workout-notes">Notes</Label>
+            <Textarea
+              id="workout-notes"
+              value={notes}
+              maxLength={1000}
+              placeholder="How did this session feel?"
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || isSaving}>
+              {isSaving ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,37 +1,45 @@
 "use client";
 
+import { Minus, TrendingDown, TrendingUp } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
-import type { ExerciseType } from "@/contexts/workout-context";
+import { useLocale } from "@/contexts/locale-context";
+import { type Exercise, getExerciseDefinition } from "@/lib/exercises";
+import { interpolate } from "@/lib/i18n";
+import { getProgressionReasonText } from "@/lib/messages";
+import type { ProgressionAction, Recommendation } from "@/lib/progression";
+import { formatWeight } from "@/lib/sets";
 import { cn } from "@/lib/utils";
 
 interface ExerciseCardProps {
-  exercise: ExerciseType;
+  exercise: Exercise;
   onSelect: () => void;
+  recommendation?: Recommendation | null; // Next-session targets from recent form
   className?: string;
 }
 
-const exerciseInfo: Record<
-  ExerciseType,
-  { name: string; description: string; icon: string }
-> = {
-  squat: {
-    name: "Squat",
-    description: "Lower body compound exercise",
-    icon: "🏋️",
-  },
-  deadlift: {
-    name: "Deadlift",
-    description: "Full body compound exercise",
-    icon: "💪",
-  },
+const ACTION_ICONS: Record<ProgressionAction, typeof TrendingUp> = {
+  increase: TrendingUp,
+  hold: Minus,
+  deload: TrendingDown,
+};
+
+const ACTION_COLORS: Record<ProgressionAction, string> = {
+  increase: "text-green-500",
+  hold: "text-muted-foreground",
+  deload: "text-orange-500",
 };
 
 export function ExerciseCard({
   exercise,
   onSelect,
+  recommendation,
   className,
 }: ExerciseCardProps) {
-  const info = exerciseInfo[exercise];
+  const { messages } = useLocale();
+  const info = getExerciseDefinition(exercise);
+  const name = messages.exerciseNames[exercise];
+  const ActionIcon = recommendation ? ACTION_ICONS[recommendation.action] : null;
+  const reason = recommendation ? getProgressionReasonText(messages, recommendation.reason) : "";
 
   return (
     <Card
@@ -42,11 +50,33 @@ export function ExerciseCard({
       onClick={onSelect}
     >
       <CardContent className="flex flex-col items-center justify-center p-8">
-        <span className="text-6xl mb-4" role="img" aria-label={info.name}>
+        <span className="text-6xl mb-4" role="img" aria-label={name}>
           {info.icon}
         </span>
-        <h3 className="text-2xl font-bold mb-2">{info.name}</h3>
-        <p className="text-muted-foreground text-center">{info.description}</p>
+        <h3 className="text-2xl font-bold mb-2">{name}</h3>
+        <p className="text-muted-foreground text-center">
+          {messages.exerciseDescriptions[exercise]}
+        </p>
+        {recommendation && ActionIcon && (
+          <div className="mt-4 text-center" title={reason}>
+            <div
+              className={cn(
+                "text-sm font-medium flex items-center justify-center gap-1",
+                ACTION_COLORS[recommendation.action]
+              )}
+            >
+              <ActionIcon className="h-4 w-4" />
+              {interpolate(messages.selection.next, {
+                sets: recommendation.targetSets,
+                reps: recommendation.targetReps,
+                weight: formatWeight(recommendation.weight, recommendation.weightUnit),
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+              {reason}
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
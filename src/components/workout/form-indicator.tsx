@@ -1,20 +1,55 @@
 "use client";
 
 import { Badge } from "@/components/ui/badge";
-import { VOICE_FEEDBACK, type FormIssue } from "@/lib/form-checker";
+import { useLocale } from "@/contexts/locale-context";
+import type { FormIssue, ViewAngle } from "@/lib/form-checker";
+import { formatList, interpolate } from "@/lib/i18n";
+import type { BodyPart } from "@/lib/pose-utils";
 import { cn } from "@/lib/utils";
+import { getCueText } from "@/lib/voice-cues";
 
 interface FormIndicatorProps {
   isGoodForm: boolean;
   issues: FormIssue[];
+  view?: ViewAngle;
+  unassessable?: FormIssue[]; // Checks the current camera angle can't judge
+  hiddenParts?: BodyPart[]; // Shown instead of form feedback while the user is partly out of view
   className?: string;
 }
 
 export function FormIndicator({
   isGoodForm,
   issues,
+  view,
+  unassessable = [],
+  hiddenParts = [],
   className,
 }: FormIndicatorProps) {
+  const { locale, messages } = useLocale();
+
+  if (hiddenParts.length > 0) {
+    return (
+      <div
+        className={cn(
+          "bg-background/80 backdrop-blur-sm rounded-lg p-3 shadow-lg",
+          className
+        )}
+      >
+        <Badge variant="secondary" className="text-sm px-4 py-1">
+          {messages.formIndicator.stepBack}
+        </Badge>
+        <p className="mt-2 text-sm font-medium max-w-56">
+          {interpolate(messages.formIndicator.cantSee, {
+            parts: formatList(
+              hiddenParts.map((part) => messages.bodyParts[part]),
+              locale
+            ),
+          })}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div
       className={cn(
@@ -29,18 +64,30 @@ export function FormIndicator({
           isGoodForm && "bg-green-500 hover:bg-green-500"
         )}
       >
-        {isGoodForm ? "Good Form" : "Check Form"}
+        {isGoodForm ? messages.formIndicator.goodForm : messages.formIndicator.checkForm}
       </Badge>
 
       {issues.length > 0 && (
         <div className="mt-2 space-y-1">
           {issues.map((issue) => (
             <p key={issue} className="text-sm text-red-500 font-medium">
-              {VOICE_FEEDBACK[issue]}
+              {getCueText(locale, issue)}
             </p>
           ))}
         </div>
       )}
+
+      {view && unassessable.length > 0 && (
+        <p className="mt-2 text-xs text-muted-foreground max-w-56">
+          {interpolate(messages.formIndicator.cantCheck, {
+            issues: formatList(
+              unassessable.map((issue) => messages.issueLabels[issue]),
+              locale
+            ),
+            view: messages.viewLabels[view],
+          })}
+        </p>
+      )}
     </div>
   );
 }
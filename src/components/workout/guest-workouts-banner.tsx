@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CloudUpload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/contexts/locale-context";
+import { useSession } from "@/lib/auth-client";
+import { interpolate } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import {
+  claimGuestWorkouts,
+  getGuestWorkouts,
+  isQueueSupported,
+  syncQueuedWorkouts,
+} from "@/lib/workout-queue";
+
+interface GuestWorkoutsBannerProps {
+  onClaimed?: () => void;
+  className?: string;
+}
+
+/**
+ * Offers signed-in users to add workouts they recorded as a guest on this device
+ */
+export function GuestWorkoutsBanner({ onClaimed, className }: GuestWorkoutsBannerProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { messages } = useLocale();
+  const [guestCount, setGuestCount] = useState(0);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  useEffect(() => {
+    if (!session || !isQueueSupported()) return;
+
+    let cancelled = false;
+    getGuestWorkouts()
+      .then((guests) => {
+        if (!cancelled) setGuestCount(guests.length);
+      })
+      .catch((error) => console.warn("Failed to read guest workouts:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  if (!session || guestCount === 0) {
+    return null;
+  }
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      await claimGuestWorkouts(session.user.id);
+      const result = await syncQueuedWorkouts(session.user.id, true);
+      setGuestCount(0);
+
+      if (result.pending > 0) {
+        toast.info(messages.offlineSync.addedOffline);
+      } else {
+        toast.success(messages.offlineSync.added);
+      }
+      router.refresh();
+      onClaimed?.();
+    } catch (error) {
+      console.error("Failed to claim guest workouts:", error);
+      toast.error(messages.offlineSync.addFailed);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "p-4 border rounded-lg flex items-center justify-between gap-4",
+        className
+      )}
+    >
+      <p className="text-sm text-muted-foreground">
+        {guestCount === 1
+          ? messages.offlineSync.guestOne
+          : interpolate(messages.offlineSync.guestMany, { count: guestCount })}
+      </p>
+      <Button size="sm" onClick={handleClaim} disabled={isClaiming}>
+        <CloudUpload className="h-4 w-4 me-2" />
+        {isClaiming ? messages.offlineSync.adding : messages.offlineSync.addToHistory}
+      </Button>
+    </div>
+  );
+}
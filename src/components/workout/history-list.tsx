@@ -1,6 +1,11 @@
 "use client";
 
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { ChevronRight, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -8,24 +13,45 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { EXERCISE_IDS, getExerciseName } from "@/lib/exercises";
 import { cn } from "@/lib/utils";
+import { EditWorkoutDialog, type EditableWorkout } from "./edit-workout-dialog";
+import { GuestWorkoutsBanner } from "./guest-workouts-banner";
 
-interface WorkoutHistoryItem {
-  id: string;
-  exerciseType: string;
-  totalReps: number;
-  goodFormReps: number;
-  badFormReps: number;
+interface WorkoutHistoryItem extends EditableWorkout {
   durationSeconds: number;
   mistakes: string[];
   createdAt: Date | string;
 }
 
-interface HistoryListProps {
+interface WorkoutPageResponse {
   workouts: WorkoutHistoryItem[];
+  nextCursor: string | null;
+}
+
+interface HistoryFilters {
+  exerciseType: string;
+  from: string; // YYYY-MM-DD, local time
+  to: string;
+}
+
+interface HistoryListProps {
   className?: string;
 }
 
+const PAGE_SIZE = 20;
+const EMPTY_FILTERS: HistoryFilters = { exerciseType: "", from: "", to: "" };
+
 function formatDate(date: Date | string): string {
   const d = typeof date === "string" ? new Date(date) : date;
   return d.toLocaleDateString(undefined, {
@@ -51,76 +77,306 @@ function getFormPercentage(good: number, total: number): number {
   return Math.round((good / total) * 100);
 }
 
-export function HistoryList({ workouts, className }: HistoryListProps) {
-  if (workouts.length === 0) {
-    return (
-      <Card className={cn("text-center", className)}>
-        <CardContent className="py-12">
-          <p className="text-muted-foreground">No workouts saved yet.</p>
-          <p className="text-sm text-muted-foreground mt-2">
-            Complete a workout and save it to see your history here.
-          </p>
-        </CardContent>
-      </Card>
+function buildQuery(filters: HistoryFilters, cursor: string | null): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (filters.exerciseType) params.set("exerciseType", filters.exerciseType);
+  // Date inputs are in local time; send the whole local day as an ISO range
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+export function HistoryList({ className }: HistoryListProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [workouts, setWorkouts] = useState<WorkoutHistoryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkoutHistoryItem | null>(null);
+  const [deleting, setDeleting] = useState<WorkoutHistoryItem | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Ignore responses for filters that are no longer current
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(async (activeFilters: HistoryFilters, cursor: string | null) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workouts?${buildQuery(activeFilters, cursor)}`);
+      if (!response.ok) {
+        throw new Error("Failed to load workouts");
+      }
+      const page = (await response.json()) as WorkoutPageResponse;
+      if (requestId !== requestIdRef.current) return;
+
+      setWorkouts((current) => (cursor ? [...current, ...page.workouts] : page.workouts));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to load workouts");
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  // Start over whenever the filters change
+  useEffect(() => {
+    setWorkouts([]);
+    setNextCursor(null);
+    loadPage(filters, null);
+  }, [filters, loadPage]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoading || error) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadPage(filters, nextCursor);
+        }
+      },
+      { rootMargin: "200px" }
     );
-  }
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [filters, nextCursor, isLoading, error, loadPage]);
+
+  const handleSaved = (updated: EditableWorkout) => {
+    setWorkouts((current) =>
+      current.map((w) => (w.id === updated.id ? { ...w, ...updated } : w))
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/workouts/${deleting.id}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to delete workout");
+      }
+      setWorkouts((current) => current.filter((w) => w.id !== deleting.id));
+      setDeleting(null);
+      toast.success("Workout deleted");
+    } catch {
+      toast.error("Couldn't delete the workout. Please try again.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const hasFilters = filters.exerciseType !== "" || filters.from !== "" || filters.to !== "";
 
   return (
-    <div className={cn("space-y-4", className)}>
-      {workouts.map((workout) => {
-        const formPercentage = getFormPercentage(
-          workout.goodFormReps,
-          workout.totalReps
-        );
-
-        return (
-          <Card key={workout.id}>
-            <CardHeader className="pb-2">
-              <div className="flex items-center justify-between">
-                <CardTitle className="capitalize text-lg">
-                  {workout.exerciseType}
-                </CardTitle>
-                <Badge
-                  variant={formPercentage >= 70 ? "default" : "secondary"}
-                  className={cn(
-                    formPercentage >= 70 && "bg-green-500 hover:bg-green-500"
-                  )}
+    <div className={className}>
+      <GuestWorkoutsBanner className="mb-6" onClaimed={() => setFilters({ ...filters })} />
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="space-y-2">
+          <Label htmlFor="history-exercise">Exercise</Label>
+          <select
+            id="history-exercise"
+            value={filters.exerciseType}
+            onChange={(e) => setFilters({ ...filters, exerciseType: e.target.value })}
+            className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+          >
+            <option value="">All exercises</option>
+            {EXERCISE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {getExerciseName(id)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="history-from">From</Label>
+          <Input
+            id="history-from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="history-to">To</Label>
+          <Input
+            id="history-to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {!isLoading && !error && workouts.length === 0 && (
+        <Card className="text-center">
+          <CardContent className="py-12">
+            {hasFilters ? (
+              <>
+                <p className="text-muted-foreground">No workouts match these filters.</p>
+                <Button
+                  variant="link"
+                  className="mt-2"
+                  onClick={() => setFilters(EMPTY_FILTERS)}
                 >
-                  {formPercentage}% Good Form
-                </Badge>
-              </div>
-              <CardDescription>{formatDate(workout.createdAt)}</CardDescription>
-            </CardHeader>
-
-            <CardContent>
-              <div className="grid grid-cols-4 gap-4 text-center">
-                <div>
-                  <div className="text-2xl font-bold">{workout.totalReps}</div>
-                  <div className="text-xs text-muted-foreground">Reps</div>
+                  Clear filters
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className="text-muted-foreground">No workouts saved yet.</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Complete a workout and save it to see your history here.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        {workouts.map((workout) => {
+          const formPercentage = getFormPercentage(
+            workout.goodFormReps,
+            workout.totalReps
+          );
+
+          return (
+            <Card key={workout.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">
+                    <Link href={`/history/${workout.id}`} className="hover:underline">
+                      {getExerciseName(workout.exerciseType)}
+                    </Link>
+                  </CardTitle>
+                  <Badge
+                    variant={formPercentage >= 70 ? "default" : "secondary"}
+                    className={cn(
+                      formPercentage >= 70 && "bg-green-500 hover:bg-green-500"
+                    )}
+                  >
+                    {formPercentage}% Good Form
+                  </Badge>
                 </div>
-                <div>
-                  <div className="text-2xl font-bold text-green-500">
-                    {workout.goodFormReps}
+                <CardDescription>{formatDate(workout.createdAt)}</CardDescription>
+              </CardHeader>
+
+              <CardContent>
+                <div className="grid grid-cols-4 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold">{workout.totalReps}</div>
+                    <div className="text-xs text-muted-foreground">Reps</div>
                   </div>
-                  <div className="text-xs text-muted-foreground">Good</div>
-                </div>
-                <div>
-                  <div className="text-2xl font-bold text-red-500">
-                    {workout.badFormReps}
+                  <div>
+                    <div className="text-2xl font-bold text-green-500">
+                      {workout.goodFormReps}
+                    </div>
+                    <div className="text-xs text-muted-foreground">Good</div>
                   </div>
-                  <div className="text-xs text-muted-foreground">Bad</div>
-                </div>
-                <div>
-                  <div className="text-2xl font-bold">
-                    {formatDuration(workout.durationSeconds)}
+                  <div>
+                    <div className="text-2xl font-bold text-red-500">
+                      {workout.badFormReps}
+                    </div>
+                    <div className="text-xs text-muted-foreground">Bad</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">
+                      {formatDuration(workout.durationSeconds)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">Time</div>
                   </div>
-                  <div className="text-xs text-muted-foreground">Time</div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        );
-      })}
+
+                {workout.notes && (
+                  <p className="text-sm text-muted-foreground mt-4 whitespace-pre-line">
+                    {workout.notes}
+                  </p>
+                )}
+
+                <div className="flex items-center justify-end gap-2 mt-4">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(workout)}>
+                    <Pencil className="h-4 w-4 me-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:text-red-600"
+                    onClick={() => setDeleting(workout)}
+                  >
+                    <Trash2 className="h-4 w-4 me-1" />
+                    Delete
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/history/${workout.id}`}>
+                      Details
+                      <ChevronRight className="h-4 w-4 ms-1 rtl:-scale-x-100" />
+                    </Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {error && (
+        <div className="text-center mt-6">
+          <p className="text-sm text-red-500">{error}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={() => loadPage(filters, workouts.length > 0 ? nextCursor : null)}
+          >
+            Try Again
+          </Button>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex justify-center py-6">
+          <Spinner />
+        </div>
+      )}
+
+      <div ref={sentinelRef} aria-hidden />
+
+      <EditWorkoutDialog
+        workout={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={handleSaved}
+      />
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Delete Workout</DialogTitle>
+            <DialogDescription>
+              This permanently removes the workout and its rep details. This can&apos;t be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
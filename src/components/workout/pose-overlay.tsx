@@ -19,6 +19,12 @@ const SKELETON_CONNECTIONS: [number, number][] = [
   [LANDMARKS.LEFT_SHOULDER, LANDMARKS.LEFT_HIP],
   [LANDMARKS.RIGHT_SHOULDER, LANDMARKS.RIGHT_HIP],
   [LANDMARKS.LEFT_HIP, LANDMARKS.RIGHT_HIP],
+  // Left arm
+  [LANDMARKS.LEFT_SHOULDER, LANDMARKS.LEFT_ELBOW],
+  [LANDMARKS.LEFT_ELBOW, LANDMARKS.LEFT_WRIST],
+  // Right arm
+  [LANDMARKS.RIGHT_SHOULDER, LANDMARKS.RIGHT_ELBOW],
+  [LANDMARKS.RIGHT_ELBOW, LANDMARKS.RIGHT_WRIST],
   // Left leg
   [LANDMARKS.LEFT_HIP, LANDMARKS.LEFT_KNEE],
   [LANDMARKS.LEFT_KNEE, LANDMARKS.LEFT_ANKLE],
@@ -85,6 +91,10 @@ export function PoseOverlay({
     const relevantLandmarks = [
       LANDMARKS.LEFT_SHOULDER,
       LANDMARKS.RIGHT_SHOULDER,
+      LANDMARKS.LEFT_ELBOW,
+      LANDMARKS.RIGHT_ELBOW,
+      LANDMARKS.LEFT_WRIST,
+      LANDMARKS.RIGHT_WRIST,
       LANDMARKS.LEFT_HIP,
       LANDMARKS.RIGHT_HIP,
       LANDMARKS.LEFT_KNEE,
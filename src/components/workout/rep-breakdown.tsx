@@ -0,0 +1,117 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useLocale } from "@/contexts/locale-context";
+import { isFormIssue } from "@/lib/form-checker";
+import { interpolate } from "@/lib/i18n";
+import type { RepRecord } from "@/lib/rep-tracker";
+import { formatTempo, getRepTempo } from "@/lib/tempo";
+import { cn } from "@/lib/utils";
+import { getCueText } from "@/lib/voice-cues";
+
+interface RepBreakdownProps {
+  exerciseType: string;
+  reps: RepRecord[];
+  className?: string;
+}
+
+export function RepBreakdown({ exerciseType, reps, className }: RepBreakdownProps) {
+  const { locale, messages } = useLocale();
+
+  if (reps.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn("w-full max-w-md", className)}>
+      <CardHeader>
+        <CardTitle className="text-lg">{messages.repBreakdown.title}</CardTitle>
+        <CardDescription>{messages.repBreakdown.description}</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <ul className="divide-y">
+          {reps.map((rep) => {
+            const isGoodForm = rep.issues.length === 0;
+
+            return (
+              <li key={rep.repIndex} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {interpolate(messages.repBreakdown.rep, { rep: rep.repIndex })}
+                  </span>
+                  <Badge
+                    variant={isGoodForm ? "default" : "destructive"}
+                    className={cn(isGoodForm && "bg-green-500 hover:bg-green-500")}
+                  >
+                    {isGoodForm ? messages.repBreakdown.good : messages.repBreakdown.checkForm}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-5 gap-2 mt-2 text-center">
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {interpolate(messages.repBreakdown.seconds, {
+                        seconds: ((rep.endedAt - rep.startedAt) / 1000).toFixed(1),
+                      })}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.repBreakdown.time}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {formatTempo(getRepTempo(rep, exerciseType))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.repBreakdown.tempo}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {Math.round(rep.minKneeAngle)}°
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.repBreakdown.minKnee}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {Math.round(rep.minHipAngle)}°
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.repBreakdown.minHip}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {Math.round(rep.maxTorsoAngle)}°
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.repBreakdown.maxLean}
+                    </div>
+                  </div>
+                </div>
+
+                {rep.issues.length > 0 && (
+                  <p className="text-xs text-red-500 mt-2">
+                    {rep.issues
+                      .map((issue) => (isFormIssue(issue) ? getCueText(locale, issue) : issue))
+                      .join(" · ")}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { useLocale } from "@/contexts/locale-context";
+import { interpolate } from "@/lib/i18n";
 import { cn } from "@/lib/utils";
 
 interface RepCounterProps {
@@ -7,6 +9,12 @@ interface RepCounterProps {
   goodFormReps: number;
   badFormReps: number;
   elapsedTime: string;
+  setProgress?: {
+    setIndex: number;
+    targetSets: number;
+    setReps: number;
+    targetReps: number | null;
+  };
   className?: string;
 }
 
@@ -15,8 +23,11 @@ export function RepCounter({
   goodFormReps,
   badFormReps,
   elapsedTime,
+  setProgress,
   className,
 }: RepCounterProps) {
+  const { messages } = useLocale();
+
   return (
     <div
       data-tour="rep-counter"
@@ -25,10 +36,29 @@ export function RepCounter({
         className
       )}
     >
+      {setProgress && (
+        <div className="text-center mb-3 pb-3 border-b">
+          <div className="text-sm font-medium">
+            {interpolate(messages.repCounter.setOf, {
+              set: setProgress.setIndex,
+              sets: setProgress.targetSets,
+            })}
+          </div>
+          <div className="text-xs text-muted-foreground tabular-nums">
+            {setProgress.targetReps !== null
+              ? interpolate(messages.repCounter.repsOfTarget, {
+                  reps: setProgress.setReps,
+                  target: setProgress.targetReps,
+                })
+              : interpolate(messages.repCounter.repsThisSet, { reps: setProgress.setReps })}
+          </div>
+        </div>
+      )}
+
       <div className="text-center">
         <div className="text-6xl font-bold tabular-nums">{totalReps}</div>
         <div className="text-muted-foreground text-sm uppercase tracking-wide">
-          Reps
+          {messages.repCounter.reps}
         </div>
       </div>
 
@@ -37,19 +67,19 @@ export function RepCounter({
           <div className="text-2xl font-semibold text-green-500 tabular-nums">
             {goodFormReps}
           </div>
-          <div className="text-xs text-muted-foreground">Good</div>
+          <div className="text-xs text-muted-foreground">{messages.repCounter.good}</div>
         </div>
         <div className="text-center">
           <div className="text-2xl font-semibold text-red-500 tabular-nums">
             {badFormReps}
           </div>
-          <div className="text-xs text-muted-foreground">Bad</div>
+          <div className="text-xs text-muted-foreground">{messages.repCounter.bad}</div>
         </div>
       </div>
 
       <div className="text-center mt-4 pt-4 border-t">
         <div className="text-xl font-mono tabular-nums">{elapsedTime}</div>
-        <div className="text-xs text-muted-foreground">Duration</div>
+        <div className="text-xs text-muted-foreground">{messages.repCounter.duration}</div>
       </div>
     </div>
   );
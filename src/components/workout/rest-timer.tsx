@@ -0,0 +1,117 @@
+"use client";
+
+import { SkipForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLocale } from "@/contexts/locale-context";
+import { formatTime } from "@/contexts/workout-context";
+import { interpolate } from "@/lib/i18n";
+import { RPE_VALUES, SET_PLAN_LIMITS, type SetRecord } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+
+interface RestTimerProps {
+  remainingSeconds: number;
+  totalSeconds: number;
+  lastSet: SetRecord;
+  targetSets: number;
+  nextWeight: number | null;
+  onRpeChange: (rpe: number | null) => void;
+  onNextWeightChange: (weight: number | null) => void;
+  onSkip: () => void;
+  className?: string;
+}
+
+export function RestTimer({
+  remainingSeconds,
+  totalSeconds,
+  lastSet,
+  targetSets,
+  nextWeight,
+  onRpeChange,
+  onNextWeightChange,
+  onSkip,
+  className,
+}: RestTimerProps) {
+  const { messages } = useLocale();
+  const progress = totalSeconds > 0 ? 1 - remainingSeconds / totalSeconds : 1;
+
+  return (
+    <div
+      data-tour="rest-timer"
+      className={cn(
+        "bg-background/95 backdrop-blur rounded-lg p-6 shadow-lg w-full max-w-sm text-center",
+        className
+      )}
+    >
+      <div className="text-sm text-muted-foreground uppercase tracking-wide">
+        {interpolate(messages.restTimer.heading, { set: lastSet.setIndex + 1, sets: targetSets })}
+      </div>
+      <div className="text-6xl font-mono font-bold tabular-nums my-2">
+        {formatTime(remainingSeconds)}
+      </div>
+      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+        <div
+          className="h-full bg-primary transition-[width] duration-1000 ease-linear"
+          style={{ width: `${Math.min(progress, 1) * 100}%` }}
+        />
+      </div>
+
+      <p className="text-sm mt-4">
+        {interpolate(messages.restTimer.lastSet, { set: lastSet.setIndex, reps: lastSet.totalReps })}
+        {lastSet.targetReps !== null &&
+          interpolate(messages.restTimer.ofTarget, { target: lastSet.targetReps })}{" "}
+        ·{" "}
+        <span className="text-green-500">
+          {interpolate(messages.restTimer.good, { reps: lastSet.goodFormReps })}
+        </span>
+      </p>
+
+      <div className="mt-4">
+        <div className="text-xs text-muted-foreground mb-2">{messages.restTimer.rpe}</div>
+        <div className="flex justify-center gap-2">
+          {RPE_VALUES.map((rpe) => (
+            <Button
+              key={rpe}
+              size="sm"
+              variant={lastSet.rpe === rpe ? "default" : "outline"}
+              onClick={() => onRpeChange(lastSet.rpe === rpe ? null : rpe)}
+              className="w-10"
+            >
+              {rpe}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center justify-center gap-2">
+        <Label htmlFor="next-weight" className="text-xs text-muted-foreground">
+          {interpolate(messages.restTimer.nextWeight, { unit: lastSet.weightUnit })}
+        </Label>
+        <Input
+          id="next-weight"
+          type="number"
+          min={0}
+          step={lastSet.weightUnit === "kg" ? 0.5 : 1}
+          max={SET_PLAN_LIMITS.maxWeight}
+          placeholder={messages.restTimer.bodyweight}
+          value={nextWeight ?? ""}
+          onChange={(e) => {
+            const parsed = Number.parseFloat(e.target.value);
+            onNextWeightChange(
+              Number.isFinite(parsed) && parsed > 0
+                ? Math.min(parsed, SET_PLAN_LIMITS.maxWeight)
+                : null
+            );
+          }}
+          className="w-28"
+        />
+      </div>
+
+      <Button variant="secondary" className="mt-6" onClick={onSkip}>
+        <SkipForward className="h-4 w-4 me-2 rtl:-scale-x-100" />
+        {messages.restTimer.skip}
+      </Button>
+    </div>
+  );
+}
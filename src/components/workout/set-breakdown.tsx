@@ -0,0 +1,133 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useLocale } from "@/contexts/locale-context";
+import { isFormIssue } from "@/lib/form-checker";
+import { interpolate } from "@/lib/i18n";
+import type { Messages } from "@/lib/messages";
+import { estimateSetOneRepMax } from "@/lib/one-rep-max";
+import { formatWeight, type SetRecord } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+import { getCueText } from "@/lib/voice-cues";
+
+interface SetBreakdownProps {
+  sets: SetRecord[];
+  className?: string;
+}
+
+function formatRest(seconds: number | null, messages: Messages): string {
+  if (seconds === null) return "—";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins === 0
+    ? interpolate(messages.setBreakdown.seconds, { seconds: secs })
+    : `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function SetBreakdown({ sets, className }: SetBreakdownProps) {
+  const { locale, messages } = useLocale();
+
+  if (sets.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn("w-full max-w-md", className)}>
+      <CardHeader>
+        <CardTitle className="text-lg">{messages.setBreakdown.title}</CardTitle>
+        <CardDescription>{messages.setBreakdown.description}</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <ul className="divide-y">
+          {sets.map((set) => {
+            const hitTarget = set.targetReps === null || set.totalReps >= set.targetReps;
+            const oneRepMax = estimateSetOneRepMax(set, set.weightUnit);
+
+            return (
+              <li key={set.setIndex} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {interpolate(messages.setBreakdown.set, { set: set.setIndex })}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      ·{" "}
+                      {set.weight === null
+                        ? messages.setBreakdown.bodyweight
+                        : formatWeight(set.weight, set.weightUnit)}
+                      {oneRepMax !== null &&
+                        ` · ${interpolate(messages.setBreakdown.oneRepMax, {
+                          weight: formatWeight(Math.round(oneRepMax), set.weightUnit),
+                        })}`}
+                    </span>
+                  </span>
+                  <Badge
+                    variant={hitTarget ? "default" : "secondary"}
+                    className={cn(hitTarget && "bg-green-500 hover:bg-green-500")}
+                  >
+                    {set.targetReps === null
+                      ? interpolate(messages.setBreakdown.reps, { reps: set.totalReps })
+                      : interpolate(messages.setBreakdown.repsOfTarget, {
+                          reps: set.totalReps,
+                          target: set.targetReps,
+                        })}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-4 gap-2 mt-2 text-center">
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums text-green-500">
+                      {set.goodFormReps}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.setBreakdown.good}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums text-red-500">
+                      {set.badFormReps}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.setBreakdown.bad}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {set.rpe ?? "—"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.setBreakdown.rpe}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold tabular-nums">
+                      {formatRest(set.restSeconds, messages)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {messages.setBreakdown.rest}
+                    </div>
+                  </div>
+                </div>
+
+                {set.mistakes.length > 0 && (
+                  <p className="text-xs text-red-500 mt-2">
+                    {set.mistakes
+                      .map((mistake) => (isFormIssue(mistake) ? getCueText(locale, mistake) : mistake))
+                      .join(" · ")}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLocale } from "@/contexts/locale-context";
+import { SET_PLAN_LIMITS, WEIGHT_UNITS, type SetPlan } from "@/lib/sets";
+import { formatTempo, parseTempo } from "@/lib/tempo";
+import { cn } from "@/lib/utils";
+
+interface SetPlannerProps {
+  plan: SetPlan;
+  onChange: (plan: SetPlan) => void;
+  className?: string;
+}
+
+// Parse a number input, treating empty or invalid values as null
+function parseOptionalNumber(value: string, max: number): number | null {
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return Math.min(parsed, max);
+}
+
+function parseOptionalCount(value: string, max: number): number | null {
+  const parsed = parseOptionalNumber(value, max);
+  return parsed === null ? null : Math.max(1, Math.round(parsed));
+}
+
+function parseCount(value: string, min: number, max: number): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) return min;
+  return Math.min(Math.max(parsed, min), max);
+}
+
+export function SetPlanner({ plan, onChange, className }: SetPlannerProps) {
+  const { messages } = useLocale();
+  // The tempo is typed as text; the plan only takes it once it parses
+  const [tempoText, setTempoText] = useState(plan.tempo ? formatTempo(plan.tempo) : "");
+  const isTempoValid = tempoText.trim() === "" || plan.tempo !== null;
+
+  return (
+    <div
+      data-tour="set-planner"
+      className={cn("grid grid-cols-2 sm:grid-cols-5 gap-3 max-w-2xl mx-auto", className)}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="plan-sets" className="text-xs">
+          {messages.setPlanner.sets}
+        </Label>
+        <Input
+          id="plan-sets"
+          type="number"
+          min={1}
+          max={SET_PLAN_LIMITS.maxSets}
+          value={plan.targetSets}
+          onChange={(e) =>
+            onChange({
+              ...plan,
+              targetSets: parseCount(e.target.value, 1, SET_PLAN_LIMITS.maxSets),
+            })
+          }
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="plan-reps" className="text-xs">
+          {messages.setPlanner.targetReps}
+        </Label>
+        <Input
+          id="plan-reps"
+          type="number"
+          min={1}
+          max={SET_PLAN_LIMITS.maxTargetReps}
+          placeholder={messages.setPlanner.openReps}
+          value={plan.targetReps ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...plan,
+              targetReps: parseOptionalCount(e.target.value, SET_PLAN_LIMITS.maxTargetReps),
+            })
+          }
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="plan-weight" className="text-xs">
+          {messages.setPlanner.weight}
+        </Label>
+        <div className="flex gap-1">
+          <Input
+            id="plan-weight"
+            type="number"
+            min={0}
+            step={plan.weightUnit === "kg" ? 0.5 : 1}
+            max={SET_PLAN_LIMITS.maxWeight}
+            placeholder={messages.setPlanner.bodyweight}
+            value={plan.weight ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...plan,
+                weight: parseOptionalNumber(e.target.value, SET_PLAN_LIMITS.maxWeight),
+              })
+            }
+          />
+          <select
+            aria-label={messages.setPlanner.weightUnit}
+            value={plan.weightUnit}
+            onChange={(e) =>
+              onChange({ ...plan, weightUnit: e.target.value as SetPlan["weightUnit"] })
+            }
+            className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+          >
+            {WEIGHT_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="plan-rest" className="text-xs">
+          {messages.setPlanner.rest}
+        </Label>
+        <Input
+          id="plan-rest"
+          type="number"
+          min={0}
+          step={15}
+          max={SET_PLAN_LIMITS.maxRestSeconds}
+          value={plan.restSeconds}
+          onChange={(e) =>
+            onChange({
+              ...plan,
+              restSeconds: parseCount(e.target.value, 0, SET_PLAN_LIMITS.maxRestSeconds),
+            })
+          }
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="plan-tempo" className="text-xs">
+          {messages.setPlanner.tempo}
+        </Label>
+        <Input
+          id="plan-tempo"
+          placeholder="3-1-1"
+          title={messages.setPlanner.tempoHint}
+          aria-invalid={!isTempoValid}
+          value={tempoText}
+          onChange={(e) => {
+            setTempoText(e.target.value);
+            onChange({ ...plan, tempo: parseTempo(e.target.value) });
+          }}
+        />
+      </div>
+    </div>
+  );
+}
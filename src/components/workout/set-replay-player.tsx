@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Exercise, ThresholdOverrides } from "@/lib/exercises";
+import {
+  findFrameIndex,
+  replayRecording,
+  type ReplayFrame,
+  type SetRecording,
+} from "@/lib/recording";
+import { cn } from "@/lib/utils";
+import { FormIndicator } from "./form-indicator";
+import { PoseOverlay } from "./pose-overlay";
+
+export interface RecordedSet {
+  setIndex: number;
+  url: string;
+}
+
+interface SetReplayPlayerProps {
+  exerciseType: Exercise;
+  recordings: RecordedSet[];
+  thresholds?: ThresholdOverrides | null; // The user's calibration for this exercise
+  className?: string;
+}
+
+interface ReplayViewerProps {
+  exerciseType: Exercise;
+  url: string;
+  thresholds: ThresholdOverrides | null;
+}
+
+const PLAYBACK_RATES = [0.25, 0.5, 1];
+
+function formatPosition(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+function isSetRecording(value: unknown): value is SetRecording {
+  const recording = value as SetRecording | null;
+  return (
+    recording !== null &&
+    typeof recording === "object" &&
+    recording.version === 1 &&
+    Array.isArray(recording.frames)
+  );
+}
+
+// Plays one recording; remounted per set so playback state starts fresh
+function ReplayViewer({ exerciseType, url, thresholds }: ReplayViewerProps) {
+  const [frames, setFrames] = useState<ReplayFrame[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  // Mirrors position so the playback loop can advance it without stale closures
+  const positionRef = useRef(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(url)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load recording");
+        }
+        const data: unknown = await response.json();
+        if (!isSetRecording(data)) {
+          throw new Error("Recording is unreadable");
+        }
+        return data;
+      })
+      .then((recording) => {
+        // Re-run the form checker over the stream, exactly as it ran live
+        if (!cancelled) setFrames(replayRecording(exerciseType, recording, thresholds));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load recording");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, exerciseType, thresholds]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) {
+        setSize({
+          width: Math.round(entry.contentRect.width),
+          height: Math.round(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const duration = frames?.[frames.length - 1]?.t ?? 0;
+
+  const seek = (value: number) => {
+    positionRef.current = value;
+    setPosition(value);
+  };
+
+  // Advance the playhead in real time (scaled by the playback rate)
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(positionRef.current + (now - last) * rate, duration);
+      last = now;
+      positionRef.current = next;
+      setPosition(next);
+      if (next >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, rate, duration]);
+
+  const handlePlay = () => {
+    if (position >= duration) {
+      seek(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const current = frames ? frames[Math.max(findFrameIndex(frames, position), 0)] : undefined;
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative aspect-video rounded-lg bg-black overflow-hidden">
+        {error && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-red-500">
+            {error}
+          </p>
+        )}
+        {!frames && !error && <Skeleton className="absolute inset-0" />}
+        {current && size.width > 0 && (
+          <>
+            <PoseOverlay
+              landmarks={current.landmarks}
+              width={size.width}
+              height={size.height}
+              isGoodForm={current.analysis.isGoodForm}
+            />
+            <div className="absolute top-2 right-2 flex gap-2">
+              <Badge variant="secondary" className="capitalize">
+                {current.analysis.phase}
+              </Badge>
+              <Badge variant="secondary" className="capitalize">
+                {current.analysis.view} view
+              </Badge>
+              <Badge variant="secondary">Reps {current.repCount}</Badge>
+            </div>
+            <FormIndicator
+              isGoodForm={current.analysis.isGoodForm}
+              issues={current.analysis.issues}
+              view={current.analysis.view}
+              unassessable={current.analysis.unassessable}
+              hiddenParts={current.analysis.hiddenParts}
+              className="absolute bottom-2 left-2"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handlePlay}
+          disabled={!frames || duration === 0}
+          aria-label={isPlaying ? "Pause replay" : "Play replay"}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => seek(0)}
+          disabled={!frames}
+          aria-label="Restart replay"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1}
+          value={Math.min(position, duration)}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!frames}
+          aria-label="Replay position"
+          className="flex-1 accent-primary"
+        />
+        <span className="text-xs text-muted-foreground tabular-nums w-24 text-right">
+          {formatPosition(position)} / {formatPosition(duration)}
+        </span>
+        <select
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          aria-label="Playback speed"
+          className="border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-xs"
+        >
+          {PLAYBACK_RATES.map((option) => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {current && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {current.analysis.inFrame ? (
+            <>
+              Knee {Math.round(current.analysis.kneeAngle)}° · Hip{" "}
+              {Math.round(current.analysis.hipAngle)}° · Torso{" "}
+              {Math.round(current.analysis.torsoAngle)}°
+            </>
+          ) : (
+            "Not fully in view, frame skipped"
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Scrub through recorded sets with the skeleton and live form analysis re-created
+ */
+export function SetReplayPlayer({
+  exerciseType,
+  recordings,
+  thresholds = null,
+  className,
+}: SetReplayPlayerProps) {
+  const [selectedIndex, setSelectedIndex] = useState(recordings[0]?.setIndex ?? null);
+  const selected = recordings.find((r) => r.setIndex === selectedIndex);
+
+  if (recordings.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="text-lg">Set Replay</CardTitle>
+        <CardDescription>
+          The recorded pose stream, re-analyzed frame by frame
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {recordings.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {recordings.map((r) => (
+              <Button
+                key={r.setIndex}
+                size="sm"
+                variant={r.setIndex === selectedIndex ? "default" : "outline"}
+                onClick={() => setSelectedIndex(r.setIndex)}
+              >
+                Set {r.setIndex}
+              </Button>
+            ))}
+          </div>
+        )}
+        {selected && (
+          <ReplayViewer
+            key={selected.url}
+            exerciseType={exerciseType}
+            url={selected.url}
+            thresholds={thresholds}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,32 +1,39 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { useLocale } from "@/contexts/locale-context";
 import { cn } from "@/lib/utils";
 
 interface WorkoutControlsProps {
   isActive: boolean;
   isPaused: boolean;
+  isResting?: boolean;
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
   onStop: () => void;
+  onCompleteSet?: () => void;
   className?: string;
 }
 
 export function WorkoutControls({
   isActive,
   isPaused,
+  isResting = false,
   onStart,
   onPause,
   onResume,
   onStop,
+  onCompleteSet,
   className,
 }: WorkoutControlsProps) {
+  const { messages } = useLocale();
+
   if (!isActive) {
     return (
       <div data-tour="workout-controls" className={cn("flex justify-center gap-4", className)}>
         <Button size="lg" onClick={onStart} className="text-lg px-8 py-6">
-          Start Workout
+          {messages.controls.startWorkout}
         </Button>
       </div>
     );
@@ -40,7 +47,7 @@ export function WorkoutControls({
           onClick={onResume}
           className="text-lg px-8 py-6"
         >
-          Resume
+          {messages.controls.resume}
         </Button>
       ) : (
         <Button
@@ -49,7 +56,18 @@ export function WorkoutControls({
           onClick={onPause}
           className="text-lg px-8 py-6"
         >
-          Pause
+          {messages.controls.pause}
+        </Button>
+      )}
+      {onCompleteSet && !isResting && (
+        <Button
+          size="lg"
+          variant="outline"
+          onClick={onCompleteSet}
+          disabled={isPaused}
+          className="text-lg px-8 py-6"
+        >
+          {messages.controls.endSet}
         </Button>
       )}
       <Button
@@ -58,7 +76,7 @@ export function WorkoutControls({
         onClick={onStop}
         className="text-lg px-8 py-6"
       >
-        End Workout
+        {messages.controls.endWorkout}
       </Button>
     </div>
   );
@@ -9,8 +9,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { VOICE_FEEDBACK, type FormIssue } from "@/lib/form-checker";
+import { useLocale } from "@/contexts/locale-context";
+import { isFormIssue } from "@/lib/form-checker";
+import { interpolate } from "@/lib/i18n";
+import { type Messages, getLocalizedExerciseName } from "@/lib/messages";
+import { type TempoSummary, formatTempo } from "@/lib/tempo";
 import { cn } from "@/lib/utils";
+import { getCueText } from "@/lib/voice-cues";
 
 interface WorkoutSummaryProps {
   exerciseType: string;
@@ -19,19 +24,21 @@ interface WorkoutSummaryProps {
   badFormReps: number;
   durationSeconds: number;
   mistakes: string[];
+  tempo?: TempoSummary | null; // null when no reps were recorded
   onSave?: () => void | Promise<void>;
-  onStartNew: () => void;
+  onStartNew?: () => void;
   isSaving?: boolean;
+  saveLabel?: string;
   className?: string;
 }
 
-function formatDuration(seconds: number): string {
+function formatDuration(seconds: number, messages: Messages): string {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
   if (mins === 0) {
-    return `${secs}s`;
+    return interpolate(messages.summary.durationSeconds, { seconds: secs });
   }
-  return `${mins}m ${secs}s`;
+  return interpolate(messages.summary.durationMinutes, { minutes: mins, seconds: secs });
 }
 
 function getFormPercentage(good: number, total: number): number {
@@ -46,20 +53,25 @@ export function WorkoutSummaryCard({
   badFormReps,
   durationSeconds,
   mistakes,
+  tempo = null,
   onSave,
   onStartNew,
   isSaving = false,
+  saveLabel,
   className,
 }: WorkoutSummaryProps) {
+  const { locale, messages } = useLocale();
   const formPercentage = getFormPercentage(goodFormReps, totalReps);
 
   return (
     <Card className={cn("w-full max-w-md", className)}>
       <CardHeader className="text-center">
-        <CardTitle className="capitalize text-2xl">
-          {exerciseType} Workout Complete
+        <CardTitle className="text-2xl">
+          {interpolate(messages.summary.complete, {
+            exercise: getLocalizedExerciseName(messages, exerciseType),
+          })}
         </CardTitle>
-        <CardDescription>Great job! Here&apos;s your summary</CardDescription>
+        <CardDescription>{messages.summary.greatJob}</CardDescription>
       </CardHeader>
 
       <CardContent className="space-y-6">
@@ -67,19 +79,19 @@ export function WorkoutSummaryCard({
         <div className="grid grid-cols-3 gap-4 text-center">
           <div>
             <div className="text-4xl font-bold">{totalReps}</div>
-            <div className="text-sm text-muted-foreground">Total Reps</div>
+            <div className="text-sm text-muted-foreground">{messages.summary.totalReps}</div>
           </div>
           <div>
             <div className="text-4xl font-bold text-green-500">
               {formPercentage}%
             </div>
-            <div className="text-sm text-muted-foreground">Good Form</div>
+            <div className="text-sm text-muted-foreground">{messages.summary.goodForm}</div>
           </div>
           <div>
             <div className="text-4xl font-bold">
-              {formatDuration(durationSeconds)}
+              {formatDuration(durationSeconds, messages)}
             </div>
-            <div className="text-sm text-muted-foreground">Duration</div>
+            <div className="text-sm text-muted-foreground">{messages.summary.duration}</div>
           </div>
         </div>
 
@@ -89,20 +101,40 @@ export function WorkoutSummaryCard({
             <div className="text-2xl font-semibold text-green-500">
               {goodFormReps}
             </div>
-            <div className="text-xs text-muted-foreground">Good Form Reps</div>
+            <div className="text-xs text-muted-foreground">{messages.summary.goodFormReps}</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-semibold text-red-500">
               {badFormReps}
             </div>
-            <div className="text-xs text-muted-foreground">Bad Form Reps</div>
+            <div className="text-xs text-muted-foreground">{messages.summary.badFormReps}</div>
           </div>
         </div>
 
+        {/* Tempo */}
+        {tempo && (
+          <div className="flex justify-center gap-8">
+            <div className="text-center">
+              <div className="text-2xl font-semibold tabular-nums" dir="ltr">
+                {formatTempo(tempo.averageTempo)}
+              </div>
+              <div className="text-xs text-muted-foreground">{messages.summary.averageTempo}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-semibold">
+                {formatDuration(tempo.timeUnderTensionSeconds, messages)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {messages.summary.timeUnderTension}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Mistakes summary */}
         {mistakes.length > 0 && (
           <div className="border-t pt-4">
-            <h4 className="font-medium mb-2">Areas to Improve</h4>
+            <h4 className="font-medium mb-2">{messages.summary.areasToImprove}</h4>
             <ul className="space-y-1">
               {mistakes.map((mistake) => (
                 <li
@@ -110,7 +142,7 @@ export function WorkoutSummaryCard({
                   className="text-sm text-muted-foreground flex items-center gap-2"
                 >
                   <span className="text-yellow-500">•</span>
-                  {VOICE_FEEDBACK[mistake as FormIssue] || mistake}
+                  {isFormIssue(mistake) ? getCueText(locale, mistake) : mistake}
                 </li>
               ))}
             </ul>
@@ -118,20 +150,24 @@ export function WorkoutSummaryCard({
         )}
       </CardContent>
 
-      <CardFooter className="flex flex-col gap-3">
-        {onSave && (
-          <Button
-            onClick={onSave}
-            disabled={isSaving}
-            className="w-full"
-          >
-            {isSaving ? "Saving..." : "Save Workout"}
-          </Button>
-        )}
-        <Button variant="outline" onClick={onStartNew} className="w-full">
-          Start New Workout
-        </Button>
-      </CardFooter>
+      {(onSave || onStartNew) && (
+        <CardFooter className="flex flex-col gap-3">
+          {onSave && (
+            <Button
+              onClick={onSave}
+              disabled={isSaving}
+              className="w-full"
+            >
+              {isSaving ? messages.summary.saving : (saveLabel ?? messages.summary.save)}
+            </Button>
+          )}
+          {onStartNew && (
+            <Button variant="outline" onClick={onStartNew} className="w-full">
+              {messages.summary.startNew}
+            </Button>
+          )}
+        </CardFooter>
+      )}
     </Card>
   );
 }
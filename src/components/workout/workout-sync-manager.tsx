@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useLocale } from "@/contexts/locale-context";
+import { useSession } from "@/lib/auth-client";
+import { interpolate } from "@/lib/i18n";
+import {
+  discardFailedWorkouts,
+  isQueueSupported,
+  syncQueuedWorkouts,
+} from "@/lib/workout-queue";
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Background sync for workouts saved on this device.
+ * Retries on load, when connectivity returns and periodically while signed in.
+ * Workouts the server rejected are reported once, with an option to discard them.
+ */
+export function WorkoutSyncManager() {
+  const { data: session } = useSession();
+  const userId = session?.user.id ?? null;
+  const { messages } = useLocale();
+  // Rejected workouts already reported, so each periodic sync doesn't repeat the toast
+  const reportedFailures = useRef(0);
+
+  useEffect(() => {
+    if (!userId || !isQueueSupported()) return;
+
+    const sync = async () => {
+      try {
+        const result = await syncQueuedWorkouts(userId);
+        if (result.synced > 0) {
+          toast.success(
+            result.synced === 1
+              ? messages.offlineSync.syncedOne
+              : interpolate(messages.offlineSync.syncedMany, { count: result.synced })
+          );
+        }
+
+        if (result.failed > reportedFailures.current) {
+          toast.error(
+            result.failed === 1
+              ? messages.offlineSync.rejectedOne
+              : interpolate(messages.offlineSync.rejectedMany, { count: result.failed }),
+            {
+              duration: Infinity,
+              action: {
+                label: messages.offlineSync.discard,
+                onClick: () => {
+                  discardFailedWorkouts(userId)
+                    .then(() => {
+                      reportedFailures.current = 0;
+                    })
+                    .catch((error) => console.warn("Failed to discard workouts:", error));
+                },
+              },
+            }
+          );
+        }
+        reportedFailures.current = result.failed;
+      } catch (error) {
+        console.warn("Workout sync failed:", error);
+      }
+    };
+
+    void sync();
+    window.addEventListener("online", sync);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", sync);
+      clearInterval(interval);
+    };
+  }, [userId, messages]);
+
+  return null;
+}
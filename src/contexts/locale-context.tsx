@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import { useSession } from "@/lib/auth-client";
+import { DEFAULT_LOCALE, LOCALE_INFO, isLocale, type Locale } from "@/lib/i18n";
+import { MESSAGES, type Messages } from "@/lib/messages";
+
+const LOCALE_STORAGE_KEY = "gymcoach-language";
+
+// The language last chosen on this device, so it applies before the session loads
+function getStoredLocale(): Locale {
+  if (typeof window === "undefined") return DEFAULT_LOCALE;
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : DEFAULT_LOCALE;
+}
+
+function storeLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  // Dispatch storage event to trigger re-render
+  window.dispatchEvent(new StorageEvent("storage"));
+}
+
+// Subscribe to storage changes
+function subscribeToStorage(callback: () => void) {
+  window.addEventListener("storage", callback);
+  return () => window.removeEventListener("storage", callback);
+}
+
+interface LocaleContextValue {
+  locale: Locale;
+  direction: "ltr" | "rtl";
+  messages: Messages;
+  setLocale: (locale: Locale) => Promise<void>;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const locale = useSyncExternalStore(subscribeToStorage, getStoredLocale, () => DEFAULT_LOCALE);
+
+  // Signed-in users get the language saved to their account on every device
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    fetch("/api/preferences")
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load preferences");
+        }
+        return (await response.json()) as { language: Locale };
+      })
+      .then((preferences) => {
+        if (!cancelled && isLocale(preferences.language)) storeLocale(preferences.language);
+      })
+      .catch((error) => console.warn("Failed to load preferences:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const setLocale = useCallback(
+    async (next: Locale) => {
+      storeLocale(next);
+      if (!session) return;
+
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: next }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to save language");
+      }
+    },
+    [session]
+  );
+
+  return (
+    <LocaleContext.Provider
+      value={{
+        locale,
+        direction: LOCALE_INFO[locale].direction,
+        messages: MESSAGES[locale],
+        setLocale,
+      }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used within a LocaleProvider");
+  }
+  return context;
+}
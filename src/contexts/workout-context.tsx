@@ -8,11 +8,23 @@ import {
   useRef,
   type ReactNode,
 } from "react";
+import type { Exercise } from "@/lib/exercises";
+import type { RepRecord } from "@/lib/rep-tracker";
+import { DEFAULT_SET_PLAN, type SetPlan, type SetRecord } from "@/lib/sets";
 
-export type ExerciseType = "squat" | "deadlift";
+// The set currently being performed
+export interface CurrentSet {
+  setIndex: number;
+  weight: number | null;
+  startedAt: number;
+  totalReps: number;
+  goodFormReps: number;
+  badFormReps: number;
+  mistakes: string[];
+}
 
 export interface WorkoutState {
-  exercise: ExerciseType | null;
+  exercise: Exercise | null;
   isActive: boolean;
   isPaused: boolean;
   totalReps: number;
@@ -20,18 +32,30 @@ export interface WorkoutState {
   badFormReps: number;
   currentMistakes: string[];
   allMistakes: string[];
+  reps: RepRecord[];
   startTime: number | null;
   elapsedSeconds: number;
+  plan: SetPlan;
+  sets: SetRecord[];
+  currentSet: CurrentSet | null; // null while resting or once every set is done
+  nextWeight: number | null;
+  restStartedAt: number | null; // Set while resting between sets
+  restEndsAt: number | null;
+  restRemainingSeconds: number;
 }
 
 type WorkoutAction =
-  | { type: "START_WORKOUT"; exercise: ExerciseType }
+  | { type: "START_WORKOUT"; exercise: Exercise; plan: SetPlan; now: number }
   | { type: "PAUSE_WORKOUT" }
   | { type: "RESUME_WORKOUT" }
-  | { type: "END_WORKOUT" }
-  | { type: "COUNT_REP"; isGoodForm: boolean; mistakes: string[] }
+  | { type: "END_WORKOUT"; now: number }
+  | { type: "COMPLETE_SET"; now: number }
+  | { type: "START_NEXT_SET"; now: number }
+  | { type: "SET_RPE"; setIndex: number; rpe: number | null }
+  | { type: "SET_NEXT_WEIGHT"; weight: number | null }
+  | { type: "COUNT_REP"; isGoodForm: boolean; mistakes: string[]; rep?: RepRecord }
   | { type: "SET_CURRENT_MISTAKES"; mistakes: string[] }
-  | { type: "UPDATE_TIME"; elapsed: number }
+  | { type: "UPDATE_TIME"; elapsed: number; now: number }
   | { type: "RESET" };
 
 const initialState: WorkoutState = {
@@ -43,10 +67,47 @@ const initialState: WorkoutState = {
   badFormReps: 0,
   currentMistakes: [],
   allMistakes: [],
+  reps: [],
   startTime: null,
   elapsedSeconds: 0,
+  plan: DEFAULT_SET_PLAN,
+  sets: [],
+  currentSet: null,
+  nextWeight: null,
+  restStartedAt: null,
+  restEndsAt: null,
+  restRemainingSeconds: 0,
 };
 
+function createSet(setIndex: number, weight: number | null, now: number): CurrentSet {
+  return {
+    setIndex,
+    weight,
+    startedAt: now,
+    totalReps: 0,
+    goodFormReps: 0,
+    badFormReps: 0,
+    mistakes: [],
+  };
+}
+
+function finishSet(set: CurrentSet, plan: SetPlan, now: number): SetRecord {
+  return {
+    setIndex: set.setIndex,
+    targetReps: plan.targetReps,
+    weight: set.weight,
+    weightUnit: plan.weightUnit,
+    rpe: null,
+    totalReps: set.totalReps,
+    goodFormReps: set.goodFormReps,
+    badFormReps: set.badFormReps,
+    mistakes: set.mistakes,
+    startedAt: set.startedAt,
+    endedAt: now,
+    restSeconds: null,
+  };
+}
+
 function workoutReducer(
   state: WorkoutState,
   action: WorkoutAction
@@ -57,7 +118,10 @@ function workoutReducer(
         ...initialState,
         exercise: action.exercise,
         isActive: true,
-        startTime: Date.now(),
+        startTime: action.now,
+        plan: action.plan,
+        currentSet: createSet(1, action.plan.weight, action.now),
+        nextWeight: action.plan.weight,
       };
 
     case "PAUSE_WORKOUT":
@@ -77,9 +141,69 @@ function workoutReducer(
         ...state,
         isActive: false,
         isPaused: false,
+        // Keep a partially finished set, drop one that never got going
+        sets:
+          state.currentSet && state.currentSet.totalReps > 0
+            ? [...state.sets, finishSet(state.currentSet, state.plan, action.now)]
+            : state.sets,
+        currentSet: null,
+        restStartedAt: null,
+        restEndsAt: null,
+        restRemainingSeconds: 0,
+      };
+
+    case "COMPLETE_SET": {
+      if (!state.currentSet) return state;
+
+      const sets = [...state.sets, finishSet(state.currentSet, state.plan, action.now)];
+      const hasMoreSets = sets.length < state.plan.targetSets;
+      return {
+        ...state,
+        sets,
+        currentSet: null,
+        currentMistakes: [],
+        nextWeight: state.currentSet.weight,
+        restStartedAt: hasMoreSets ? action.now : null,
+        restEndsAt: hasMoreSets ? action.now + state.plan.restSeconds * 1000 : null,
+        restRemainingSeconds: hasMoreSets ? state.plan.restSeconds : 0,
+      };
+    }
+
+    case "START_NEXT_SET": {
+      if (state.restStartedAt === null) return state;
+
+      const restSeconds = Math.round((action.now - state.restStartedAt) / 1000);
+      return {
+        ...state,
+        sets: state.sets.map((set, i) =>
+          i === state.sets.length - 1 ? { ...set, restSeconds } : set
+        ),
+        currentSet: createSet(state.sets.length + 1, state.nextWeight, action.now),
+        restStartedAt: null,
+        restEndsAt: null,
+        restRemainingSeconds: 0,
+      };
+    }
+
+    case "SET_RPE":
+      return {
+        ...state,
+        sets: state.sets.map((set) =>
+          set.setIndex === action.setIndex ? { ...set, rpe: action.rpe } : set
+        ),
+      };
+
+    case "SET_NEXT_WEIGHT":
+      return {
+        ...state,
+        nextWeight: action.weight,
       };
 
-    case "COUNT_REP":
+    case "COUNT_REP": {
+      // Reps can only land in a running set
+      const set = state.currentSet;
+      if (!set) return state;
+
       return {
         ...state,
         totalReps: state.totalReps + 1,
@@ -90,8 +214,23 @@ function workoutReducer(
           ? state.badFormReps
           : state.badFormReps + 1,
         allMistakes: [...new Set([...state.allMistakes, ...action.mistakes])],
+        // Number reps across the whole session and tag them with their set
+        reps: action.rep
+          ? [
+              ...state.reps,
+              { ...action.rep, repIndex: state.totalReps + 1, setIndex: set.setIndex },
+            ]
+          : state.reps,
+        currentSet: {
+          ...set,
+          totalReps: set.totalReps + 1,
+          goodFormReps: action.isGoodForm ? set.goodFormReps + 1 : set.goodFormReps,
+          badFormReps: action.isGoodForm ? set.badFormReps : set.badFormReps + 1,
+          mistakes: [...new Set([...set.mistakes, ...action.mistakes])],
+        },
         currentMistakes: [],
       };
+    }
 
     case "SET_CURRENT_MISTAKES":
       return {
@@ -103,6 +242,10 @@ function workoutReducer(
       return {
         ...state,
         elapsedSeconds: action.elapsed,
+        restRemainingSeconds:
+          state.restEndsAt === null
+            ? 0
+            : Math.max(0, Math.ceil((state.restEndsAt - action.now) / 1000)),
       };
 
     case "RESET":
@@ -116,11 +259,15 @@ function workoutReducer(
 interface WorkoutContextValue {
   state: WorkoutState;
   dispatch: React.Dispatch<WorkoutAction>;
-  startWorkout: (exercise: ExerciseType) => void;
+  startWorkout: (exercise: Exercise, plan: SetPlan) => void;
   pauseWorkout: () => void;
   resumeWorkout: () => void;
   endWorkout: () => void;
-  countRep: (isGoodForm: boolean, mistakes: string[]) => void;
+  completeSet: () => void;
+  startNextSet: () => void;
+  setRpe: (setIndex: number, rpe: number | null) => void;
+  setNextWeight: (weight: number | null) => void;
+  countRep: (isGoodForm: boolean, mistakes: string[], rep?: RepRecord) => void;
   setCurrentMistakes: (mistakes: string[]) => void;
   reset: () => void;
 }
@@ -135,8 +282,9 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     if (state.isActive && !state.isPaused && state.startTime) {
       timerRef.current = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - state.startTime!) / 1000);
-        dispatch({ type: "UPDATE_TIME", elapsed });
+        const now = Date.now();
+        const elapsed = Math.floor((now - state.startTime!) / 1000);
+        dispatch({ type: "UPDATE_TIME", elapsed, now });
       }, 1000);
     } else {
       if (timerRef.current) {
@@ -152,8 +300,8 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
     };
   }, [state.isActive, state.isPaused, state.startTime]);
 
-  const startWorkout = useCallback((exercise: ExerciseType) => {
-    dispatch({ type: "START_WORKOUT", exercise });
+  const startWorkout = useCallback((exercise: Exercise, plan: SetPlan) => {
+    dispatch({ type: "START_WORKOUT", exercise, plan, now: Date.now() });
   }, []);
 
   const pauseWorkout = useCallback(() => {
@@ -165,13 +313,36 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const endWorkout = useCallback(() => {
-    dispatch({ type: "END_WORKOUT" });
+    dispatch({ type: "END_WORKOUT", now: Date.now() });
+  }, []);
+
+  const completeSet = useCallback(() => {
+    dispatch({ type: "COMPLETE_SET", now: Date.now() });
+  }, []);
+
+  const startNextSet = useCallback(() => {
+    dispatch({ type: "START_NEXT_SET", now: Date.now() });
   }, []);
 
-  const countRep = useCallback((isGoodForm: boolean, mistakes: string[]) => {
-    dispatch({ type: "COUNT_REP", isGoodForm, mistakes });
+  const setRpe = useCallback((setIndex: number, rpe: number | null) => {
+    dispatch({ type: "SET_RPE", setIndex, rpe });
   }, []);
 
+  const setNextWeight = useCallback((weight: number | null) => {
+    dispatch({ type: "SET_NEXT_WEIGHT", weight });
+  }, []);
+
+  const countRep = useCallback(
+    (isGoodForm: boolean, mistakes: string[], rep?: RepRecord) => {
+      dispatch(
+        rep
+          ? { type: "COUNT_REP", isGoodForm, mistakes, rep }
+          : { type: "COUNT_REP", isGoodForm, mistakes }
+      );
+    },
+    []
+  );
+
   const setCurrentMistakes = useCallback((mistakes: string[]) => {
     dispatch({ type: "SET_CURRENT_MISTAKES", mistakes });
   }, []);
@@ -187,6 +358,10 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
     pauseWorkout,
     resumeWorkout,
     endWorkout,
+    completeSet,
+    startNextSet,
+    setRpe,
+    setNextWeight,
     countRep,
     setCurrentMistakes,
     reset,
@@ -213,7 +388,13 @@ export function formatTime(seconds: number): string {
 }
 
 // Get workout summary data for API/navigation
-export function getWorkoutSummary(state: WorkoutState) {
+// A set still in progress is included if it has any reps.
+export function getWorkoutSummary(state: WorkoutState, now: number = Date.now()) {
+  const sets =
+    state.currentSet && state.currentSet.totalReps > 0
+      ? [...state.sets, finishSet(state.currentSet, state.plan, now)]
+      : state.sets;
+
   return {
     exerciseType: state.exercise,
     totalReps: state.totalReps,
@@ -221,5 +402,7 @@ export function getWorkoutSummary(state: WorkoutState) {
     badFormReps: state.badFormReps,
     durationSeconds: state.elapsedSeconds,
     mistakes: state.allMistakes,
+    reps: state.reps,
+    sets,
   };
 }
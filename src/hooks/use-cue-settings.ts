@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { DEFAULT_CUE_SETTINGS, type CueSettings, isCueMode } from "@/lib/cue-modes";
+
+// Kept per device: how well speech and tones work depends on the browser and speakers
+const CUE_SETTINGS_STORAGE_KEY = "gymcoach-cue-settings";
+
+// Helper to read from localStorage with SSR safety
+function getStoredSettings(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(CUE_SETTINGS_STORAGE_KEY);
+}
+
+// Subscribe to storage changes
+function subscribeToStorage(callback: () => void) {
+  window.addEventListener("storage", callback);
+  return () => window.removeEventListener("storage", callback);
+}
+
+// Stored settings from an older version may be partial or invalid
+function parseSettings(stored: string | null): CueSettings {
+  if (!stored) return DEFAULT_CUE_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored) as Partial<CueSettings>;
+    return {
+      mode: isCueMode(parsed.mode) ? parsed.mode : DEFAULT_CUE_SETTINGS.mode,
+      repBeeps:
+        typeof parsed.repBeeps === "boolean" ? parsed.repBeeps : DEFAULT_CUE_SETTINGS.repBeeps,
+    };
+  } catch {
+    return DEFAULT_CUE_SETTINGS;
+  }
+}
+
+export interface UseCueSettingsReturn {
+  settings: CueSettings;
+  updateSettings: (changes: Partial<CueSettings>) => void;
+}
+
+export function useCueSettings(): UseCueSettingsReturn {
+  // Use useSyncExternalStore to safely read from localStorage
+  const stored = useSyncExternalStore(subscribeToStorage, getStoredSettings, () => null);
+  const settings = useMemo(() => parseSettings(stored), [stored]);
+
+  const updateSettings = useCallback((changes: Partial<CueSettings>) => {
+    const next = { ...parseSettings(getStoredSettings()), ...changes };
+    localStorage.setItem(CUE_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    // Dispatch storage event to trigger re-render
+    window.dispatchEvent(new StorageEvent("storage"));
+  }, []);
+
+  return { settings, updateSettings };
+}
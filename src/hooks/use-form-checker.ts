@@ -1,12 +1,14 @@
 "use client";
-import { useRef, useCallback, useState } from "react";
+import { useRef, useCallback, useState, useEffect } from "react";
+import type { Exercise, ThresholdOverrides } from "@/lib/exercises";
 import {
-  type Exercise,
   type FormAnalysis,
+  type FormIssue,
   type Phase,
   analyzeForm,
   createPhaseTracker,
 } from "@/lib/form-checker";
+import { type RepRecord, createRepTracker, trackRepFrame } from "@/lib/rep-tracker";
 import type { Landmark } from "./use-pose-detection";
 
 export interface UseFormCheckerReturn {
@@ -16,11 +18,22 @@ export interface UseFormCheckerReturn {
   goodFormCount: number;
   badFormCount: number;
   allMistakes: string[];
-  analyzeLandmarks: (landmarks: Landmark[]) => FormAnalysis | null;
+  reps: RepRecord[];
+  analyzeLandmarks: (landmarks: Landmark[], timestamp?: number) => FormAnalysis | null;
   reset: () => void;
 }
 
-export function useFormChecker(exercise: Exercise): UseFormCheckerReturn {
+export interface UseFormCheckerOptions {
+  // Called once per completed rep with the issues seen during that rep
+  onRepCompleted?: (isGoodForm: boolean, mistakes: FormIssue[], rep: RepRecord) => void;
+  // The user's calibrated thresholds, replacing the exercise defaults
+  thresholds?: ThresholdOverrides | null;
+}
+
+export function useFormChecker(
+  exercise: Exercise,
+  options: UseFormCheckerOptions = {}
+): UseFormCheckerReturn {
   const trackerRef = useRef(createPhaseTracker());
   const [analysis, setAnalysis] = useState<FormAnalysis | null>(null);
   const [currentPhase, setCurrentPhase] = useState<Phase>("standing");
@@ -28,49 +41,72 @@ export function useFormChecker(exercise: Exercise): UseFormCheckerReturn {
   const [goodFormCount, setGoodFormCount] = useState(0);
   const [badFormCount, setBadFormCount] = useState(0);
   const [allMistakes, setAllMistakes] = useState<string[]>([]);
+  const [reps, setReps] = useState<RepRecord[]>([]);
+
+  // Track angles, phase timings and issues accumulated during current rep
+  const repTrackerRef = useRef(createRepTracker());
+
+  // The exercise the trackers hold state for; switching exercise starts them afresh
+  const trackedExerciseRef = useRef(exercise);
 
-  // Track issues accumulated during current rep
-  const currentRepIssuesRef = useRef<Set<string>>(new Set());
+  // Keep the latest callback without re-creating analyzeLandmarks every render
+  const onRepCompletedRef = useRef(options.onRepCompleted);
+  useEffect(() => {
+    onRepCompletedRef.current = options.onRepCompleted;
+  }, [options.onRepCompleted]);
+
+  const thresholdsRef = useRef(options.thresholds);
+  useEffect(() => {
+    thresholdsRef.current = options.thresholds;
+  }, [options.thresholds]);
 
   const analyzeLandmarks = useCallback(
-    (landmarks: Landmark[]): FormAnalysis | null => {
+    (landmarks: Landmark[], timestamp: number = Date.now()): FormAnalysis | null => {
       if (!landmarks || landmarks.length === 0) {
         return null;
       }
 
-      const result = analyzeForm(exercise, landmarks, trackerRef.current);
+      if (trackedExerciseRef.current !== exercise) {
+        trackedExerciseRef.current = exercise;
+        trackerRef.current = createPhaseTracker();
+        repTrackerRef.current = createRepTracker();
+      }
+
+      const result = analyzeForm(
+        exercise,
+        landmarks,
+        trackerRef.current,
+        thresholdsRef.current,
+        timestamp
+      );
 
       setAnalysis(result);
       setCurrentPhase(result.phase);
 
-      // Accumulate issues during the rep
-      if (result.issues.length > 0) {
-        result.issues.forEach((issue) => {
-          currentRepIssuesRef.current.add(issue);
-        });
-      }
+      // Accumulate issues and angles during the rep
+      const rep = trackRepFrame(repTrackerRef.current, result, timestamp);
 
       // Handle rep completion
-      if (result.repCompleted) {
+      if (rep) {
         setRepCount((prev) => prev + 1);
+        setReps((prev) => [...prev, rep]);
 
         // Determine if this was a good or bad rep based on accumulated issues
-        const hadIssues = currentRepIssuesRef.current.size > 0;
+        const repIssues = rep.issues;
+        const hadIssues = repIssues.length > 0;
 
         if (hadIssues) {
           setBadFormCount((prev) => prev + 1);
           // Add unique mistakes to the overall list
           setAllMistakes((prev) => {
-            const newMistakes = Array.from(currentRepIssuesRef.current);
-            const uniqueMistakes = new Set([...prev, ...newMistakes]);
+            const uniqueMistakes = new Set([...prev, ...repIssues]);
             return Array.from(uniqueMistakes);
           });
         } else {
           setGoodFormCount((prev) => prev + 1);
         }
 
-        // Reset issues for next rep
-        currentRepIssuesRef.current.clear();
+        onRepCompletedRef.current?.(!hadIssues, repIssues, rep);
       }
 
       return result;
@@ -80,13 +116,14 @@ export function useFormChecker(exercise: Exercise): UseFormCheckerReturn {
 
   const reset = useCallback(() => {
     trackerRef.current = createPhaseTracker();
-    currentRepIssuesRef.current.clear();
+    repTrackerRef.current = createRepTracker();
     setAnalysis(null);
     setCurrentPhase("standing");
     setRepCount(0);
     setGoodFormCount(0);
     setBadFormCount(0);
     setAllMistakes([]);
+    setReps([]);
   }, []);
 
   return {
@@ -96,6 +133,7 @@ export function useFormChecker(exercise: Exercise): UseFormCheckerReturn {
     goodFormCount,
     badFormCount,
     allMistakes,
+    reps,
     analyzeLandmarks,
     reset,
   };
@@ -2,7 +2,7 @@
 
 import { useRef, useCallback, useState, useEffect } from "react";
 import { AudioPlayer, AudioRecorder, videoFrameToBase64 } from "@/lib/audio-utils";
-import type { ExerciseType } from "@/lib/gemini-config";
+import type { Exercise } from "@/lib/exercises";
 import {
   GeminiLiveClient,
   type GeminiConnectionState,
@@ -10,7 +10,7 @@ import {
 } from "@/lib/gemini-live-client";
 
 export interface UseGeminiLiveOptions {
-  exercise: ExerciseType;
+  exercise: Exercise;
   onError?: (error: Error) => void;
 }
 
@@ -61,6 +61,9 @@ export function useGeminiLive(options: UseGeminiLiveOptions): UseGeminiLiveRetur
   // Fetch session configuration from our API
   const fetchSessionConfig = useCallback(async (): Promise<GeminiSessionResponse> => {
     const response = await fetch(`/api/gemini/session?exercise=${exercise}`);
+    if (response.status === 401) {
+      throw new Error("Sign in to use the AI coach");
+    }
     if (!response.ok) {
       const error = await response.json();
       throw new Error(error.error || "Failed to get session configuration");
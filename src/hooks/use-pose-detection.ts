@@ -1,5 +1,10 @@
 "use client";
 import { useRef, useState, useCallback, useEffect } from "react";
+import {
+  MAX_RECORDING_FRAMES,
+  packLandmarks,
+  type LandmarkFrame,
+} from "@/lib/recording";
 import type {
   WorkerMessageIn,
   WorkerMessageOut,
@@ -20,6 +25,21 @@ export interface UsePoseDetectionReturn {
   initialize: () => void;
   detectPose: (video: HTMLVideoElement) => void;
   destroy: () => void;
+  isRecording: boolean;
+  startRecording: () => void;
+  // Returns the frames captured since startRecording, or null if not recording
+  stopRecording: () => LandmarkRecording | null;
+}
+
+export interface LandmarkRecording {
+  startedAt: number; // Epoch ms of the first frame
+  frames: LandmarkFrame[];
+}
+
+interface ActiveRecording {
+  startedAt: number | null; // Epoch ms of the first frame
+  firstTimestamp: number | null; // Worker timestamp of the first frame
+  frames: LandmarkFrame[];
 }
 
 export function usePoseDetection(): UsePoseDetectionReturn {
@@ -29,6 +49,11 @@ export function usePoseDetection(): UsePoseDetectionReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const frameIdRef = useRef<number | null>(null);
+  // Only one frame in flight at a time so the worker never falls behind the camera
+  const pendingFrameRef = useRef(false);
+  // Timestamped landmark stream of the current set, when recording
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
 
   // Clean up worker on unmount
   useEffect(() => {
@@ -45,6 +70,20 @@ export function usePoseDetection(): UsePoseDetectionReturn {
     };
   }, []);
 
+  const recordFrame = (landmarks: Landmark[], timestamp: number) => {
+    const recording = recordingRef.current;
+    if (!recording || recording.frames.length >= MAX_RECORDING_FRAMES) return;
+
+    if (recording.firstTimestamp === null) {
+      recording.firstTimestamp = timestamp;
+      recording.startedAt = Date.now();
+    }
+    recording.frames.push({
+      t: Math.round(timestamp - recording.firstTimestamp),
+      landmarks: packLandmarks(landmarks),
+    });
+  };
+
   const initialize = useCallback(() => {
     if (workerRef.current || isLoading) {
       return;
@@ -75,10 +114,15 @@ export function usePoseDetection(): UsePoseDetectionReturn {
             break;
 
           case "RESULT":
+            pendingFrameRef.current = false;
             setLandmarks(message.landmarks);
+            if (message.landmarks) {
+              recordFrame(message.landmarks, message.timestamp);
+            }
             break;
 
           case "DETECTION_ERROR":
+            pendingFrameRef.current = false;
             console.warn("Pose detection error:", message.error);
             break;
 
@@ -106,7 +150,7 @@ export function usePoseDetection(): UsePoseDetectionReturn {
   }, [isLoading]);
 
   const detectPose = useCallback((video: HTMLVideoElement) => {
-    if (!workerRef.current || !isReady) {
+    if (!workerRef.current || !isReady || pendingFrameRef.current) {
       return;
     }
 
@@ -115,10 +159,13 @@ export function usePoseDetection(): UsePoseDetectionReturn {
       return;
     }
 
+    pendingFrameRef.current = true;
+
     // Create an ImageBitmap from the video frame
     createImageBitmap(video)
       .then((imageBitmap) => {
         if (!workerRef.current) {
+          pendingFrameRef.current = false;
           imageBitmap.close();
           return;
         }
@@ -132,6 +179,7 @@ export function usePoseDetection(): UsePoseDetectionReturn {
         workerRef.current.postMessage(message, [imageBitmap]);
       })
       .catch((err) => {
+        pendingFrameRef.current = false;
         console.warn("Failed to create ImageBitmap:", err);
       });
   }, [isReady]);
@@ -149,11 +197,28 @@ export function usePoseDetection(): UsePoseDetectionReturn {
       workerRef.current = null;
     }
 
+    pendingFrameRef.current = false;
+    recordingRef.current = null;
+    setIsRecording(false);
     setIsReady(false);
     setLandmarks(null);
     setError(null);
   }, []);
 
+  const startRecording = useCallback(() => {
+    recordingRef.current = { startedAt: null, firstTimestamp: null, frames: [] };
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback((): LandmarkRecording | null => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    if (!recording || recording.startedAt === null) return null;
+    return { startedAt: recording.startedAt, frames: recording.frames };
+  }, []);
+
   return {
     landmarks,
     isReady,
@@ -162,5 +227,8 @@ export function usePoseDetection(): UsePoseDetectionReturn {
     initialize,
     detectPose,
     destroy,
+    isRecording,
+    startRecording,
+    stopRecording,
   };
 }
@@ -1,11 +1,27 @@
 "use client";
-import { useRef, useCallback, useState } from "react";
-import { type FormIssue, VOICE_FEEDBACK } from "@/lib/form-checker";
+import { useRef, useCallback, useEffect, useState } from "react";
+import { useLocale } from "@/contexts/locale-context";
+import { useCueSettings } from "@/hooks/use-cue-settings";
+import { AudioPlayer } from "@/lib/audio-utils";
+import {
+  type CueRequest,
+  clearCues,
+  createCueScheduler,
+  dispatchCue,
+  enqueueCue,
+  finishCue,
+} from "@/lib/cue-scheduler";
+import { EARCONS, type Earcon, getRepEarcon, renderEarcon } from "@/lib/earcons";
+import { type FormIssue, isFormIssue } from "@/lib/form-checker";
+import { GEMINI_CONFIG } from "@/lib/gemini-config";
+import { LOCALE_INFO } from "@/lib/i18n";
+import { CUE_PRIORITY, type VoiceCue, getCueText } from "@/lib/voice-cues";
 
 export interface UseVoiceFeedbackReturn {
   speak: (text: string, key?: string) => void;
+  speakCue: (cue: VoiceCue, params?: Record<string, string | number>) => void;
   speakIssue: (issue: FormIssue) => void;
-  speakRepComplete: (isGoodForm: boolean) => void;
+  speakRepComplete: (isGoodForm: boolean, repNumber?: number) => void;
   stop: () => void;
   isSpeaking: boolean;
   isSupported: boolean;
@@ -13,98 +29,226 @@ export interface UseVoiceFeedbackReturn {
   isEnabled: boolean;
 }
 
-const DEBOUNCE_MS = 3000; // Don't repeat same feedback within 3 seconds
 const REP_FEEDBACK_DEBOUNCE_MS = 1500; // Shorter debounce for rep feedback
 
+// How a cue is played, resolved from the cue settings when it is queued
+interface CuePlayback {
+  text: string; // Spoken in speech mode
+  earcon: Earcon | null; // Played in place of speech
+}
+
 // Check for speech synthesis support (runs once at module load)
 function checkSpeechSupport(): boolean {
   return typeof window !== "undefined" && "speechSynthesis" in window;
 }
 
+// Pick a voice for a BCP 47 tag: the exact locale over the same language,
+// Google/Natural voices over the rest
+function selectVoice(voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | null {
+  const language = lang.split("-")[0] ?? lang;
+  const isNatural = (voice: SpeechSynthesisVoice) =>
+    voice.name.includes("Google") || voice.name.includes("Natural");
+  const exact = voices.filter((voice) => voice.lang.replace("_", "-") === lang);
+  const sameLanguage = voices.filter((voice) => voice.lang.startsWith(language));
+
+  return (
+    exact.find(isNatural) ??
+    exact[0] ??
+    sameLanguage.find(isNatural) ??
+    sameLanguage[0] ??
+    null
+  );
+}
+
 export function useVoiceFeedback(): UseVoiceFeedbackReturn {
-  const lastSpokenRef = useRef<Record<string, number>>({});
+  const { locale } = useLocale();
+  const { settings } = useCueSettings();
+  // Which cue is played when: see lib/cue-scheduler
+  const schedulerRef = useRef(createCueScheduler<CuePlayback>());
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Earcons; created on first use, after the user has interacted with the page
+  const audioPlayerRef = useRef<AudioPlayer | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isEnabled, setEnabled] = useState(true);
 
   // Compute support status on each render (safe since it's synchronous)
   const isSupported = checkSpeechSupport();
 
-  const speak = useCallback(
-    (text: string, key?: string) => {
-      if (!isSupported || !isEnabled) return;
+  // Start the next queued cue if one may start now, or check again once one can
+  const pumpRef = useRef<() => void>(() => {});
+
+  const pump = useCallback(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
 
-      const feedbackKey = key || text;
-      const now = Date.now();
-      const lastSpoken = lastSpokenRef.current[feedbackKey] || 0;
+    const scheduler = schedulerRef.current;
+    const { cue, retryInMs } = dispatchCue(scheduler, Date.now());
+    if (retryInMs !== null) {
+      retryTimerRef.current = setTimeout(() => pumpRef.current(), retryInMs);
+      return;
+    }
+    if (!cue) return;
 
-      if (now - lastSpoken < DEBOUNCE_MS) return;
+    // A cut-off cue also ends here, after the cue that replaced it has started
+    const handleEnd = () => {
+      finishCue(scheduler, cue.id);
+      setIsSpeaking(scheduler.playing !== null);
+      pumpRef.current();
+    };
 
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel();
+    const speakText = () => {
+      if (!checkSpeechSupport()) {
+        handleEnd();
+        return;
+      }
 
-      const utterance = new SpeechSynthesisUtterance(text);
+      const utterance = new SpeechSynthesisUtterance(
+        cue.payloads.map((payload) => payload.text).join(". ")
+      );
       utterance.rate = 1.0;
       utterance.pitch = 1.0;
       utterance.volume = 1.0;
-      utterance.lang = "en-US"; // Always use English
-
-      // Find an English voice - prefer Google/Natural voices, but accept any English voice
-      const voices = window.speechSynthesis.getVoices();
-      const preferredVoice = voices.find(
-        (voice) =>
-          voice.lang.startsWith("en") &&
-          (voice.name.includes("Google") || voice.name.includes("Natural"))
-      );
-      const anyEnglishVoice = voices.find((voice) => voice.lang.startsWith("en"));
+      utterance.lang = LOCALE_INFO[locale].speechLang;
 
-      if (preferredVoice) {
-        utterance.voice = preferredVoice;
-      } else if (anyEnglishVoice) {
-        utterance.voice = anyEnglishVoice;
+      // Without a voice for the language the browser falls back to its default voice
+      const voice = selectVoice(window.speechSynthesis.getVoices(), utterance.lang);
+      if (voice) {
+        utterance.voice = voice;
       }
 
       utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = () => setIsSpeaking(false);
+      utterance.onend = handleEnd;
+      utterance.onerror = handleEnd;
 
       window.speechSynthesis.speak(utterance);
-      lastSpokenRef.current[feedbackKey] = now;
+    };
+
+    const playSamples = (samples: Float32Array) => {
+      audioPlayerRef.current ??= new AudioPlayer();
+      audioPlayerRef.current.playChunk(samples);
+      setIsSpeaking(true);
+      const durationMs = (samples.length / GEMINI_CONFIG.AUDIO_OUTPUT_SAMPLE_RATE) * 1000;
+      setTimeout(handleEnd, durationMs);
+    };
+
+    const [first] = cue.payloads;
+    if (first?.earcon) {
+      playSamples(renderEarcon(first.earcon, GEMINI_CONFIG.AUDIO_OUTPUT_SAMPLE_RATE));
+      return;
+    }
+
+    speakText();
+  }, [locale]);
+
+  useEffect(() => {
+    pumpRef.current = pump;
+  }, [pump]);
+
+  const enqueue = useCallback(
+    (request: CueRequest<CuePlayback>) => {
+      if (!isEnabled) return;
+      // Tones play through Web Audio, so only speech needs speech synthesis
+      if (!isSupported && !request.payload.earcon) return;
+
+      const interrupt = enqueueCue(schedulerRef.current, request, Date.now());
+      if (interrupt) {
+        if (isSupported) {
+          window.speechSynthesis.cancel();
+        }
+        audioPlayerRef.current?.stop();
+      }
+      pumpRef.current();
     },
     [isSupported, isEnabled]
   );
 
+  // How a catalog cue is played in the chosen cue mode
+  const getPlayback = useCallback(
+    (cue: VoiceCue, params?: Record<string, string | number>): CuePlayback => ({
+      text: getCueText(locale, cue, params),
+      earcon: settings.mode === "tones" ? EARCONS[cue] : null,
+    }),
+    [locale, settings.mode]
+  );
+
+  // Speak arbitrary text with the priority of a workout instruction
+  const speak = useCallback(
+    (text: string, key?: string) => {
+      enqueue({
+        key: key || text,
+        payload: { text, earcon: null },
+        priority: "form",
+        mergeable: false,
+      });
+    },
+    [enqueue]
+  );
+
+  // Speak a cue from the catalog in the user's language at its priority
+  const speakCue = useCallback(
+    (cue: VoiceCue, params?: Record<string, string | number>) => {
+      enqueue({
+        key: cue,
+        payload: getPlayback(cue, params),
+        priority: CUE_PRIORITY[cue],
+        mergeable: isFormIssue(cue),
+      });
+    },
+    [enqueue, getPlayback]
+  );
+
   const speakIssue = useCallback(
     (issue: FormIssue) => {
-      const message = VOICE_FEEDBACK[issue];
-      if (message) {
-        speak(message, issue);
-      }
+      speakCue(issue);
     },
-    [speak]
+    [speakCue]
   );
 
   const speakRepComplete = useCallback(
-    (isGoodForm: boolean) => {
-      const now = Date.now();
-      const lastSpoken = lastSpokenRef.current["rep_complete"] || 0;
-
-      if (now - lastSpoken < REP_FEEDBACK_DEBOUNCE_MS) return;
-
-      const message = isGoodForm ? "Good rep!" : "Watch your form";
-      speak(message, "rep_complete");
+    (isGoodForm: boolean, repNumber = 0) => {
+      const cue = isGoodForm ? "good_rep" : "bad_rep";
+      const playback = getPlayback(cue);
+      // Rep beeps replace rep feedback in every mode, with an accent to count by
+      const beep = settings.repBeeps || settings.mode === "tones";
+      enqueue({
+        key: "rep_complete",
+        payload: beep ? { ...playback, earcon: getRepEarcon(isGoodForm, repNumber) } : playback,
+        priority: CUE_PRIORITY[cue],
+        mergeable: false,
+        repeatAfterMs: REP_FEEDBACK_DEBOUNCE_MS,
+      });
     },
-    [speak]
+    [enqueue, getPlayback, settings.repBeeps, settings.mode]
   );
 
   const stop = useCallback(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    clearCues(schedulerRef.current);
+    audioPlayerRef.current?.stop();
     if (isSupported) {
       window.speechSynthesis.cancel();
-      setIsSpeaking(false);
     }
+    setIsSpeaking(false);
   }, [isSupported]);
 
+  // Don't leave a pending cue behind on unmount
+  useEffect(() => {
+    return () => {
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+      audioPlayerRef.current?.stop();
+    };
+  }, []);
+
   return {
     speak,
+    speakCue,
     speakIssue,
     speakRepComplete,
     stop,
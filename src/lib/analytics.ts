@@ -0,0 +1,297 @@
+// Progress analytics computed from saved workouts
+
+import { estimateSetOneRepMax, type OneRepMaxFormula } from "./one-rep-max";
+import type { SetRecord, WeightUnit } from "./sets";
+
+export type AnalyticsSet = Pick<SetRecord, "weight" | "weightUnit" | "goodFormReps">;
+
+export interface AnalyticsWorkout {
+  exerciseType: string;
+  totalReps: number;
+  goodFormReps: number;
+  durationSeconds: number;
+  mistakes: string[];
+  createdAt: Date;
+  sets?: AnalyticsSet[];
+}
+
+export interface WeeklyStats {
+  weekStart: string; // YYYY-MM-DD (Monday, in the user's local time)
+  workouts: number;
+  totalReps: number;
+  goodFormReps: number;
+  goodFormPercentage: number | null; // null for weeks without reps
+}
+
+export interface MistakeCount {
+  mistake: string;
+  count: number; // Number of workouts in which the mistake occurred
+}
+
+export interface PersonalBests {
+  exerciseType: string;
+  mostReps: number;
+  mostGoodFormReps: number;
+  bestFormPercentage: number | null; // Only counted for workouts with enough reps
+  longestDurationSeconds: number;
+  workouts: number;
+}
+
+export interface OneRepMaxPoint {
+  date: string; // YYYY-MM-DD, in the user's local time
+  oneRepMax: number; // Best estimate that day
+}
+
+export interface OneRepMaxProgress {
+  exerciseType: string;
+  unit: WeightUnit; // The unit most recently used for this exercise
+  best: number; // All-time best estimate
+  bestDate: string;
+  points: OneRepMaxPoint[]; // Days within the analytics window, oldest first
+}
+
+export interface Streaks {
+  current: number; // Consecutive days with a workout, ending today or yesterday
+  longest: number;
+}
+
+export interface WorkoutAnalytics {
+  totalWorkouts: number;
+  totalReps: number;
+  weekly: WeeklyStats[];
+  topMistakes: Record<string, MistakeCount[]>;
+  personalBests: PersonalBests[];
+  oneRepMax: OneRepMaxProgress[];
+  streaks: Streaks;
+}
+
+export interface AnalyticsOptions {
+  weeks: number;
+  timezoneOffsetMinutes: number; // As returned by Date.getTimezoneOffset() on the client
+  formula?: OneRepMaxFormula;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_MISTAKES_PER_EXERCISE = 3;
+// Ignore tiny sets so one perfect rep doesn't become the form record
+const MIN_REPS_FOR_FORM_BEST = 5;
+
+function getPercentage(part: number, total: number): number | null {
+  if (total === 0) return null;
+  return Math.round((part / total) * 100);
+}
+
+// Day number in the user's local time (days since the epoch)
+function toLocalDay(date: Date, timezoneOffsetMinutes: number): number {
+  return Math.floor((date.getTime() - timezoneOffsetMinutes * 60 * 1000) / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Local day number of the Monday starting the week containing `day`
+function toWeekStart(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  const weekday = (day + 3) % 7; // 0 = Monday
+  return day - weekday;
+}
+
+function computeWeekly(
+  workouts: AnalyticsWorkout[],
+  weeks: number,
+  today: number,
+  timezoneOffsetMinutes: number
+): WeeklyStats[] {
+  const currentWeek = toWeekStart(today);
+  const firstWeek = currentWeek - (weeks - 1) * 7;
+  const buckets = new Map<number, { workouts: number; totalReps: number; goodFormReps: number }>();
+
+  for (let week = firstWeek; week <= currentWeek; week += 7) {
+    buckets.set(week, { workouts: 0, totalReps: 0, goodFormReps: 0 });
+  }
+
+  for (const w of workouts) {
+    const bucket = buckets.get(toWeekStart(toLocalDay(w.createdAt, timezoneOffsetMinutes)));
+    if (!bucket) continue;
+    bucket.workouts += 1;
+    bucket.totalReps += w.totalReps;
+    bucket.goodFormReps += w.goodFormReps;
+  }
+
+  return Array.from(buckets, ([week, bucket]) => ({
+    weekStart: formatDay(week),
+    ...bucket,
+    goodFormPercentage: getPercentage(bucket.goodFormReps, bucket.totalReps),
+  }));
+}
+
+function computeTopMistakes(workouts: AnalyticsWorkout[]): Record<string, MistakeCount[]> {
+  const counts = new Map<string, Map<string, number>>();
+
+  for (const w of workouts) {
+    const exerciseCounts = counts.get(w.exerciseType) ?? new Map<string, number>();
+    for (const mistake of new Set(w.mistakes)) {
+      exerciseCounts.set(mistake, (exerciseCounts.get(mistake) ?? 0) + 1);
+    }
+    counts.set(w.exerciseType, exerciseCounts);
+  }
+
+  const result: Record<string, MistakeCount[]> = {};
+  for (const [exerciseType, exerciseCounts] of counts) {
+    const top = Array.from(exerciseCounts, ([mistake, count]) => ({ mistake, count }))
+      .sort((a, b) => b.count - a.count || a.mistake.localeCompare(b.mistake))
+      .slice(0, TOP_MISTAKES_PER_EXERCISE);
+    if (top.length > 0) {
+      result[exerciseType] = top;
+    }
+  }
+  return result;
+}
+
+function computePersonalBests(workouts: AnalyticsWorkout[]): PersonalBests[] {
+  const bests = new Map<string, PersonalBests>();
+
+  for (const w of workouts) {
+    const best = bests.get(w.exerciseType) ?? {
+      exerciseType: w.exerciseType,
+      mostReps: 0,
+      mostGoodFormReps: 0,
+      bestFormPercentage: null,
+      longestDurationSeconds: 0,
+      workouts: 0,
+    };
+
+    best.workouts += 1;
+    best.mostReps = Math.max(best.mostReps, w.totalReps);
+    best.mostGoodFormReps = Math.max(best.mostGoodFormReps, w.goodFormReps);
+    best.longestDurationSeconds = Math.max(best.longestDurationSeconds, w.durationSeconds);
+
+    if (w.totalReps >= MIN_REPS_FOR_FORM_BEST) {
+      const percentage = getPercentage(w.goodFormReps, w.totalReps) ?? 0;
+      best.bestFormPercentage = Math.max(best.bestFormPercentage ?? 0, percentage);
+    }
+
+    bests.set(w.exerciseType, best);
+  }
+
+  return Array.from(bests.values()).sort((a, b) => b.workouts - a.workouts);
+}
+
+function roundWeight(weight: number): number {
+  return Math.round(weight * 10) / 10;
+}
+
+function computeOneRepMax(
+  workouts: AnalyticsWorkout[],
+  firstDay: number,
+  timezoneOffsetMinutes: number,
+  formula: OneRepMaxFormula
+): OneRepMaxProgress[] {
+  const byExercise = new Map<string, { unit: WeightUnit; workouts: AnalyticsWorkout[] }>();
+
+  const sorted = [...workouts].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const w of sorted) {
+    const loaded = (w.sets ?? []).filter((set) => set.weight !== null);
+    const last = loaded[loaded.length - 1];
+    if (!last) continue;
+
+    const entry = byExercise.get(w.exerciseType) ?? { unit: last.weightUnit, workouts: [] };
+    entry.unit = last.weightUnit;
+    entry.workouts.push(w);
+    byExercise.set(w.exerciseType, entry);
+  }
+
+  const result: OneRepMaxProgress[] = [];
+  for (const [exerciseType, { unit, workouts: exerciseWorkouts }] of byExercise) {
+    const bestByDay = new Map<number, number>();
+    for (const w of exerciseWorkouts) {
+      for (const set of w.sets ?? []) {
+        const estimate = estimateSetOneRepMax(set, unit, formula);
+        if (estimate === null) continue;
+        const day = toLocalDay(w.createdAt, timezoneOffsetMinutes);
+        bestByDay.set(day, Math.max(bestByDay.get(day) ?? 0, estimate));
+      }
+    }
+
+    let best: { day: number; oneRepMax: number } | null = null;
+    for (const [day, oneRepMax] of bestByDay) {
+      if (!best || oneRepMax > best.oneRepMax) best = { day, oneRepMax };
+    }
+    if (!best) continue;
+
+    result.push({
+      exerciseType,
+      unit,
+      best: roundWeight(best.oneRepMax),
+      bestDate: formatDay(best.day),
+      points: Array.from(bestByDay)
+        .filter(([day]) => day >= firstDay)
+        .map(([day, oneRepMax]) => ({ date: formatDay(day), oneRepMax: roundWeight(oneRepMax) })),
+    });
+  }
+
+  return result;
+}
+
+function computeStreaks(
+  workouts: AnalyticsWorkout[],
+  today: number,
+  timezoneOffsetMinutes: number
+): Streaks {
+  const days = Array.from(
+    new Set(workouts.map((w) => toLocalDay(w.createdAt, timezoneOffsetMinutes)))
+  ).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const day of days) {
+    run = previous !== null && day === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  // The current streak survives until the end of the day after the last workout
+  const current = previous !== null && previous >= today - 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Format a week start or day (YYYY-MM-DD) as a short label like "Mar 3"
+ */
+export function formatWeekLabel(weekStart: string): string {
+  return new Date(`${weekStart}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Compute progress analytics for a user's workouts
+ */
+export function computeWorkoutAnalytics(
+  workouts: AnalyticsWorkout[],
+  options: AnalyticsOptions
+): WorkoutAnalytics {
+  const today = toLocalDay(options.now ?? new Date(), options.timezoneOffsetMinutes);
+  const firstDay = toWeekStart(today) - (options.weeks - 1) * 7;
+
+  return {
+    totalWorkouts: workouts.length,
+    totalReps: workouts.reduce((sum, w) => sum + w.totalReps, 0),
+    weekly: computeWeekly(workouts, options.weeks, today, options.timezoneOffsetMinutes),
+    topMistakes: computeTopMistakes(workouts),
+    personalBests: computePersonalBests(workouts),
+    oneRepMax: computeOneRepMax(
+      workouts,
+      firstDay,
+      options.timezoneOffsetMinutes,
+      options.formula ?? "epley"
+    ),
+    streaks: computeStreaks(workouts, today, options.timezoneOffsetMinutes),
+  };
+}
@@ -52,7 +52,7 @@ export function base64PCMToFloat32(base64: string): Float32Array {
 
 /**
  * Audio playback manager using Web Audio API
- * Plays back audio chunks received from Gemini
+ * Plays back audio chunks received from Gemini, and synthesized coaching cues
  */
 export class AudioPlayer {
   private audioContext: AudioContext | null = null;
@@ -0,0 +1,124 @@
+// Per-user calibration of form thresholds
+// A lifter records a few reference reps with their best form; every threshold
+// with a calibration rule is moved to sit just outside the range they showed,
+// so body proportions and mobility stop being flagged as mistakes.
+
+import { getExerciseDefinition, type Exercise, type ThresholdOverrides } from "./exercises";
+import { analyzeWithDefinition, createPhaseTracker, type FrameContext } from "./form-checker";
+import { unpackLandmarks, type LandmarkFrame } from "./recording";
+
+// Reference reps recorded before thresholds are derived
+export const CALIBRATION_REPS = 3;
+
+// Rules measured on fewer frames than this keep their default threshold
+const MIN_MEASURED_FRAMES = 10;
+
+// Ignore the most extreme 5% of frames so a single jittery frame can't skew the result
+const OUTLIER_SHARE = 0.05;
+
+export interface CalibratedThreshold {
+  threshold: string;
+  label: string;
+  defaultValue: number;
+  value: number;
+}
+
+export interface CalibrationResult {
+  repCount: number;
+  thresholds: CalibratedThreshold[]; // Only thresholds that had enough frames to measure
+}
+
+function percentile(values: number[], share: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(share * (sorted.length - 1))));
+  return sorted[index] ?? 0;
+}
+
+function roundFor(margin: number, value: number): number {
+  return margin < 1 ? Math.round(value * 100) / 100 : Math.round(value);
+}
+
+/**
+ * Derive personalized thresholds from a recording of reference reps.
+ * Phases are detected with the default thresholds, and each rule only measures
+ * frames filmed from a camera angle its check can judge. Rules measure the same
+ * smoothed points and angles the checks are later judged on.
+ */
+export function deriveThresholds(exercise: Exercise, frames: LandmarkFrame[]): CalibrationResult {
+  const definition = getExerciseDefinition(exercise);
+  const tracker = createPhaseTracker();
+  const measured = new Map<string, number[]>();
+  let repCount = 0;
+
+  for (const frame of frames) {
+    const landmarks = unpackLandmarks(frame.landmarks);
+    const analysis = analyzeWithDefinition(definition, landmarks, tracker, null, frame.t);
+    if (analysis.repCompleted) repCount++;
+    if (!analysis.inFrame || !tracker.lastFrame) continue;
+
+    const context: FrameContext = {
+      ...tracker.lastFrame,
+      phase: analysis.phase,
+      view: analysis.view,
+      tracker,
+      thresholds: definition.thresholds,
+    };
+    for (const rule of definition.calibration) {
+      if (!rule.phases.includes(analysis.phase) || !rule.views.includes(analysis.view)) continue;
+      const value = rule.measure(context);
+      if (!Number.isFinite(value)) continue;
+
+      const values = measured.get(rule.threshold);
+      if (values) {
+        values.push(value);
+      } else {
+        measured.set(rule.threshold, [value]);
+      }
+    }
+  }
+
+  const thresholds: CalibratedThreshold[] = [];
+  for (const rule of definition.calibration) {
+    const values = measured.get(rule.threshold) ?? [];
+    const defaultValue = definition.thresholds[rule.threshold];
+    if (values.length < MIN_MEASURED_FRAMES || defaultValue === undefined) continue;
+
+    const [min, max] = rule.limits;
+    const raw =
+      rule.bound === "upper"
+        ? percentile(values, 1 - OUTLIER_SHARE) + rule.margin
+        : percentile(values, OUTLIER_SHARE) - rule.margin;
+    thresholds.push({
+      threshold: rule.threshold,
+      label: rule.label,
+      defaultValue,
+      value: roundFor(rule.margin, Math.min(max, Math.max(min, raw))),
+    });
+  }
+
+  return { repCount, thresholds };
+}
+
+/**
+ * Check calibrated values against the exercise's rules
+ *
+ * @returns An error message, or null when every value is a calibratable threshold within its limits
+ */
+export function validateCalibration(
+  exercise: Exercise,
+  thresholds: ThresholdOverrides
+): string | null {
+  const rules = getExerciseDefinition(exercise).calibration;
+
+  for (const [key, value] of Object.entries(thresholds)) {
+    const rule = rules.find((r) => r.threshold === key);
+    if (!rule) {
+      return `${key} can't be calibrated`;
+    }
+    const [min, max] = rule.limits;
+    if (value === undefined || value < min || value > max) {
+      return `${rule.label} must be between ${min} and ${max}`;
+    }
+  }
+  return null;
+}
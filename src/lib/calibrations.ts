@@ -0,0 +1,72 @@
+// Stored form calibrations shared by the API routes and pages
+
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "./db";
+import { formCalibration } from "./schema";
+
+export type FormCalibrationRow = typeof formCalibration.$inferSelect;
+
+/**
+ * List every exercise a user has calibrated
+ */
+export async function listCalibrations(userId: string): Promise<FormCalibrationRow[]> {
+  return db
+    .select()
+    .from(formCalibration)
+    .where(eq(formCalibration.userId, userId))
+    .orderBy(asc(formCalibration.exerciseType));
+}
+
+/**
+ * Get a user's calibration for one exercise
+ */
+export async function getCalibration(
+  userId: string,
+  exerciseType: string
+): Promise<FormCalibrationRow | null> {
+  const [row] = await db
+    .select()
+    .from(formCalibration)
+    .where(
+      and(eq(formCalibration.userId, userId), eq(formCalibration.exerciseType, exerciseType))
+    );
+  return row ?? null;
+}
+
+/**
+ * Store a user's calibration for an exercise, replacing any earlier one
+ */
+export async function saveCalibration(
+  userId: string,
+  exerciseType: string,
+  thresholds: Record<string, number>,
+  repCount: number
+): Promise<FormCalibrationRow> {
+  const [row] = await db
+    .insert(formCalibration)
+    .values({ userId, exerciseType, thresholds, repCount })
+    .onConflictDoUpdate({
+      target: [formCalibration.userId, formCalibration.exerciseType],
+      set: { thresholds, repCount, updatedAt: new Date() },
+    })
+    .returning();
+  if (!row) {
+    throw new Error("Failed to save calibration");
+  }
+  return row;
+}
+
+/**
+ * Remove a user's calibration so the exercise falls back to the default thresholds
+ *
+ * @returns Whether there was a calibration to remove
+ */
+export async function deleteCalibration(userId: string, exerciseType: string): Promise<boolean> {
+  const deleted = await db
+    .delete(formCalibration)
+    .where(
+      and(eq(formCalibration.userId, userId), eq(formCalibration.exerciseType, exerciseType))
+    )
+    .returning({ id: formCalibration.id });
+  return deleted.length > 0;
+}
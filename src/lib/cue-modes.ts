@@ -0,0 +1,23 @@
+// How coaching cues are played on this device
+
+// speech: speech synthesis; tones: earcons
+export const CUE_MODES = ["speech", "tones"] as const;
+
+export type CueMode = (typeof CUE_MODES)[number];
+
+export interface CueSettings {
+  mode: CueMode;
+  repBeeps: boolean; // A beep for every rep in place of spoken rep feedback, whatever the mode
+}
+
+export const DEFAULT_CUE_SETTINGS: CueSettings = {
+  mode: "speech",
+  repBeeps: false,
+};
+
+/**
+ * Check whether a value is a cue mode
+ */
+export function isCueMode(value: string | null | undefined): value is CueMode {
+  return value !== null && value !== undefined && (CUE_MODES as readonly string[]).includes(value);
+}
@@ -0,0 +1,162 @@
+// Coaching cue scheduling
+// Decides which cue is played and when. Cues wait in a queue ranked by
+// priority, form corrections that arrive together are played as one, cues
+// are spaced out by a global rate, and a cue is only ever cut off by a more
+// urgent one. Playing a cue, as speech, a clip or a tone, is left to the caller.
+
+import { CUE_PRIORITIES, type CuePriority } from "./voice-cues";
+
+export interface CueRequest<T> {
+  key: string; // The same key is queued once and not repeated within repeatAfterMs
+  payload: T; // What to play
+  priority: CuePriority;
+  mergeable: boolean; // Form corrections that can be played together with others
+  repeatAfterMs?: number; // Defaults to REPEAT_MS
+}
+
+interface QueuedCue<T> extends CueRequest<T> {
+  queuedAt: number;
+}
+
+export interface ScheduledCue<T> {
+  id: number;
+  keys: string[]; // Every request played together
+  payloads: T[]; // Most urgent first
+  priority: CuePriority;
+  startedAt: number;
+}
+
+export interface CueScheduler<T> {
+  queue: QueuedCue<T>[];
+  playing: ScheduledCue<T> | null;
+  lastStarted: ScheduledCue<T> | null;
+  lastPlayedAt: Record<string, number>; // By request key
+  nextId: number;
+}
+
+export interface CueDispatch<T> {
+  cue: ScheduledCue<T> | null; // Start playing this now
+  retryInMs: number | null; // Nothing can start yet; dispatch again after this long
+}
+
+// The same cue isn't repeated within this time
+const REPEAT_MS = 3000;
+// At most one cue starts in this time, unless a more urgent one cuts in
+const MIN_CUE_INTERVAL_MS = 2000;
+// Corrections played together as one cue
+const MAX_MERGED_CUES = 2;
+// How long a cue stays worth saying while it waits; praise for a rep goes stale fastest
+const QUEUE_TTL_MS: Record<CuePriority, number> = {
+  safety: 4000,
+  form: 2500,
+  encouragement: 1000,
+};
+// A cue that never reports finishing is treated as done after this long
+const MAX_CUE_DURATION_MS = 8000;
+
+// Lower rank = more urgent
+function rank(priority: CuePriority): number {
+  return CUE_PRIORITIES.indexOf(priority);
+}
+
+// Create a scheduler with nothing queued
+export function createCueScheduler<T>(): CueScheduler<T> {
+  return { queue: [], playing: null, lastStarted: null, lastPlayedAt: {}, nextId: 1 };
+}
+
+/**
+ * Queue a cue.
+ * A cue played recently is dropped, and one already waiting is refreshed rather
+ * than queued twice.
+ *
+ * @returns true when the cue outranks the one being played, which the caller
+ * should cut off; the scheduler already treats it as finished
+ */
+export function enqueueCue<T>(
+  scheduler: CueScheduler<T>,
+  request: CueRequest<T>,
+  now: number
+): boolean {
+  const lastPlayed = scheduler.lastPlayedAt[request.key];
+  if (lastPlayed !== undefined && now - lastPlayed < (request.repeatAfterMs ?? REPEAT_MS)) {
+    return false;
+  }
+
+  const queued = scheduler.queue.find((entry) => entry.key === request.key);
+  if (queued) {
+    Object.assign(queued, request, { queuedAt: now });
+  } else {
+    scheduler.queue.push({ ...request, queuedAt: now });
+  }
+
+  const playing = scheduler.playing;
+  if (playing && rank(request.priority) < rank(playing.priority)) {
+    scheduler.playing = null;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Pick the next cue to play.
+ * Stale cues are dropped first. Nothing starts while a cue is being played,
+ * or within the global interval of the last one unless it is more urgent.
+ */
+export function dispatchCue<T>(scheduler: CueScheduler<T>, now: number): CueDispatch<T> {
+  if (scheduler.playing && now - scheduler.playing.startedAt >= MAX_CUE_DURATION_MS) {
+    scheduler.playing = null;
+  }
+
+  scheduler.queue = scheduler.queue
+    .filter((entry) => now - entry.queuedAt < QUEUE_TTL_MS[entry.priority])
+    .sort((a, b) => rank(a.priority) - rank(b.priority) || a.queuedAt - b.queuedAt);
+
+  const next = scheduler.queue[0];
+  if (!next || scheduler.playing) {
+    return { cue: null, retryInMs: null };
+  }
+
+  const last = scheduler.lastStarted;
+  if (last && rank(next.priority) >= rank(last.priority)) {
+    const wait = last.startedAt + MIN_CUE_INTERVAL_MS - now;
+    if (wait > 0) {
+      return { cue: null, retryInMs: wait };
+    }
+  }
+
+  // Concurrent corrections are played together, most urgent first
+  const entries = next.mergeable
+    ? scheduler.queue.filter((entry) => entry.mergeable).slice(0, MAX_MERGED_CUES)
+    : [next];
+  scheduler.queue = scheduler.queue.filter((entry) => !entries.includes(entry));
+
+  const cue: ScheduledCue<T> = {
+    id: scheduler.nextId++,
+    keys: entries.map((entry) => entry.key),
+    payloads: entries.map((entry) => entry.payload),
+    priority: next.priority,
+    startedAt: now,
+  };
+  for (const key of cue.keys) {
+    scheduler.lastPlayedAt[key] = now;
+  }
+  scheduler.playing = cue;
+  scheduler.lastStarted = cue;
+  return { cue, retryInMs: null };
+}
+
+/**
+ * Mark a cue as finished playing.
+ * Ignored for a cue that was already cut off.
+ */
+export function finishCue<T>(scheduler: CueScheduler<T>, id: number): void {
+  if (scheduler.playing?.id === id) {
+    scheduler.playing = null;
+  }
+}
+
+// Drop everything queued and forget the cue being played
+export function clearCues<T>(scheduler: CueScheduler<T>): void {
+  scheduler.queue = [];
+  scheduler.playing = null;
+}
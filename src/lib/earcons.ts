@@ -0,0 +1,117 @@
+// Earcons: short tone patterns that stand in for spoken cues
+// Tones cut through gym noise better than speech and sound the same in every
+// browser. Form issues are told apart by urgency rather than one by one: a
+// falling two-tone alarm for safety, a double beep for other corrections.
+
+import type { VoiceCue } from "./voice-cues";
+
+export interface Tone {
+  frequency: number; // Hz
+  durationMs: number;
+  gapMs?: number; // Silence before the next tone
+}
+
+export type Earcon = readonly Tone[];
+
+const SAFETY_EARCON: Earcon = [
+  { frequency: 880, durationMs: 120, gapMs: 40 },
+  { frequency: 660, durationMs: 120, gapMs: 40 },
+  { frequency: 880, durationMs: 120, gapMs: 40 },
+  { frequency: 660, durationMs: 160 },
+];
+
+const FORM_EARCON: Earcon = [
+  { frequency: 660, durationMs: 90, gapMs: 60 },
+  { frequency: 660, durationMs: 90 },
+];
+
+// Rising C major arpeggio
+const SET_COMPLETE_EARCON: Earcon = [
+  { frequency: 523, durationMs: 120, gapMs: 30 },
+  { frequency: 659, durationMs: 120, gapMs: 30 },
+  { frequency: 784, durationMs: 200 },
+];
+
+export const EARCONS: Record<VoiceCue, Earcon> = {
+  knees_caving: SAFETY_EARCON,
+  rounded_back: SAFETY_EARCON,
+  back_arch: SAFETY_EARCON,
+  hip_sag: SAFETY_EARCON,
+  front_knee_over_toes: SAFETY_EARCON,
+  not_deep_enough: FORM_EARCON,
+  too_deep: FORM_EARCON,
+  forward_lean: FORM_EARCON,
+  knees_too_far_forward: FORM_EARCON,
+  lockout_incomplete: FORM_EARCON,
+  torso_not_upright: FORM_EARCON,
+  press_lockout_incomplete: FORM_EARCON,
+  elbow_drift: FORM_EARCON,
+  swinging: FORM_EARCON,
+  good_rep: [{ frequency: 1320, durationMs: 70 }],
+  bad_rep: [{ frequency: 330, durationMs: 150 }],
+  out_of_frame: [
+    { frequency: 440, durationMs: 200, gapMs: 80 },
+    { frequency: 440, durationMs: 200 },
+  ],
+  set_complete: SET_COMPLETE_EARCON,
+  set_complete_open_rest: SET_COMPLETE_EARCON,
+  next_set: [
+    { frequency: 784, durationMs: 100, gapMs: 40 },
+    { frequency: 1047, durationMs: 160 },
+  ],
+  exercise_detected: [
+    { frequency: 659, durationMs: 90, gapMs: 30 },
+    { frequency: 988, durationMs: 140 },
+  ],
+  // Long and falling, like the pace it asks for
+  slow_down: [
+    { frequency: 587, durationMs: 300, gapMs: 60 },
+    { frequency: 440, durationMs: 400 },
+  ],
+};
+
+// Every fifth rep gets an accent so reps can be counted by ear
+const REP_ACCENT_EVERY = 5;
+const REP_ACCENT: Earcon = [
+  { frequency: 1320, durationMs: 70, gapMs: 50 },
+  { frequency: 1760, durationMs: 110 },
+];
+
+// Peak amplitude, leaving headroom under speech and music
+const TONE_VOLUME = 0.4;
+// Fade in and out of each tone, so it starts and stops without a click
+const TONE_RAMP_MS = 5;
+
+/**
+ * The earcon for a finished rep: a high blip for good form, a low one for bad,
+ * with an accent on every fifth good rep
+ */
+export function getRepEarcon(isGoodForm: boolean, repNumber: number): Earcon {
+  if (!isGoodForm) return EARCONS.bad_rep;
+  return repNumber > 0 && repNumber % REP_ACCENT_EVERY === 0 ? REP_ACCENT : EARCONS.good_rep;
+}
+
+/**
+ * Render an earcon to mono samples at a sample rate
+ */
+export function renderEarcon(earcon: Earcon, sampleRate: number): Float32Array {
+  const toSamples = (ms: number) => Math.round((ms / 1000) * sampleRate);
+  const total = earcon.reduce(
+    (sum, tone) => sum + toSamples(tone.durationMs) + toSamples(tone.gapMs ?? 0),
+    0
+  );
+  const samples = new Float32Array(total);
+  const ramp = toSamples(TONE_RAMP_MS);
+
+  let offset = 0;
+  for (const tone of earcon) {
+    const length = toSamples(tone.durationMs);
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.min(1, i / ramp, (length - i) / ramp);
+      samples[offset + i] =
+        TONE_VOLUME * envelope * Math.sin((2 * Math.PI * tone.frequency * i) / sampleRate);
+    }
+    offset += length + toSamples(tone.gapMs ?? 0);
+  }
+  return samples;
+}
@@ -20,6 +20,9 @@ const serverEnvSchema = z.object({
   // AI
   OPENROUTER_API_KEY: z.string().optional(),
   OPENROUTER_MODEL: z.string().default("openai/gpt-5-mini"),
+  GEMINI_API_KEY: z.string().optional(),
+  GEMINI_BACKEND: z.enum(["live", "mock"]).default("live"),
+  GEMINI_RELAY_URL: z.string().url().optional(),
 
   // Storage
   BLOB_READ_WRITE_TOKEN: z.string().optional(),
@@ -104,6 +107,10 @@ export function checkEnv(): void {
     warnings.push("OPENROUTER_API_KEY is not set. AI chat will not work.");
   }
 
+  if (!process.env.GEMINI_API_KEY) {
+    warnings.push("GEMINI_API_KEY is not set. The live AI coach will not work.");
+  }
+
   if (!process.env.BLOB_READ_WRITE_TOKEN) {
     warnings.push("BLOB_READ_WRITE_TOKEN is not set. Using local storage for file uploads.");
   }
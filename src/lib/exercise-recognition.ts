@@ -0,0 +1,179 @@
+// Exercise recognition from the landmark stream
+// Classifies the last few seconds of pose landmarks as one of the supported
+// exercises, or as idle between sets, from how the body moves rather than
+// from any single pose. Used to pick the form analyzer without the user
+// choosing an exercise first.
+
+import { getBodyAngles, getBodyPoints } from "./form-checker";
+import { BODY_PARTS, getDistance, getHiddenBodyParts } from "./pose-utils";
+import type { Exercise } from "./exercises";
+
+type Landmark = { x: number; y: number; z?: number; visibility?: number };
+
+// What the lifter is doing: a supported exercise, or nothing (resting, walking about)
+export type Activity = Exercise | "idle";
+
+// The measurements of one frame the classifier works from
+export interface FrameFeatures {
+  elbowAngle: number;
+  torsoAngle: number; // Lean from vertical
+  shoulderY: number;
+  hipY: number;
+  torsoLength: number; // Shoulder-to-hip distance, the unit the other lengths are compared in
+  wristHeight: number; // Wrists above the shoulders, in torso lengths
+  stance: number; // Horizontal distance between the ankles, in torso lengths
+}
+
+export interface RecognitionFrame<T extends Landmark = Landmark> {
+  t: number; // Timestamp in ms
+  landmarks: T[];
+  features: FrameFeatures;
+}
+
+export interface ExerciseRecognizer<T extends Landmark = Landmark> {
+  frames: RecognitionFrame<T>[]; // In-view frames within the window, oldest first
+  activity: Activity | null; // Confirmed activity, null until the first window is classified
+  candidate: Activity | null; // A different activity the latest windows were classified as
+  candidateSince: number | null;
+}
+
+export interface Recognition {
+  activity: Activity | null;
+  changed: boolean; // The confirmed activity changed on this frame
+}
+
+// Stretch of the stream each window covers: long enough to hold one slow rep
+const WINDOW_MS = 2500;
+// Share of the window that must be filled with in-view frames before it is classified
+const MIN_WINDOW_COVERAGE = 0.8;
+// How long a new classification must hold before the activity switches to it
+const CONFIRM_MS = 1000;
+// Every exercise is judged with the whole body in view
+const REQUIRED_LANDMARKS = Object.values(BODY_PARTS).flat();
+
+// Shoulders rise and fall by at least this many torso lengths in every lower-body lift,
+// but not when walking or shifting weight
+const MIN_SHOULDER_TRAVEL = 0.15;
+// Elbow range of motion in degrees that counts as an arm exercise
+const MIN_ELBOW_RANGE = 45;
+// Torso lean that never drops below this for the whole window means the body is horizontal
+const HORIZONTAL_TORSO_ANGLE = 55;
+// Ankles this many torso lengths apart are a split stance
+const LUNGE_STANCE = 1;
+// Hips dropping less than this share of the shoulder drop is a hip hinge, not a squat
+const HINGE_HIP_TRAVEL_RATIO = 0.5;
+// Wrists this many torso lengths above the shoulders are pressing overhead
+const OVERHEAD_WRIST_HEIGHT = 0.5;
+
+// Create a recognizer with an empty window
+export function createExerciseRecognizer<
+  T extends Landmark = Landmark,
+>(): ExerciseRecognizer<T> {
+  return { frames: [], activity: null, candidate: null, candidateSince: null };
+}
+
+/**
+ * Measure the features of one frame
+ *
+ * @returns null when part of the body is out of view
+ */
+export function getFrameFeatures(landmarks: Landmark[]): FrameFeatures | null {
+  if (getHiddenBodyParts(landmarks, REQUIRED_LANDMARKS).length > 0) {
+    return null;
+  }
+
+  const points = getBodyPoints(landmarks);
+  const angles = getBodyAngles(points);
+  const torsoLength = getDistance(points.shoulder, points.hip);
+  if (torsoLength === 0) return null;
+
+  return {
+    elbowAngle: angles.elbowAngle,
+    torsoAngle: angles.torsoAngle,
+    shoulderY: points.shoulder.y,
+    hipY: points.hip.y,
+    torsoLength,
+    wristHeight: (points.shoulder.y - points.wrist.y) / torsoLength,
+    stance: Math.abs(points.leftAnkle.x - points.rightAnkle.x) / torsoLength,
+  };
+}
+
+function range(values: number[]): number {
+  return Math.max(...values) - Math.min(...values);
+}
+
+/**
+ * Classify a window of frames.
+ * The checks run from the most to the least distinctive: a horizontal body
+ * is a push-up, lowering the shoulders is a lower-body lift told apart by
+ * stance and how far the hips follow, and bending the elbows while standing
+ * still is an arm exercise told apart by where the wrists go.
+ */
+export function classifyWindow(frames: FrameFeatures[]): Activity {
+  if (frames.length === 0) return "idle";
+
+  const torsoLength = frames.reduce((sum, frame) => sum + frame.torsoLength, 0) / frames.length;
+  const shoulderTravel = range(frames.map((frame) => frame.shoulderY)) / torsoLength;
+  const hipTravel = range(frames.map((frame) => frame.hipY)) / torsoLength;
+  const elbowRange = range(frames.map((frame) => frame.elbowAngle));
+
+  if (Math.min(...frames.map((frame) => frame.torsoAngle)) >= HORIZONTAL_TORSO_ANGLE) {
+    return elbowRange >= MIN_ELBOW_RANGE ? "push_up" : "idle";
+  }
+
+  if (shoulderTravel >= MIN_SHOULDER_TRAVEL) {
+    if (Math.max(...frames.map((frame) => frame.stance)) >= LUNGE_STANCE) return "lunge";
+    return hipTravel < shoulderTravel * HINGE_HIP_TRAVEL_RATIO ? "deadlift" : "squat";
+  }
+
+  if (elbowRange >= MIN_ELBOW_RANGE) {
+    const wristHeight = Math.max(...frames.map((frame) => frame.wristHeight));
+    return wristHeight >= OVERHEAD_WRIST_HEIGHT ? "overhead_press" : "bicep_curl";
+  }
+
+  return "idle";
+}
+
+/**
+ * Add a frame to the window and update the recognized activity.
+ * Frames with part of the body out of view are left out; the activity holds
+ * until the window has filled up again.
+ */
+export function recognizeFrame<T extends Landmark>(
+  recognizer: ExerciseRecognizer<T>,
+  landmarks: T[],
+  timestamp: number
+): Recognition {
+  const features = getFrameFeatures(landmarks);
+  if (features) {
+    recognizer.frames.push({ t: timestamp, landmarks, features });
+  }
+  recognizer.frames = recognizer.frames.filter((frame) => timestamp - frame.t <= WINDOW_MS);
+
+  const first = recognizer.frames[0];
+  if (!first || timestamp - first.t < WINDOW_MS * MIN_WINDOW_COVERAGE) {
+    recognizer.candidate = null;
+    recognizer.candidateSince = null;
+    return { activity: recognizer.activity, changed: false };
+  }
+
+  const classified = classifyWindow(recognizer.frames.map((frame) => frame.features));
+  if (classified === recognizer.activity) {
+    recognizer.candidate = null;
+    recognizer.candidateSince = null;
+    return { activity: recognizer.activity, changed: false };
+  }
+
+  if (classified !== recognizer.candidate || recognizer.candidateSince === null) {
+    recognizer.candidate = classified;
+    recognizer.candidateSince = timestamp;
+  }
+  if (timestamp - recognizer.candidateSince < CONFIRM_MS) {
+    return { activity: recognizer.activity, changed: false };
+  }
+
+  recognizer.activity = classified;
+  recognizer.candidate = null;
+  recognizer.candidateSince = null;
+  return { activity: classified, changed: true };
+}
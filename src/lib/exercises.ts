@@ -0,0 +1,661 @@
+// Exercise registry for GymCoach
+// Each entry declares everything the app needs to support an exercise:
+// the landmarks it relies on, how reps are split into phases, the form
+// thresholds and how they are calibrated per user, which form issues are
+// checked and from which camera angles, and the AI coach guidance.
+// Adding an exercise is a matter of adding an entry here.
+
+import { LANDMARKS, calculateAngle, getMidpoint } from "./pose-utils";
+import type { BodyPoints, FormIssue, FrameContext, Phase, ViewAngle } from "./form-checker";
+import type { OneEuroSettings } from "./pose-filter";
+import type { WeightUnit } from "./sets";
+
+/**
+ * Numeric thresholds for an exercise.
+ * STANDING_ANGLE and BOTTOM_ANGLE drive phase detection on the phase metric.
+ */
+export type Thresholds = {
+  STANDING_ANGLE: number; // Phase metric at or above this = standing (top of the rep)
+  BOTTOM_ANGLE: number; // Phase metric at or below this = bottom of the rep
+} & Record<string, number>;
+
+/**
+ * Per-user threshold values that replace an exercise's defaults
+ */
+export type ThresholdOverrides = Partial<Record<string, number>>;
+
+/**
+ * Joint angle used to detect rep phases
+ */
+export type PhaseMetric = "kneeAngle" | "frontKneeAngle" | "hipAngle" | "elbowAngle";
+
+/**
+ * A single form check.
+ * `test` returns true when the issue is present in the current frame.
+ */
+export interface FormCheck<T extends Thresholds = Thresholds> {
+  issue: FormIssue;
+  phases: readonly Phase[]; // Phases in which this check runs
+  views: readonly ViewAngle[]; // Camera angles from which the issue can be seen
+  test(ctx: FrameContext<T>): boolean;
+}
+
+/**
+ * How one threshold is personalized from a lifter's reference reps.
+ * `measure` reads the value the threshold is compared against; the calibrated
+ * threshold sits just outside the range the lifter showed with good form.
+ */
+export interface CalibrationRule<T extends Thresholds = Thresholds> {
+  threshold: string; // Key in the exercise's thresholds
+  label: string;
+  phases: readonly Phase[]; // Phases in which frames are measured
+  views: readonly ViewAngle[]; // Camera angles from which frames are measured
+  measure(ctx: FrameContext<T>): number;
+  bound: "upper" | "lower"; // upper = the issue fires above the threshold
+  margin: number; // Added past the lifter's own range
+  limits: readonly [min: number, max: number]; // Calibrated values are clamped to this range
+}
+
+/**
+ * How jittery pose data is steadied before phases are detected.
+ * Landmarks pass through a One Euro filter; a phase cutoff must then be cleared
+ * by the hysteresis band to leave a phase, and each phase is held for a minimum time.
+ */
+export interface PhaseSmoothing {
+  filter: OneEuroSettings;
+  hysteresis: number; // Degrees of phase metric past a cutoff needed to leave a phase
+  minDwellMs: number; // Shortest time a phase is held before the next one can start
+}
+
+export interface ExerciseDefinition<T extends Thresholds = Thresholds> {
+  name: string;
+  pluralName: string;
+  description: string;
+  icon: string;
+  landmarks: readonly number[]; // Landmarks that must be tracked for this exercise
+  phaseMetric: PhaseMetric;
+  eccentricPhase: "descending" | "ascending"; // The phase that lowers the load, for tempo
+  // Where a rep must finish when the phase metric alone can't tell, e.g. straight
+  // arms overhead rather than hanging at the sides
+  isRepTop?: (points: BodyPoints) => boolean;
+  thresholds: T;
+  smoothing: PhaseSmoothing;
+  checks: readonly FormCheck<T>[];
+  calibration: readonly CalibrationRule<T>[];
+  coachGuidance: readonly string[]; // Key form points for the AI coach prompt
+  loadIncrement: Record<WeightUnit, number> | null; // Load added when progressing, null = bodyweight
+}
+
+// Phases where the user is moving through a rep
+export const ACTIVE_PHASES: readonly Phase[] = ["descending", "bottom", "ascending"];
+
+// Camera angles for each kind of check. Joint angles in the sagittal plane hold up
+// at 45° but collapse from the front; sideways knee movement needs the front.
+export const ALL_VIEWS: readonly ViewAngle[] = ["front", "side", "angled"];
+export const SAGITTAL_VIEWS: readonly ViewAngle[] = ["side", "angled"];
+export const FRONTAL_VIEWS: readonly ViewAngle[] = ["front", "angled"];
+// Forward/backward distances measured along the image x axis
+export const SIDE_VIEW_ONLY: readonly ViewAngle[] = ["side"];
+
+const LOWER_BODY_LANDMARKS = [
+  LANDMARKS.LEFT_SHOULDER,
+  LANDMARKS.RIGHT_SHOULDER,
+  LANDMARKS.LEFT_HIP,
+  LANDMARKS.RIGHT_HIP,
+  LANDMARKS.LEFT_KNEE,
+  LANDMARKS.RIGHT_KNEE,
+  LANDMARKS.LEFT_ANKLE,
+  LANDMARKS.RIGHT_ANKLE,
+] as const;
+
+const UPPER_BODY_LANDMARKS = [
+  LANDMARKS.LEFT_SHOULDER,
+  LANDMARKS.RIGHT_SHOULDER,
+  LANDMARKS.LEFT_ELBOW,
+  LANDMARKS.RIGHT_ELBOW,
+  LANDMARKS.LEFT_WRIST,
+  LANDMARKS.RIGHT_WRIST,
+  LANDMARKS.LEFT_HIP,
+  LANDMARKS.RIGHT_HIP,
+] as const;
+
+const FULL_BODY_LANDMARKS = [
+  ...UPPER_BODY_LANDMARKS,
+  LANDMARKS.LEFT_KNEE,
+  LANDMARKS.RIGHT_KNEE,
+  LANDMARKS.LEFT_ANKLE,
+  LANDMARKS.RIGHT_ANKLE,
+] as const;
+
+// Smoothing for slow, heavy lifts
+export const DEFAULT_SMOOTHING: PhaseSmoothing = {
+  filter: { minCutoff: 1.5, beta: 10, derivativeCutoff: 1 },
+  hysteresis: 5,
+  minDwellMs: 150,
+};
+
+// Quicker reps over a shorter range of motion need less lag and shorter dwells
+const FAST_SMOOTHING: PhaseSmoothing = {
+  filter: { minCutoff: 2.5, beta: 20, derivativeCutoff: 1 },
+  hysteresis: 4,
+  minDwellMs: 100,
+};
+
+// Thresholds for squat form detection
+export const SQUAT_THRESHOLDS = {
+  STANDING_ANGLE: 165, // Knee angle above this = standing
+  BOTTOM_ANGLE: 100, // Knee angle below this = bottom; turning back up above it = not deep enough
+  BOTTOM_KNEE_ANGLE_MIN: 70, // Below this = too deep
+  FORWARD_LEAN_ANGLE: 45, // Torso angle from vertical
+  KNEE_CAVE_THRESHOLD: 0.05, // Knee X inside ankle X by this ratio
+  KNEE_FORWARD_MAX: 0.15, // Knee X ahead of ankle X by this ratio
+};
+
+// Thresholds for deadlift form detection
+export const DEADLIFT_THRESHOLDS = {
+  STANDING_ANGLE: 165, // Hip angle above this = standing
+  BOTTOM_ANGLE: 110, // Hip angle around 90 at bottom, with 20 degrees of slack
+  ROUNDED_BACK_THRESHOLD: 30, // Shoulder drops below expected line
+  KNEE_TRAVEL_MAX: 20, // Max degrees knee angle should change during lift
+  LOCKOUT_TOLERANCE: 5, // Degrees short of standing that still counts as locked out
+};
+
+// Thresholds for lunge form detection
+export const LUNGE_THRESHOLDS = {
+  STANDING_ANGLE: 160, // Front knee angle above this = standing
+  BOTTOM_ANGLE: 100, // Front knee angle below this = bottom
+  FRONT_KNEE_FORWARD_MAX: 0.08, // Front knee X past front ankle X by this ratio
+  UPRIGHT_TORSO_ANGLE: 20, // Torso angle from vertical
+};
+
+// Thresholds for overhead press form detection
+export const OVERHEAD_PRESS_THRESHOLDS = {
+  STANDING_ANGLE: 160, // Elbow angle above this = arms locked out overhead
+  BOTTOM_ANGLE: 90, // Elbow angle below this = bar racked at the shoulders
+  LOCKOUT_HEIGHT: 0.15, // Wrists must be this far above the shoulders at lockout
+  BACK_ARCH_ANGLE: 15, // Torso angle from vertical (leaning back to press)
+};
+
+// Thresholds for push-up form detection
+export const PUSH_UP_THRESHOLDS = {
+  STANDING_ANGLE: 160, // Elbow angle above this = top of the push-up
+  BOTTOM_ANGLE: 90, // Elbow angle below this = chest near the floor
+  HIP_SAG_ANGLE: 160, // Shoulder-hip-ankle angle below this = body not in a straight line
+};
+
+// Thresholds for bicep curl form detection
+export const BICEP_CURL_THRESHOLDS = {
+  STANDING_ANGLE: 150, // Elbow angle above this = arms extended
+  BOTTOM_ANGLE: 50, // Elbow angle below this = fully curled
+  ELBOW_DRIFT_ANGLE: 30, // Upper arm angle away from the torso
+  SWING_ANGLE: 10, // Torso angle from vertical
+};
+
+// Wrists raised above the shoulders, as when pressing rather than resting
+function areWristsOverhead(points: BodyPoints): boolean {
+  return points.wrist.y < points.shoulder.y;
+}
+
+// Difference between the left and right knee-over-ankle offsets (frontal view)
+function getKneeCaveOffset(points: BodyPoints): number {
+  return Math.abs(
+    points.leftKnee.x - points.leftAnkle.x - (points.rightKnee.x - points.rightAnkle.x)
+  );
+}
+
+// How far the front (more bent) knee sits past its ankle
+function getFrontKneeOffset(points: BodyPoints): number {
+  const leftKneeAngle = calculateAngle(points.leftHip, points.leftKnee, points.leftAnkle);
+  const rightKneeAngle = calculateAngle(points.rightHip, points.rightKnee, points.rightAnkle);
+  const [frontKnee, frontAnkle] =
+    leftKneeAngle <= rightKneeAngle
+      ? [points.leftKnee, points.leftAnkle]
+      : [points.rightKnee, points.rightAnkle];
+  return Math.abs(frontKnee.x - frontAnkle.x);
+}
+
+const squat: ExerciseDefinition<typeof SQUAT_THRESHOLDS> = {
+  name: "Squat",
+  pluralName: "Squats",
+  description: "Lower body compound exercise",
+  icon: "🏋️",
+  landmarks: LOWER_BODY_LANDMARKS,
+  phaseMetric: "kneeAngle",
+  eccentricPhase: "descending",
+  thresholds: SQUAT_THRESHOLDS,
+  smoothing: DEFAULT_SMOOTHING,
+  checks: [
+    {
+      // Standing back up before the knees reached the bottom angle
+      issue: "not_deep_enough",
+      phases: ["ascending"],
+      views: SAGITTAL_VIEWS,
+      test: ({ tracker }) => tracker.repInProgress && !tracker.bottomReached,
+    },
+    {
+      issue: "too_deep",
+      phases: ["bottom"],
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) => angles.kneeAngle < thresholds.BOTTOM_KNEE_ANGLE_MIN,
+    },
+    {
+      // In a frontal view, knees caving means they move toward center more than ankles
+      issue: "knees_caving",
+      phases: ACTIVE_PHASES,
+      views: FRONTAL_VIEWS,
+      test: ({ points, thresholds }) =>
+        getKneeCaveOffset(points) > thresholds.KNEE_CAVE_THRESHOLD,
+    },
+    {
+      issue: "forward_lean",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) => angles.torsoAngle > thresholds.FORWARD_LEAN_ANGLE,
+    },
+    {
+      // Knee travel is measured along the image x axis, so only a side view shows it
+      issue: "knees_too_far_forward",
+      phases: ["bottom", "descending"],
+      views: SIDE_VIEW_ONLY,
+      test: ({ points, thresholds }) =>
+        Math.abs(points.knee.x - points.ankle.x) > thresholds.KNEE_FORWARD_MAX,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "FORWARD_LEAN_ANGLE",
+      label: "Forward lean (°)",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles }) => angles.torsoAngle,
+      bound: "upper",
+      margin: 5,
+      limits: [40, 65],
+    },
+    {
+      threshold: "KNEE_CAVE_THRESHOLD",
+      label: "Knee cave tolerance",
+      phases: ACTIVE_PHASES,
+      views: FRONTAL_VIEWS,
+      measure: ({ points }) => getKneeCaveOffset(points),
+      bound: "upper",
+      margin: 0.02,
+      limits: [0.05, 0.12],
+    },
+    {
+      threshold: "KNEE_FORWARD_MAX",
+      label: "Knee travel past ankle",
+      phases: ["bottom", "descending"],
+      views: SIDE_VIEW_ONLY,
+      measure: ({ points }) => Math.abs(points.knee.x - points.ankle.x),
+      bound: "upper",
+      margin: 0.02,
+      limits: [0.12, 0.25],
+    },
+    {
+      threshold: "BOTTOM_KNEE_ANGLE_MIN",
+      label: "Deepest knee angle (°)",
+      phases: ["bottom"],
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles }) => angles.kneeAngle,
+      bound: "lower",
+      margin: 5,
+      limits: [45, 80],
+    },
+  ],
+  coachGuidance: [
+    "Knee tracking over toes (not caving inward)",
+    "Depth (thighs parallel to floor or below)",
+    "Back position (straight, not rounded)",
+    "Chest up, not leaning too far forward",
+    "Weight distribution (heels on ground)",
+  ],
+  loadIncrement: { kg: 2.5, lb: 5 },
+};
+
+const deadlift: ExerciseDefinition<typeof DEADLIFT_THRESHOLDS> = {
+  name: "Deadlift",
+  pluralName: "Deadlifts",
+  description: "Full body compound exercise",
+  icon: "💪",
+  landmarks: LOWER_BODY_LANDMARKS,
+  // Deadlift is hip-hinge dominant
+  phaseMetric: "hipAngle",
+  eccentricPhase: "descending",
+  thresholds: DEADLIFT_THRESHOLDS,
+  smoothing: DEFAULT_SMOOTHING,
+  checks: [
+    {
+      // In a side view, shoulder should stay above or in line with hip
+      // A significant drop in shoulder Y relative to hip indicates rounding
+      issue: "rounded_back",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      test: ({ points, thresholds }) =>
+        points.shoulder.y - points.hip.y > thresholds.ROUNDED_BACK_THRESHOLD / 100,
+    },
+    {
+      // Knees straightened too much too early or bent during lift
+      issue: "knees_too_far_forward",
+      phases: ["ascending"],
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, tracker, thresholds }) =>
+        tracker.initialKneeAngle !== null &&
+        Math.abs(angles.kneeAngle - tracker.initialKneeAngle) > thresholds.KNEE_TRAVEL_MAX,
+    },
+    {
+      issue: "lockout_incomplete",
+      phases: ["standing"],
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) =>
+        angles.hipAngle < thresholds.STANDING_ANGLE - thresholds.LOCKOUT_TOLERANCE,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "ROUNDED_BACK_THRESHOLD",
+      label: "Shoulder drop below hips",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      measure: ({ points }) => (points.shoulder.y - points.hip.y) * 100,
+      bound: "upper",
+      margin: 5,
+      limits: [25, 45],
+    },
+    {
+      threshold: "KNEE_TRAVEL_MAX",
+      label: "Knee bend during the pull (°)",
+      phases: ["ascending"],
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles, tracker }) =>
+        tracker.initialKneeAngle === null
+          ? 0
+          : Math.abs(angles.kneeAngle - tracker.initialKneeAngle),
+      bound: "upper",
+      margin: 5,
+      limits: [15, 35],
+    },
+  ],
+  coachGuidance: [
+    "Back position (neutral spine, not rounded)",
+    "Bar path (close to body)",
+    "Hip hinge pattern (push hips back)",
+    "Lockout at top (full hip extension)",
+    "Head position (neutral, not looking up)",
+  ],
+  loadIncrement: { kg: 5, lb: 10 },
+};
+
+const lunge: ExerciseDefinition<typeof LUNGE_THRESHOLDS> = {
+  name: "Lunge",
+  pluralName: "Lunges",
+  description: "Single-leg lower body exercise",
+  icon: "🦵",
+  landmarks: LOWER_BODY_LANDMARKS,
+  // Reps follow the front (more bent) knee
+  phaseMetric: "frontKneeAngle",
+  eccentricPhase: "descending",
+  thresholds: LUNGE_THRESHOLDS,
+  smoothing: DEFAULT_SMOOTHING,
+  checks: [
+    {
+      // In a side view, the front knee should stay stacked over the front ankle
+      issue: "front_knee_over_toes",
+      phases: ["descending", "bottom"],
+      views: SIDE_VIEW_ONLY,
+      test: ({ points, thresholds }) =>
+        getFrontKneeOffset(points) > thresholds.FRONT_KNEE_FORWARD_MAX,
+    },
+    {
+      issue: "torso_not_upright",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) => angles.torsoAngle > thresholds.UPRIGHT_TORSO_ANGLE,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "FRONT_KNEE_FORWARD_MAX",
+      label: "Front knee past ankle",
+      phases: ["descending", "bottom"],
+      views: SIDE_VIEW_ONLY,
+      measure: ({ points }) => getFrontKneeOffset(points),
+      bound: "upper",
+      margin: 0.02,
+      limits: [0.06, 0.15],
+    },
+    {
+      threshold: "UPRIGHT_TORSO_ANGLE",
+      label: "Torso lean (°)",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles }) => angles.torsoAngle,
+      bound: "upper",
+      margin: 5,
+      limits: [15, 35],
+    },
+  ],
+  coachGuidance: [
+    "Front knee stacked over the ankle, tracking in line with the toes",
+    "Torso upright, not leaning over the front leg",
+    "Back knee lowering toward the floor under control",
+    "Even depth on both legs",
+  ],
+  loadIncrement: { kg: 2.5, lb: 5 },
+};
+
+const overheadPress: ExerciseDefinition<typeof OVERHEAD_PRESS_THRESHOLDS> = {
+  name: "Overhead Press",
+  pluralName: "Overhead Presses",
+  description: "Standing shoulder press",
+  icon: "🙌",
+  landmarks: UPPER_BODY_LANDMARKS,
+  // "Standing" is the locked-out position overhead, "bottom" is racked at the shoulders
+  phaseMetric: "elbowAngle",
+  eccentricPhase: "descending",
+  // Straight arms also hang at the sides between sets; only overhead ends a rep
+  isRepTop: areWristsOverhead,
+  thresholds: OVERHEAD_PRESS_THRESHOLDS,
+  smoothing: DEFAULT_SMOOTHING,
+  checks: [
+    {
+      // Arms are straight and raised but the weight isn't stacked over the shoulders
+      issue: "press_lockout_incomplete",
+      phases: ["standing"],
+      views: ALL_VIEWS,
+      test: ({ points, thresholds }) =>
+        areWristsOverhead(points) &&
+        points.shoulder.y - points.wrist.y < thresholds.LOCKOUT_HEIGHT,
+    },
+    {
+      // Leaning back to press turns it into an incline press and loads the lower back
+      issue: "back_arch",
+      phases: ["standing", ...ACTIVE_PHASES],
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) => angles.torsoAngle > thresholds.BACK_ARCH_ANGLE,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "BACK_ARCH_ANGLE",
+      label: "Lean back (°)",
+      phases: ["standing", ...ACTIVE_PHASES],
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles }) => angles.torsoAngle,
+      bound: "upper",
+      margin: 3,
+      limits: [10, 25],
+    },
+  ],
+  coachGuidance: [
+    "Full lockout with the weight stacked over the shoulders",
+    "Ribs down and core braced, no leaning back or lumbar arch",
+    "Elbows slightly in front of the bar at the bottom",
+    "Head moves back to clear the bar path, then through at the top",
+  ],
+  loadIncrement: { kg: 1.25, lb: 2.5 },
+};
+
+const pushUp: ExerciseDefinition<typeof PUSH_UP_THRESHOLDS> = {
+  name: "Push-Up",
+  pluralName: "Push-Ups",
+  description: "Bodyweight upper body exercise",
+  icon: "🤸",
+  landmarks: FULL_BODY_LANDMARKS,
+  phaseMetric: "elbowAngle",
+  eccentricPhase: "descending",
+  thresholds: PUSH_UP_THRESHOLDS,
+  smoothing: FAST_SMOOTHING,
+  checks: [
+    {
+      // In a side view, the hips should stay on the line from shoulders to ankles
+      issue: "hip_sag",
+      phases: ["standing", ...ACTIVE_PHASES],
+      views: SAGITTAL_VIEWS,
+      test: ({ points, thresholds }) => {
+        const bodyLineAngle = calculateAngle(points.shoulder, points.hip, points.ankle);
+        const lineMidpoint = getMidpoint(points.shoulder, points.ankle);
+        return bodyLineAngle < thresholds.HIP_SAG_ANGLE && points.hip.y > lineMidpoint.y;
+      },
+    },
+    {
+      // Pushing back up before the elbows reached the bottom angle
+      issue: "not_deep_enough",
+      phases: ["ascending"],
+      views: ALL_VIEWS,
+      test: ({ tracker }) => tracker.repInProgress && !tracker.bottomReached,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "HIP_SAG_ANGLE",
+      label: "Body line (°)",
+      phases: ["standing", ...ACTIVE_PHASES],
+      views: SAGITTAL_VIEWS,
+      measure: ({ points }) => calculateAngle(points.shoulder, points.hip, points.ankle),
+      bound: "lower",
+      margin: 5,
+      limits: [145, 165],
+    },
+  ],
+  coachGuidance: [
+    "Straight line from shoulders to ankles (no sagging or piking hips)",
+    "Depth (chest close to the floor, elbows at 90 degrees or below)",
+    "Elbows tucked at roughly 45 degrees, not flared",
+    "Full lockout at the top",
+  ],
+  loadIncrement: null,
+};
+
+const bicepCurl: ExerciseDefinition<typeof BICEP_CURL_THRESHOLDS> = {
+  name: "Bicep Curl",
+  pluralName: "Bicep Curls",
+  description: "Arm isolation exercise",
+  icon: "🦾",
+  landmarks: UPPER_BODY_LANDMARKS,
+  // "Standing" is arms extended, "bottom" is fully curled
+  phaseMetric: "elbowAngle",
+  // Curling up closes the elbow, so the weight is lowered on the way back to "standing"
+  eccentricPhase: "ascending",
+  thresholds: BICEP_CURL_THRESHOLDS,
+  smoothing: FAST_SMOOTHING,
+  checks: [
+    {
+      // Upper arm should stay by the torso - measure its angle away from the hip line
+      issue: "elbow_drift",
+      phases: ACTIVE_PHASES,
+      views: ALL_VIEWS,
+      test: ({ points, thresholds }) =>
+        calculateAngle(points.hip, points.shoulder, points.elbow) > thresholds.ELBOW_DRIFT_ANGLE,
+    },
+    {
+      issue: "swinging",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      test: ({ angles, thresholds }) => angles.torsoAngle > thresholds.SWING_ANGLE,
+    },
+  ],
+  calibration: [
+    {
+      threshold: "ELBOW_DRIFT_ANGLE",
+      label: "Elbow drift (°)",
+      phases: ACTIVE_PHASES,
+      views: ALL_VIEWS,
+      measure: ({ points }) => calculateAngle(points.hip, points.shoulder, points.elbow),
+      bound: "upper",
+      margin: 5,
+      limits: [20, 45],
+    },
+    {
+      threshold: "SWING_ANGLE",
+      label: "Body swing (°)",
+      phases: ACTIVE_PHASES,
+      views: SAGITTAL_VIEWS,
+      measure: ({ angles }) => angles.torsoAngle,
+      bound: "upper",
+      margin: 3,
+      limits: [8, 20],
+    },
+  ],
+  coachGuidance: [
+    "Elbows pinned to the sides, upper arms still",
+    "No swinging or using the hips to move the weight",
+    "Full range of motion: arms straight at the bottom, fully curled at the top",
+    "Controlled lowering, no dropping the weight",
+  ],
+  loadIncrement: { kg: 1, lb: 2.5 },
+};
+
+export const EXERCISES = {
+  squat,
+  deadlift,
+  lunge,
+  overhead_press: overheadPress,
+  push_up: pushUp,
+  bicep_curl: bicepCurl,
+} satisfies Record<string, ExerciseDefinition>;
+
+export type Exercise = keyof typeof EXERCISES;
+
+// All registered exercise ids, in display order
+export const EXERCISE_IDS = Object.keys(EXERCISES) as [Exercise, ...Exercise[]];
+
+/**
+ * Check whether a string is a registered exercise id
+ */
+export function isExercise(value: string | null | undefined): value is Exercise {
+  return value != null && Object.prototype.hasOwnProperty.call(EXERCISES, value);
+}
+
+/**
+ * Get the definition for a registered exercise
+ */
+export function getExerciseDefinition(exercise: Exercise): ExerciseDefinition {
+  return EXERCISES[exercise];
+}
+
+/**
+ * Merge per-user overrides over an exercise's default thresholds.
+ * Keys the exercise doesn't define are ignored.
+ */
+export function resolveThresholds<T extends Thresholds>(
+  defaults: T,
+  overrides?: ThresholdOverrides | null
+): T {
+  if (!overrides) return defaults;
+
+  const resolved: Record<string, number> = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (key in defaults && typeof value === "number" && Number.isFinite(value)) {
+      resolved[key] = value;
+    }
+  }
+  return resolved as T;
+}
+
+/**
+ * Get a display name for a stored exercise id, falling back to the raw id
+ */
+export function getExerciseName(exercise: string): string {
+  return isExercise(exercise) ? EXERCISES[exercise].name : exercise;
+}
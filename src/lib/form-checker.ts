@@ -1,14 +1,25 @@
 import {
+  type Exercise,
+  type ExerciseDefinition,
+  type ThresholdOverrides,
+  type Thresholds,
+  EXERCISES,
+  resolveThresholds,
+} from "./exercises";
+import { type LandmarkFilter, createLandmarkFilter, filterLandmarks } from "./pose-filter";
+import {
+  type BodyPart,
   type Point,
   LANDMARKS,
+  calculateAngle,
   getKneeAngle,
   getHipAngle,
   getTorsoAngle,
   getMidpoint,
+  getDistance,
+  getHiddenBodyParts,
 } from "./pose-utils";
 
-export type Exercise = "squat" | "deadlift";
-
 export type FormIssue =
   | "knees_caving"
   | "not_deep_enough"
@@ -16,10 +27,20 @@ export type FormIssue =
   | "forward_lean"
   | "rounded_back"
   | "knees_too_far_forward"
-  | "lockout_incomplete";
+  | "lockout_incomplete"
+  | "front_knee_over_toes"
+  | "torso_not_upright"
+  | "press_lockout_incomplete"
+  | "back_arch"
+  | "hip_sag"
+  | "elbow_drift"
+  | "swinging";
 
 export type Phase = "standing" | "descending" | "bottom" | "ascending";
 
+// Where the camera sees the lifter from: facing it, side-on, or roughly 45° in between
+export type ViewAngle = "front" | "side" | "angled";
+
 export interface FormAnalysis {
   isGoodForm: boolean;
   issues: FormIssue[];
@@ -27,6 +48,13 @@ export interface FormAnalysis {
   repCompleted: boolean;
   kneeAngle: number;
   hipAngle: number;
+  torsoAngle: number;
+  view: ViewAngle;
+  unassessable: FormIssue[]; // Issues the exercise checks for that can't be seen from this view
+  // False when a body part the exercise relies on can't be seen. The frame is then
+  // skipped: no checks run, the phase holds and the angles are unreliable.
+  inFrame: boolean;
+  hiddenParts: BodyPart[];
 }
 
 // Voice feedback messages for each issue
@@ -38,34 +66,109 @@ export const VOICE_FEEDBACK: Record<FormIssue, string> = {
   rounded_back: "Straighten your back",
   knees_too_far_forward: "Sit back more",
   lockout_incomplete: "Stand up fully",
+  front_knee_over_toes: "Keep your front knee over your ankle",
+  torso_not_upright: "Keep your torso upright",
+  press_lockout_incomplete: "Press all the way overhead",
+  back_arch: "Brace your core, don't lean back",
+  hip_sag: "Lift your hips",
+  elbow_drift: "Keep your elbows at your sides",
+  swinging: "Don't swing your body",
 };
 
-// Thresholds for squat form detection
-const SQUAT_THRESHOLDS = {
-  STANDING_KNEE_ANGLE: 165, // Above this = standing
-  BOTTOM_KNEE_ANGLE_MIN: 70, // Below this = too deep
-  BOTTOM_KNEE_ANGLE_MAX: 100, // Above this at bottom = not deep enough
-  DESCENDING_THRESHOLD: 150, // Below standing, above bottom
-  FORWARD_LEAN_ANGLE: 45, // Torso angle from vertical
-  KNEE_CAVE_THRESHOLD: 0.05, // Knee X inside ankle X by this ratio
+// Short names for each issue, for lists such as the checks a camera angle can't assess
+export const ISSUE_LABELS: Record<FormIssue, string> = {
+  knees_caving: "knee cave",
+  not_deep_enough: "depth",
+  too_deep: "excess depth",
+  forward_lean: "forward lean",
+  rounded_back: "back rounding",
+  knees_too_far_forward: "knee travel",
+  lockout_incomplete: "lockout",
+  front_knee_over_toes: "front knee position",
+  torso_not_upright: "torso angle",
+  press_lockout_incomplete: "overhead lockout",
+  back_arch: "back arch",
+  hip_sag: "hip sag",
+  elbow_drift: "elbow drift",
+  swinging: "body swing",
 };
 
-// Thresholds for deadlift form detection
-const DEADLIFT_THRESHOLDS = {
-  STANDING_HIP_ANGLE: 165, // Above this = standing
-  BOTTOM_HIP_ANGLE: 90, // Around this at bottom position
-  ROUNDED_BACK_THRESHOLD: 30, // Shoulder drops below expected line
-  KNEE_TRAVEL_MAX: 20, // Max degrees knee angle should change during lift
+export const VIEW_LABELS: Record<ViewAngle, string> = {
+  front: "the front",
+  side: "the side",
+  angled: "a 45° angle",
 };
 
+/**
+ * Check whether a string is a known form issue, such as a mistake from a stored workout
+ */
+export function isFormIssue(value: string): value is FormIssue {
+  return value in VOICE_FEEDBACK;
+}
+
 type Landmark = { x: number; y: number; z?: number; visibility?: number };
 
-interface PhaseTracker {
+export interface PhaseTracker {
   previousPhase: Phase;
-  previousKneeAngle: number;
+  phaseStartedAt: number | null; // Timestamp the current phase began
+  turnAngle: number; // Lowest phase metric while descending, highest while ascending
   repInProgress: boolean;
   bottomReached: boolean;
   initialKneeAngle: number | null;
+  view: ViewAngle | null; // Confirmed camera angle, null until the first frame
+  viewCandidate: ViewAngle | null; // A different angle seen on the latest frames
+  viewCandidateFrames: number;
+  frontalLegSpans: Record<"left" | "right", LegSpans>; // Longest seen from the front
+  landmarkFilter: LandmarkFilter;
+  // Smoothed points and angles the latest in-frame frame was judged on
+  lastFrame: { points: BodyPoints; angles: BodyAngles } | null;
+}
+
+// Vertical thigh and shin extent relative to hip width, as seen from the front
+interface LegSpans {
+  thigh: number;
+  shank: number;
+}
+
+// Named body points for a single frame (left/right plus midpoints)
+export interface BodyPoints {
+  leftShoulder: Point;
+  rightShoulder: Point;
+  leftElbow: Point;
+  rightElbow: Point;
+  leftWrist: Point;
+  rightWrist: Point;
+  leftHip: Point;
+  rightHip: Point;
+  leftKnee: Point;
+  rightKnee: Point;
+  leftAnkle: Point;
+  rightAnkle: Point;
+  shoulder: Point;
+  elbow: Point;
+  wrist: Point;
+  hip: Point;
+  knee: Point;
+  ankle: Point;
+}
+
+// Joint angles for a single frame, in degrees
+export interface BodyAngles {
+  kneeAngle: number;
+  frontKneeAngle: number; // The more bent of the two knees (front leg in a lunge)
+  hipAngle: number;
+  torsoAngle: number;
+  elbowAngle: number;
+}
+
+// Everything a form check can look at for the current frame
+export interface FrameContext<T extends Thresholds = Thresholds> {
+  points: BodyPoints;
+  angles: BodyAngles;
+  phase: Phase;
+  view: ViewAngle;
+  tracker: PhaseTracker;
+  thresholds: T;
 }
 
 // Helper to safely get a landmark as a Point
@@ -81,27 +184,14 @@ function getLandmark(landmarks: Landmark[], index: number): Point {
   return point;
 }
 
-// Create a new phase tracker
-export function createPhaseTracker(): PhaseTracker {
-  return {
-    previousPhase: "standing",
-    previousKneeAngle: 180,
-    repInProgress: false,
-    bottomReached: false,
-    initialKneeAngle: null,
-  };
-}
-
-// Analyze squat form from landmarks
-export function analyzeSquatForm(
-  landmarks: Landmark[],
-  tracker: PhaseTracker
-): FormAnalysis {
-  const issues: FormIssue[] = [];
-
-  // Get relevant landmarks using safe accessor
+// Resolve the named body points from raw landmarks
+export function getBodyPoints(landmarks: Landmark[]): BodyPoints {
   const leftShoulder = getLandmark(landmarks, LANDMARKS.LEFT_SHOULDER);
   const rightShoulder = getLandmark(landmarks, LANDMARKS.RIGHT_SHOULDER);
+  const leftElbow = getLandmark(landmarks, LANDMARKS.LEFT_ELBOW);
+  const rightElbow = getLandmark(landmarks, LANDMARKS.RIGHT_ELBOW);
+  const leftWrist = getLandmark(landmarks, LANDMARKS.LEFT_WRIST);
+  const rightWrist = getLandmark(landmarks, LANDMARKS.RIGHT_WRIST);
   const leftHip = getLandmark(landmarks, LANDMARKS.LEFT_HIP);
   const rightHip = getLandmark(landmarks, LANDMARKS.RIGHT_HIP);
   const leftKnee = getLandmark(landmarks, LANDMARKS.LEFT_KNEE);
@@ -110,203 +200,349 @@ export function analyzeSquatForm(
   const rightAnkle = getLandmark(landmarks, LANDMARKS.RIGHT_ANKLE);
 
   // Calculate midpoints for symmetrical analysis
-  const shoulder = getMidpoint(leftShoulder, rightShoulder);
-  const hip = getMidpoint(leftHip, rightHip);
-  const knee = getMidpoint(leftKnee, rightKnee);
-  const ankle = getMidpoint(leftAnkle, rightAnkle);
-
-  // Calculate angles
-  const kneeAngle = getKneeAngle(hip, knee, ankle);
-  const hipAngle = getHipAngle(shoulder, hip, knee);
-  const torsoAngle = getTorsoAngle(shoulder, hip);
-
-  // Determine phase
-  let phase: Phase = "standing";
-  let repCompleted = false;
+  return {
+    leftShoulder,
+    rightShoulder,
+    leftElbow,
+    rightElbow,
+    leftWrist,
+    rightWrist,
+    leftHip,
+    rightHip,
+    leftKnee,
+    rightKnee,
+    leftAnkle,
+    rightAnkle,
+    shoulder: getMidpoint(leftShoulder, rightShoulder),
+    elbow: getMidpoint(leftElbow, rightElbow),
+    wrist: getMidpoint(leftWrist, rightWrist),
+    hip: getMidpoint(leftHip, rightHip),
+    knee: getMidpoint(leftKnee, rightKnee),
+    ankle: getMidpoint(leftAnkle, rightAnkle),
+  };
+}
 
-  if (kneeAngle >= SQUAT_THRESHOLDS.STANDING_KNEE_ANGLE) {
-    phase = "standing";
-    // Check if rep was completed (came back up from bottom)
-    if (tracker.bottomReached && tracker.repInProgress) {
-      repCompleted = true;
-      tracker.repInProgress = false;
-      tracker.bottomReached = false;
-    }
-  } else if (kneeAngle <= SQUAT_THRESHOLDS.BOTTOM_KNEE_ANGLE_MAX) {
-    phase = "bottom";
-    tracker.bottomReached = true;
-    tracker.repInProgress = true;
-  } else if (kneeAngle < tracker.previousKneeAngle) {
-    phase = "descending";
-    if (!tracker.repInProgress) {
-      tracker.repInProgress = true;
-    }
-  } else {
-    phase = "ascending";
-  }
+// Calculate the joint angles used by phase detection and form checks
+export function getBodyAngles(points: BodyPoints): BodyAngles {
+  return {
+    kneeAngle: getKneeAngle(points.hip, points.knee, points.ankle),
+    frontKneeAngle: Math.min(
+      getKneeAngle(points.leftHip, points.leftKnee, points.leftAnkle),
+      getKneeAngle(points.rightHip, points.rightKnee, points.rightAnkle)
+    ),
+    hipAngle: getHipAngle(points.shoulder, points.hip, points.knee),
+    torsoAngle: getTorsoAngle(points.shoulder, points.hip),
+    elbowAngle: calculateAngle(points.shoulder, points.elbow, points.wrist),
+  };
+}
 
-  // Check form issues based on phase
-  if (phase === "bottom") {
-    // Check depth
-    if (kneeAngle > SQUAT_THRESHOLDS.BOTTOM_KNEE_ANGLE_MAX) {
-      issues.push("not_deep_enough");
-    } else if (kneeAngle < SQUAT_THRESHOLDS.BOTTOM_KNEE_ANGLE_MIN) {
-      issues.push("too_deep");
-    }
-  }
+// Create a new phase tracker
+export function createPhaseTracker(): PhaseTracker {
+  return {
+    previousPhase: "standing",
+    phaseStartedAt: null,
+    turnAngle: 180,
+    repInProgress: false,
+    bottomReached: false,
+    initialKneeAngle: null,
+    view: null,
+    viewCandidate: null,
+    viewCandidateFrames: 0,
+    frontalLegSpans: { left: { thigh: 0, shank: 0 }, right: { thigh: 0, shank: 0 } },
+    landmarkFilter: createLandmarkFilter(),
+    lastFrame: null,
+  };
+}
 
-  // Check for knee cave (knees collapsing inward)
-  const leftKneeAnkleOffset = leftKnee.x - leftAnkle.x;
-  const rightKneeAnkleOffset = rightKnee.x - rightAnkle.x;
-  // In a frontal view, knees caving means they move toward center more than ankles
-  if (
-    phase !== "standing" &&
-    Math.abs(leftKneeAnkleOffset - rightKneeAnkleOffset) >
-      SQUAT_THRESHOLDS.KNEE_CAVE_THRESHOLD
-  ) {
-    issues.push("knees_caving");
-  }
+// Shoulder plus hip width relative to torso length when facing the camera
+const FRONTAL_WIDTH_RATIO = 1.2;
+// Yaw (0° = facing the camera, 90° = side-on) below which the view counts as front, above which as side
+const FRONT_VIEW_MAX_YAW = 30;
+const SIDE_VIEW_MIN_YAW = 60;
+// Below this much shoulder/hip depth difference, the landmarks carry no usable z
+const MIN_DEPTH = 0.001;
+// Frames a new camera angle must hold before the analysis switches to it
+const VIEW_CONFIRM_FRAMES = 15;
+// MediaPipe visibility score below which a landmark is treated as not seen
+const MIN_LANDMARK_VISIBILITY = 0.5;
+
+/**
+ * Estimate the camera angle from a single frame.
+ * Shoulders and hips look narrower the further the lifter turns side-on, and
+ * their left/right landmarks separate in depth instead.
+ */
+export function detectViewAngle(points: BodyPoints): ViewAngle {
+  const torsoLength = getDistance(points.shoulder, points.hip);
+  if (torsoLength === 0) return "front";
+
+  const width =
+    getDistance(points.leftShoulder, points.rightShoulder) +
+    getDistance(points.leftHip, points.rightHip);
+  const yawFromWidth =
+    (Math.acos(Math.min(1, width / torsoLength / FRONTAL_WIDTH_RATIO)) * 180) / Math.PI;
+
+  const depth =
+    Math.abs((points.leftShoulder.z ?? 0) - (points.rightShoulder.z ?? 0)) +
+    Math.abs((points.leftHip.z ?? 0) - (points.rightHip.z ?? 0));
+  const yaw =
+    depth < MIN_DEPTH
+      ? yawFromWidth
+      : (yawFromWidth + (Math.atan2(depth, width) * 180) / Math.PI) / 2;
+
+  if (yaw < FRONT_VIEW_MAX_YAW) return "front";
+  if (yaw > SIDE_VIEW_MIN_YAW) return "side";
+  return "angled";
+}
 
-  // Check for excessive forward lean
-  if (
-    phase !== "standing" &&
-    torsoAngle > SQUAT_THRESHOLDS.FORWARD_LEAN_ANGLE
-  ) {
-    issues.push("forward_lean");
+// Only switch views once a new angle has held for a few frames, so checks don't flicker
+function trackViewAngle(tracker: PhaseTracker, detected: ViewAngle): ViewAngle {
+  if (tracker.view === null || detected === tracker.view) {
+    tracker.view = detected;
+    tracker.viewCandidate = null;
+    tracker.viewCandidateFrames = 0;
+    return detected;
   }
 
-  // Check if knees are too far forward (past toes)
-  if (phase === "bottom" || phase === "descending") {
-    const kneeForwardAmount = knee.x - ankle.x;
-    // This is a simplified check - in reality depends on camera angle
-    if (Math.abs(kneeForwardAmount) > 0.15) {
-      issues.push("knees_too_far_forward");
-    }
+  if (detected === tracker.viewCandidate) {
+    tracker.viewCandidateFrames++;
+  } else {
+    tracker.viewCandidate = detected;
+    tracker.viewCandidateFrames = 1;
   }
+  if (tracker.viewCandidateFrames >= VIEW_CONFIRM_FRAMES) {
+    tracker.view = detected;
+    tracker.viewCandidate = null;
+    tracker.viewCandidateFrames = 0;
+  }
+  return tracker.view;
+}
 
-  // Update tracker
-  tracker.previousPhase = phase;
-  tracker.previousKneeAngle = kneeAngle;
-
-  return {
-    isGoodForm: issues.length === 0,
-    issues,
-    phase,
-    repCompleted,
-    kneeAngle,
-    hipAngle,
+/**
+ * Estimate knee angles in a front view.
+ * Facing the camera, the thigh and shin swing toward it as the lifter bends,
+ * so the 2D knee angle stays near straight. Their vertical extent shrinks
+ * instead: against the longest extent seen, it gives how far each segment has
+ * tilted from vertical. Extents are scaled by hip width, which doesn't change
+ * with depth, so stepping toward or away from the camera doesn't read as a bend.
+ * The shin is taken to lean forward and the thigh back, as in a squat.
+ */
+function getFrontalKneeAngles(
+  tracker: PhaseTracker,
+  points: BodyPoints
+): Pick<BodyAngles, "kneeAngle" | "frontKneeAngle"> {
+  const hipWidth = getDistance(points.leftHip, points.rightHip);
+  const getKneeAngleFor = (side: "left" | "right") => {
+    const [hip, knee, ankle] =
+      side === "left"
+        ? [points.leftHip, points.leftKnee, points.leftAnkle]
+        : [points.rightHip, points.rightKnee, points.rightAnkle];
+    const longest = tracker.frontalLegSpans[side];
+    const spans: LegSpans = {
+      thigh: hipWidth > 0 ? Math.max(0, knee.y - hip.y) / hipWidth : 0,
+      shank: hipWidth > 0 ? Math.max(0, ankle.y - knee.y) / hipWidth : 0,
+    };
+    longest.thigh = Math.max(longest.thigh, spans.thigh);
+    longest.shank = Math.max(longest.shank, spans.shank);
+
+    // Tilt from vertical of a segment whose vertical extent has shrunk to span
+    const tilt = (span: number, max: number) =>
+      max > 0 ? (Math.acos(Math.min(1, span / max)) * 180) / Math.PI : 0;
+    return 180 - tilt(spans.thigh, longest.thigh) - tilt(spans.shank, longest.shank);
   };
+
+  const left = getKneeAngleFor("left");
+  const right = getKneeAngleFor("right");
+  return { kneeAngle: (left + right) / 2, frontKneeAngle: Math.min(left, right) };
 }
 
-// Analyze deadlift form from landmarks
-export function analyzeDeadliftForm(
-  landmarks: Landmark[],
-  tracker: PhaseTracker
-): FormAnalysis {
-  const issues: FormIssue[] = [];
+/**
+ * Issues an exercise checks for that no check can assess from a view
+ */
+export function getUnassessableIssues(
+  definition: ExerciseDefinition,
+  view: ViewAngle
+): FormIssue[] {
+  const assessable = new Set(
+    definition.checks.filter((check) => check.views.includes(view)).map((check) => check.issue)
+  );
+  const unassessable = definition.checks
+    .map((check) => check.issue)
+    .filter((issue) => !assessable.has(issue));
+  return Array.from(new Set(unassessable));
+}
 
-  // Get relevant landmarks using safe accessor
-  const leftShoulder = getLandmark(landmarks, LANDMARKS.LEFT_SHOULDER);
-  const rightShoulder = getLandmark(landmarks, LANDMARKS.RIGHT_SHOULDER);
-  const leftHip = getLandmark(landmarks, LANDMARKS.LEFT_HIP);
-  const rightHip = getLandmark(landmarks, LANDMARKS.RIGHT_HIP);
-  const leftKnee = getLandmark(landmarks, LANDMARKS.LEFT_KNEE);
-  const rightKnee = getLandmark(landmarks, LANDMARKS.RIGHT_KNEE);
-  const leftAnkle = getLandmark(landmarks, LANDMARKS.LEFT_ANKLE);
-  const rightAnkle = getLandmark(landmarks, LANDMARKS.RIGHT_ANKLE);
+// Phase the metric points to, before the minimum dwell time is applied.
+// Leaving standing or the bottom, or turning around mid-rep, takes the hysteresis
+// band past the cutoff so jitter around a cutoff can't flip the phase back and forth.
+function getNextPhase(
+  tracker: PhaseTracker,
+  metric: number,
+  thresholds: Thresholds,
+  hysteresis: number
+): Phase {
+  const previous = tracker.previousPhase;
+  const standingCutoff =
+    previous === "standing" ? thresholds.STANDING_ANGLE - hysteresis : thresholds.STANDING_ANGLE;
+  const bottomCutoff =
+    previous === "bottom" ? thresholds.BOTTOM_ANGLE + hysteresis : thresholds.BOTTOM_ANGLE;
+
+  if (metric >= standingCutoff) return "standing";
+  if (metric <= bottomCutoff) return "bottom";
+
+  switch (previous) {
+    case "descending":
+      return metric > tracker.turnAngle + hysteresis ? "ascending" : "descending";
+    case "ascending":
+      return metric < tracker.turnAngle - hysteresis ? "descending" : "ascending";
+    case "standing":
+      return "descending";
+    case "bottom":
+      return "ascending";
+  }
+}
 
-  // Calculate midpoints
-  const shoulder = getMidpoint(leftShoulder, rightShoulder);
-  const hip = getMidpoint(leftHip, rightHip);
-  const knee = getMidpoint(leftKnee, rightKnee);
-  const ankle = getMidpoint(leftAnkle, rightAnkle);
+// Analyze form from landmarks using an exercise definition from the registry.
+// Calibrated overrides replace the definition's default thresholds. The timestamp
+// (ms) drives landmark smoothing and phase dwell times, so replays must pass the
+// recorded one.
+export function analyzeWithDefinition(
+  definition: ExerciseDefinition,
+  landmarks: Landmark[],
+  tracker: PhaseTracker,
+  overrides?: ThresholdOverrides | null,
+  timestamp: number = Date.now()
+): FormAnalysis {
+  const thresholds = resolveThresholds(definition.thresholds, overrides);
+  const { smoothing } = definition;
+
+  // Occluded joints produce garbage angles and phantom reps, so skip the frame
+  const hiddenParts = getHiddenBodyParts(landmarks, definition.landmarks, MIN_LANDMARK_VISIBILITY);
+  if (hiddenParts.length > 0) {
+    tracker.lastFrame = null;
+    const points = getBodyPoints(landmarks);
+    const angles = getBodyAngles(points);
+    return {
+      isGoodForm: true,
+      issues: [],
+      phase: tracker.previousPhase,
+      repCompleted: false,
+      kneeAngle: angles.kneeAngle,
+      hipAngle: angles.hipAngle,
+      torsoAngle: angles.torsoAngle,
+      view: tracker.view ?? detectViewAngle(points),
+      unassessable: [],
+      inFrame: false,
+      hiddenParts,
+    };
+  }
 
-  // Calculate angles
-  const kneeAngle = getKneeAngle(hip, knee, ankle);
-  const hipAngle = getHipAngle(shoulder, hip, knee);
+  // Steady the pose model's jitter before measuring anything
+  const smoothed = filterLandmarks(tracker.landmarkFilter, landmarks, timestamp, smoothing.filter);
+  const points = getBodyPoints(smoothed);
+  const view = trackViewAngle(tracker, detectViewAngle(points));
+  const measured = getBodyAngles(points);
+  const angles =
+    view === "front" ? { ...measured, ...getFrontalKneeAngles(tracker, points) } : measured;
+  tracker.lastFrame = { points, angles };
+  const metric = angles[definition.phaseMetric];
 
   // Track initial knee angle for the rep
   if (tracker.initialKneeAngle === null) {
-    tracker.initialKneeAngle = kneeAngle;
+    tracker.initialKneeAngle = angles.kneeAngle;
   }
 
-  // Determine phase based on hip angle (deadlift is hip-hinge dominant)
-  let phase: Phase = "standing";
-  let repCompleted = false;
+  // Determine phase from the exercise's phase metric, holding each phase for
+  // the minimum dwell time
+  const previous = tracker.previousPhase;
+  let phase = getNextPhase(tracker, metric, thresholds, smoothing.hysteresis);
+  if (
+    phase !== previous &&
+    tracker.phaseStartedAt !== null &&
+    timestamp - tracker.phaseStartedAt < smoothing.minDwellMs
+  ) {
+    phase = previous;
+  }
+  if (phase !== previous || tracker.phaseStartedAt === null) {
+    tracker.phaseStartedAt = timestamp;
+  }
 
-  if (hipAngle >= DEADLIFT_THRESHOLDS.STANDING_HIP_ANGLE) {
-    phase = "standing";
+  let repCompleted = false;
+  if (phase === "standing") {
+    // Check if rep was completed (came back up from bottom). Reaching "standing"
+    // anywhere but the exercise's top position, such as lowering a press to the
+    // sides, ends the rep without counting it.
     if (tracker.bottomReached && tracker.repInProgress) {
-      repCompleted = true;
+      repCompleted = definition.isRepTop?.(points) ?? true;
       tracker.repInProgress = false;
       tracker.bottomReached = false;
       tracker.initialKneeAngle = null;
     }
-  } else if (hipAngle <= DEADLIFT_THRESHOLDS.BOTTOM_HIP_ANGLE + 20) {
-    phase = "bottom";
+  } else if (phase === "bottom") {
     tracker.bottomReached = true;
     tracker.repInProgress = true;
-  } else if (hipAngle < tracker.previousKneeAngle) {
-    // Using previousKneeAngle to store previous hip angle for deadlift
-    phase = "descending";
+  } else if (phase === "descending") {
+    tracker.turnAngle = phase === previous ? Math.min(tracker.turnAngle, metric) : metric;
     if (!tracker.repInProgress) {
       tracker.repInProgress = true;
-      tracker.initialKneeAngle = kneeAngle;
+      tracker.initialKneeAngle = angles.kneeAngle;
     }
   } else {
-    phase = "ascending";
-  }
-
-  // Check for rounded back
-  // In a side view, shoulder should stay above or in line with hip
-  // A significant drop in shoulder Y relative to hip indicates rounding
-  const shoulderHipDiff = shoulder.y - hip.y;
-  if (phase !== "standing" && shoulderHipDiff > DEADLIFT_THRESHOLDS.ROUNDED_BACK_THRESHOLD / 100) {
-    issues.push("rounded_back");
-  }
-
-  // Check for excessive knee movement during lift
-  if (
-    phase === "ascending" &&
-    tracker.initialKneeAngle !== null &&
-    Math.abs(kneeAngle - tracker.initialKneeAngle) >
-      DEADLIFT_THRESHOLDS.KNEE_TRAVEL_MAX
-  ) {
-    // Knees straightened too much too early or bent during lift
-    issues.push("knees_too_far_forward");
+    tracker.turnAngle = phase === previous ? Math.max(tracker.turnAngle, metric) : metric;
   }
 
-  // Check for incomplete lockout at top
-  if (
-    phase === "standing" &&
-    hipAngle < DEADLIFT_THRESHOLDS.STANDING_HIP_ANGLE - 5
-  ) {
-    issues.push("lockout_incomplete");
-  }
+  // Run the checks that apply to this phase and can be judged from this camera angle
+  const context: FrameContext = { points, angles, phase, view, tracker, thresholds };
+  const issues: FormIssue[] = definition.checks
+    .filter(
+      (check) => check.phases.includes(phase) && check.views.includes(view) && check.test(context)
+    )
+    .map((check) => check.issue);
 
-  // Update tracker (using kneeAngle field to store hip angle for deadlift)
+  // Update tracker
   tracker.previousPhase = phase;
-  tracker.previousKneeAngle = hipAngle;
 
   return {
     isGoodForm: issues.length === 0,
     issues,
     phase,
     repCompleted,
-    kneeAngle,
-    hipAngle,
+    kneeAngle: angles.kneeAngle,
+    hipAngle: angles.hipAngle,
+    torsoAngle: angles.torsoAngle,
+    view,
+    unassessable: getUnassessableIssues(definition, view),
+    inFrame: true,
+    hiddenParts: [],
   };
 }
 
+// Analyze squat form from landmarks
+export function analyzeSquatForm(
+  landmarks: Landmark[],
+  tracker: PhaseTracker,
+  overrides?: ThresholdOverrides | null,
+  timestamp?: number
+): FormAnalysis {
+  return analyzeWithDefinition(EXERCISES.squat, landmarks, tracker, overrides, timestamp);
+}
+
+// Analyze deadlift form from landmarks
+export function analyzeDeadliftForm(
+  landmarks: Landmark[],
+  tracker: PhaseTracker,
+  overrides?: ThresholdOverrides | null,
+  timestamp?: number
+): FormAnalysis {
+  return analyzeWithDefinition(EXERCISES.deadlift, landmarks, tracker, overrides, timestamp);
+}
+
 // Main form analysis function that routes to the appropriate exercise checker
 export function analyzeForm(
   exercise: Exercise,
   landmarks: Landmark[],
-  tracker: PhaseTracker
+  tracker: PhaseTracker,
+  overrides?: ThresholdOverrides | null,
+  timestamp?: number
 ): FormAnalysis {
-  if (exercise === "squat") {
-    return analyzeSquatForm(landmarks, tracker);
-  } else {
-    return analyzeDeadliftForm(landmarks, tracker);
-  }
+  return analyzeWithDefinition(EXERCISES[exercise], landmarks, tracker, overrides, timestamp);
 }
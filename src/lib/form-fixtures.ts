@@ -0,0 +1,475 @@
+// Landmark fixtures for regression-testing the form checker without a camera
+// A fixture is either a recorded set (see ./recording) or a synthetic sequence
+// built from a few keyframed poses, plus the results it is expected to produce.
+
+import {
+  type Activity,
+  createExerciseRecognizer,
+  recognizeFrame,
+} from "./exercise-recognition";
+import { type Exercise, type ThresholdOverrides, isExercise } from "./exercises";
+import {
+  type FormAnalysis,
+  type FormIssue,
+  type Phase,
+  type ViewAngle,
+  analyzeForm,
+  createPhaseTracker,
+} from "./form-checker";
+import { BODY_PARTS, LANDMARKS, type BodyPart } from "./pose-utils";
+import {
+  RECORDING_LANDMARK_COUNT,
+  packLandmarks,
+  replayRecording,
+  unpackLandmarks,
+  type LandmarkFrame,
+} from "./recording";
+import { type RepRecord, createRepTracker, trackRepFrame } from "./rep-tracker";
+
+/**
+ * A pose as segment angles in degrees, in the lifter's own sagittal plane.
+ * Forward lean and flexion are positive.
+ */
+export interface PoseKeyframe {
+  t: number; // Milliseconds from the start of the cycle
+  shank?: number; // Shin lean from vertical
+  thigh?: number; // Thigh angle from vertical (90 = parallel to the floor)
+  torso?: number; // Torso lean from vertical, negative = leaning back
+  upperArm?: number; // Shoulder flexion (0 = hanging by the sides, 180 = overhead)
+  elbow?: number; // Elbow flexion (0 = straight)
+  kneeCave?: number; // Each knee's shift toward the midline
+  rearThigh?: number; // Right thigh angle for a split stance, as thigh (defaults to the left leg's)
+  rearShank?: number; // Right shin angle for a split stance, as shank (defaults to the left leg's)
+  hidden?: BodyPart[]; // Dropped out of view (visibility 0 at the origin) until the next keyframe
+}
+
+export interface SyntheticSequence {
+  fps?: number; // Frames generated per second (default 30)
+  repeat?: number; // Times the keyframe cycle is played back to back (default 1)
+  yaw?: number; // Camera angle around the lifter: 90 = side view (default), 0 = facing the camera
+  ankleX?: number; // Image x of the (left) ankles, to fit a lifter lying across the frame (default 0.5)
+  jitter?: number; // Largest random offset added to each landmark coordinate, like pose model noise
+  keyframes: PoseKeyframe[];
+}
+
+export interface FixtureExpectations {
+  recognized?: Activity[]; // Activities the exercise recognizer settled on, in order
+  view?: ViewAngle; // Camera angle detected on the last frame in view
+  reps?: number;
+  phases?: Phase[]; // Exact phase sequence, consecutive repeats collapsed
+  issues?: FormIssue[]; // Exact set of issues flagged at least once
+  repIssues?: FormIssue[][]; // Exact issues attributed to each completed rep
+}
+
+// Fixture exercise type that lets the exercise recognizer pick the analyzer
+export const AUTO_DETECT = "auto";
+
+export interface FormFixture {
+  description?: string;
+  exerciseType: string; // An exercise id, or AUTO_DETECT
+  frames?: LandmarkFrame[]; // Recorded landmark stream
+  synthetic?: SyntheticSequence | SyntheticSequence[]; // Used when there are no recorded frames; a list plays back to back
+  thresholds?: ThresholdOverrides; // Calibrated thresholds to analyze with
+  expect?: FixtureExpectations;
+}
+
+export interface FixtureResult {
+  frameCount: number;
+  recognized: Activity[];
+  hiddenFrames: number; // Frames skipped because the lifter wasn't fully in view
+  view: ViewAngle | null;
+  reps: number;
+  phases: Phase[];
+  issues: FormIssue[];
+  repIssues: FormIssue[][];
+}
+
+type Point = { x: number; y: number };
+type Landmark = { x: number; y: number; z: number; visibility: number };
+
+const DEFAULT_FPS = 30;
+const DEFAULT_YAW = 90;
+
+// Segment lengths in normalized image units, roughly a lifter filling the frame
+const SHANK_LENGTH = 0.22;
+const THIGH_LENGTH = 0.22;
+const TORSO_LENGTH = 0.28;
+const UPPER_ARM_LENGTH = 0.16;
+const FOREARM_LENGTH = 0.14;
+const HEAD_OFFSET = 0.08;
+const ANKLE: Point = { x: 0, y: 0.9 };
+const DEFAULT_ANKLE_X = 0.5;
+
+// Half the distance between left and right joints, measured across the body
+const HALF_WIDTHS: Record<"shoulder" | "arm" | "hip" | "leg", number> = {
+  shoulder: 0.1,
+  arm: 0.11,
+  hip: 0.07,
+  leg: 0.07,
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Move from a point along a direction given in degrees from straight down (forward positive)
+function step(from: Point, length: number, degreesFromDown: number): Point {
+  const angle = toRadians(degreesFromDown);
+  return { x: from.x + length * Math.sin(angle), y: from.y + length * Math.cos(angle) };
+}
+
+/**
+ * Build all 33 landmarks for a pose seen from a camera angle.
+ * Segment angles place each joint in the sagittal plane (x forward, y down);
+ * left and right joints sit either side of it and the whole body is then
+ * rotated by the camera yaw, with depth ending up in z. The left leg stands
+ * on the ankle; in a split stance the right leg hangs from the hip instead.
+ */
+export function buildPose(
+  pose: PoseKeyframe,
+  yaw: number = DEFAULT_YAW,
+  ankleX: number = DEFAULT_ANKLE_X
+): Landmark[] {
+  const {
+    shank = 0,
+    thigh = 0,
+    torso = 0,
+    upperArm = 0,
+    elbow = 0,
+    kneeCave = 0,
+    rearThigh,
+    rearShank,
+    hidden = [],
+  } = pose;
+
+  const knee = step(ANKLE, SHANK_LENGTH, 180 - shank);
+  const hip = step(knee, THIGH_LENGTH, 180 + thigh);
+  const shoulder = step(hip, TORSO_LENGTH, 180 - torso);
+  // Hanging arms follow the torso line; flexion rotates them forward
+  const elbowPoint = step(shoulder, UPPER_ARM_LENGTH, upperArm - torso);
+  const wrist = step(elbowPoint, FOREARM_LENGTH, upperArm - torso + elbow);
+  const head = step(shoulder, HEAD_OFFSET, 180 - torso);
+  const split = rearThigh !== undefined || rearShank !== undefined;
+  const rearKnee = split ? step(hip, THIGH_LENGTH, rearThigh ?? thigh) : knee;
+  const rearAnkle = split ? step(rearKnee, SHANK_LENGTH, -(rearShank ?? shank)) : ANKLE;
+
+  // Lifter's left is +lateral; a side view looks along the lateral axis
+  const angle = toRadians(yaw);
+  const project = (point: Point, lateral: number): Landmark => ({
+    x: ankleX + point.x * Math.sin(angle) + lateral * Math.cos(angle),
+    y: point.y,
+    z: point.x * Math.cos(angle) - lateral * Math.sin(angle),
+    visibility: 1,
+  });
+
+  const landmarks: Landmark[] = Array.from({ length: RECORDING_LANDMARK_COUNT }, () =>
+    project(head, 0)
+  );
+  const assign = (left: number[], right: number[], point: Point, halfWidth: number) => {
+    left.forEach((index) => (landmarks[index] = project(point, halfWidth)));
+    right.forEach((index) => (landmarks[index] = project(point, -halfWidth)));
+  };
+
+  assign([LANDMARKS.LEFT_SHOULDER], [LANDMARKS.RIGHT_SHOULDER], shoulder, HALF_WIDTHS.shoulder);
+  assign([LANDMARKS.LEFT_ELBOW], [LANDMARKS.RIGHT_ELBOW], elbowPoint, HALF_WIDTHS.arm);
+  assign(
+    [LANDMARKS.LEFT_WRIST, LANDMARKS.LEFT_PINKY, LANDMARKS.LEFT_INDEX, LANDMARKS.LEFT_THUMB],
+    [LANDMARKS.RIGHT_WRIST, LANDMARKS.RIGHT_PINKY, LANDMARKS.RIGHT_INDEX, LANDMARKS.RIGHT_THUMB],
+    wrist,
+    HALF_WIDTHS.arm
+  );
+  assign([LANDMARKS.LEFT_HIP], [LANDMARKS.RIGHT_HIP], hip, HALF_WIDTHS.hip);
+  // Caving knees move toward the midline
+  assign([LANDMARKS.LEFT_KNEE], [], knee, HALF_WIDTHS.leg - kneeCave);
+  assign([], [LANDMARKS.RIGHT_KNEE], rearKnee, HALF_WIDTHS.leg - kneeCave);
+  assign(
+    [LANDMARKS.LEFT_ANKLE, LANDMARKS.LEFT_HEEL, LANDMARKS.LEFT_FOOT_INDEX],
+    [],
+    ANKLE,
+    HALF_WIDTHS.leg
+  );
+  assign(
+    [],
+    [LANDMARKS.RIGHT_ANKLE, LANDMARKS.RIGHT_HEEL, LANDMARKS.RIGHT_FOOT_INDEX],
+    rearAnkle,
+    HALF_WIDTHS.leg
+  );
+
+  // A landmark MediaPipe lost, as the form checker would otherwise read it
+  for (const part of hidden) {
+    BODY_PARTS[part].forEach((index) => (landmarks[index] = { x: 0, y: 0, z: 0, visibility: 0 }));
+  }
+
+  return landmarks;
+}
+
+// Deterministic pseudo-random numbers in [0, 1) (mulberry32), so jittered fixtures repeat exactly
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function interpolate(from: PoseKeyframe, to: PoseKeyframe, t: number): PoseKeyframe {
+  const span = to.t - from.t;
+  const ratio = span > 0 ? (t - from.t) / span : 1;
+  type Angle = Exclude<keyof PoseKeyframe, "t" | "hidden">;
+  // An unset angle is 0, or the same angle of the other leg when one is named
+  const mix = (key: Angle, fallback?: Angle) => {
+    const start = from[key] ?? (fallback ? from[fallback] : 0) ?? 0;
+    const end = to[key] ?? (fallback ? to[fallback] : 0) ?? 0;
+    return start + (end - start) * ratio;
+  };
+  // A split stance blends from the mirrored left leg when only one keyframe sets it
+  const split = [from, to].some(
+    (keyframe) => keyframe.rearThigh !== undefined || keyframe.rearShank !== undefined
+  );
+
+  return {
+    t,
+    shank: mix("shank"),
+    thigh: mix("thigh"),
+    torso: mix("torso"),
+    upperArm: mix("upperArm"),
+    elbow: mix("elbow"),
+    kneeCave: mix("kneeCave"),
+    ...(split
+      ? {
+          rearThigh: mix("rearThigh", "thigh"),
+          rearShank: mix("rearShank", "shank"),
+        }
+      : {}),
+    ...(from.hidden ? { hidden: from.hidden } : {}),
+  };
+}
+
+/**
+ * Expand keyframes into a landmark stream, interpolating linearly between them
+ */
+export function generateFrames(sequence: SyntheticSequence): LandmarkFrame[] {
+  const fps = sequence.fps ?? DEFAULT_FPS;
+  const keyframes = [...sequence.keyframes].sort((a, b) => a.t - b.t);
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (!first || !last) return [];
+
+  const cycle = last.t - first.t;
+  const repeat = Math.max(1, sequence.repeat ?? 1);
+  const yaw = sequence.yaw ?? DEFAULT_YAW;
+  const ankleX = sequence.ankleX ?? DEFAULT_ANKLE_X;
+  const jitter = sequence.jitter ?? 0;
+  const random = createRandom(1);
+  const total = cycle * repeat;
+  const frames: LandmarkFrame[] = [];
+
+  for (let frame = 0; (frame * 1000) / fps <= total; frame++) {
+    const t = (frame * 1000) / fps;
+    // Position within the cycle; the very end of the sequence lands on the last keyframe
+    const offset = t >= total ? cycle : cycle > 0 ? t % cycle : 0;
+    const local = first.t + offset;
+    const nextIndex = keyframes.findIndex((keyframe) => keyframe.t >= local);
+    const to = keyframes[Math.max(nextIndex, 0)] ?? last;
+    const from = keyframes[Math.max(nextIndex - 1, 0)] ?? first;
+
+    const pose = buildPose(interpolate(from, to, local), yaw, ankleX).map((landmark) =>
+      jitter > 0 && landmark.visibility > 0
+        ? {
+            ...landmark,
+            x: landmark.x + (random() * 2 - 1) * jitter,
+            y: landmark.y + (random() * 2 - 1) * jitter,
+          }
+        : landmark
+    );
+    frames.push({ t: Math.round(t), landmarks: packLandmarks(pose) });
+  }
+  return frames;
+}
+
+/**
+ * Expand synthetic sequences into one landmark stream, played back to back
+ */
+export function generateSequences(sequences: SyntheticSequence[]): LandmarkFrame[] {
+  const frames: LandmarkFrame[] = [];
+  for (const sequence of sequences) {
+    const last = frames[frames.length - 1];
+    const offset = last ? last.t + 1000 / (sequence.fps ?? DEFAULT_FPS) : 0;
+    generateFrames(sequence).forEach((frame) =>
+      frames.push({ ...frame, t: Math.round(offset + frame.t) })
+    );
+  }
+  return frames;
+}
+
+interface AnalyzedFrame {
+  analysis: FormAnalysis;
+  completedRep: RepRecord | null;
+}
+
+/**
+ * Analyze a stream the way the auto-detect workout does: each newly recognized
+ * exercise gets a fresh analyzer that starts from the window of frames it was
+ * recognized in. Nothing is analyzed while idle.
+ */
+function analyzeRecognized(
+  frames: LandmarkFrame[],
+  thresholds: ThresholdOverrides | null
+): { analyzed: AnalyzedFrame[]; recognized: Activity[] } {
+  const recognizer = createExerciseRecognizer<Landmark>();
+  const recognized: Activity[] = [];
+  const analyzed: AnalyzedFrame[] = [];
+  let exercise: Exercise | null = null;
+  let tracker = createPhaseTracker();
+  let repTracker = createRepTracker();
+
+  const analyze = (current: Exercise, landmarks: Landmark[], timestamp: number) => {
+    const analysis = analyzeForm(current, landmarks, tracker, thresholds, timestamp);
+    analyzed.push({ analysis, completedRep: trackRepFrame(repTracker, analysis, timestamp) });
+  };
+
+  for (const frame of frames) {
+    const landmarks = unpackLandmarks(frame.landmarks);
+    const { activity, changed } = recognizeFrame(recognizer, landmarks, frame.t);
+    if (changed && activity) {
+      recognized.push(activity);
+      exercise = activity === "idle" ? null : activity;
+      if (exercise) {
+        tracker = createPhaseTracker();
+        repTracker = createRepTracker();
+        for (const windowFrame of recognizer.frames) {
+          analyze(exercise, windowFrame.landmarks, windowFrame.t);
+        }
+        continue;
+      }
+    }
+    if (exercise) {
+      analyze(exercise, landmarks, frame.t);
+    }
+  }
+
+  return { analyzed, recognized };
+}
+
+/**
+ * Run a fixture through the form checker with a fresh phase tracker.
+ * An AUTO_DETECT fixture is analyzed as whichever exercise is recognized.
+ */
+export function runFixture(fixture: FormFixture): FixtureResult {
+  const { exerciseType } = fixture;
+  if (exerciseType !== AUTO_DETECT && !isExercise(exerciseType)) {
+    throw new Error(`Unknown exercise "${exerciseType}"`);
+  }
+
+  const frames =
+    fixture.frames ?? (fixture.synthetic ? generateSequences([fixture.synthetic].flat()) : []);
+  const thresholds = fixture.thresholds ?? null;
+
+  let analyzed: AnalyzedFrame[];
+  let recognized: Activity[];
+  if (isExercise(exerciseType)) {
+    analyzed = replayRecording(
+      exerciseType,
+      { version: 1, exerciseType, setIndex: 1, startedAt: 0, frames },
+      thresholds
+    );
+    // Recognition runs alongside, to check it agrees with the fixture's exercise
+    recognized = analyzeRecognized(frames, thresholds).recognized;
+  } else {
+    ({ analyzed, recognized } = analyzeRecognized(frames, thresholds));
+  }
+
+  const phases: Phase[] = [];
+  let view: ViewAngle | null = null;
+  let hiddenFrames = 0;
+  let reps = 0;
+  const issues = new Set<FormIssue>();
+  const repIssues: FormIssue[][] = [];
+  for (const frame of analyzed) {
+    if (phases[phases.length - 1] !== frame.analysis.phase) {
+      phases.push(frame.analysis.phase);
+    }
+    frame.analysis.issues.forEach((issue) => issues.add(issue));
+    if (frame.analysis.inFrame) {
+      view = frame.analysis.view;
+    } else {
+      hiddenFrames++;
+    }
+    if (frame.completedRep) {
+      reps++;
+      repIssues.push(frame.completedRep.issues);
+    }
+  }
+
+  return {
+    frameCount: frames.length,
+    recognized,
+    hiddenFrames,
+    view,
+    reps,
+    phases,
+    issues: Array.from(issues),
+    repIssues,
+  };
+}
+
+function formatList(values: readonly string[]): string {
+  return values.length > 0 ? values.join(", ") : "(none)";
+}
+
+function sameSet(a: readonly string[], b: readonly string[]): boolean {
+  const sorted = (values: readonly string[]) => [...new Set(values)].sort().join("|");
+  return sorted(a) === sorted(b);
+}
+
+/**
+ * Compare a run against the fixture's expectations
+ *
+ * @returns One message per mismatch, empty when everything matched
+ */
+export function checkFixture(expect: FixtureExpectations, result: FixtureResult): string[] {
+  const failures: string[] = [];
+
+  if (expect.recognized && expect.recognized.join(">") !== result.recognized.join(">")) {
+    failures.push(
+      `expected to recognize ${formatList(expect.recognized)}, recognized ${formatList(result.recognized)}`
+    );
+  }
+  if (expect.view !== undefined && expect.view !== result.view) {
+    failures.push(`expected the ${expect.view} view, detected ${result.view ?? "none"}`);
+  }
+  if (expect.reps !== undefined && expect.reps !== result.reps) {
+    failures.push(`expected ${expect.reps} reps, counted ${result.reps}`);
+  }
+  if (expect.phases && expect.phases.join(">") !== result.phases.join(">")) {
+    failures.push(
+      `expected phases ${expect.phases.join(" > ")}, saw ${result.phases.join(" > ")}`
+    );
+  }
+  if (expect.issues && !sameSet(expect.issues, result.issues)) {
+    failures.push(
+      `expected issues ${formatList(expect.issues)}, flagged ${formatList(result.issues)}`
+    );
+  }
+  if (expect.repIssues) {
+    if (expect.repIssues.length !== result.repIssues.length) {
+      failures.push(
+        `expected issues for ${expect.repIssues.length} reps, got ${result.repIssues.length}`
+      );
+    } else {
+      expect.repIssues.forEach((expected, i) => {
+        const actual = result.repIssues[i] ?? [];
+        if (!sameSet(expected, actual)) {
+          failures.push(
+            `rep ${i + 1}: expected issues ${formatList(expected)}, flagged ${formatList(actual)}`
+          );
+        }
+      });
+    }
+  }
+
+  return failures;
+}
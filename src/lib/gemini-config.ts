@@ -1,12 +1,17 @@
 // Gemini Live API Configuration for GymCoach
 
+import { type Exercise, getExerciseDefinition } from "./exercises";
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from "./i18n";
+import { MESSAGES } from "./messages";
+import { getCueText } from "./voice-cues";
+
 export const GEMINI_CONFIG = {
   // Model that supports bidiGenerateContent (real-time streaming)
   MODEL: "gemini-2.0-flash-exp",
 
-  // WebSocket endpoint for Gemini Live API
+  // WebSocket endpoint for Gemini Live API sessions opened with an ephemeral token
   WEBSOCKET_URL:
-    "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent",
+    "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContentConstrained",
 
   // Video settings
   VIDEO_FPS: 1, // Gemini processes at 1 FPS
@@ -19,26 +24,39 @@ export const GEMINI_CONFIG = {
 
   // Session settings
   SESSION_TIMEOUT_MS: 10 * 60 * 1000, // 10 minutes max session
+  TOKEN_CONNECT_WINDOW_MS: 60 * 1000, // Ephemeral token must be used within 1 minute
+
+  // Session creation rate limit (per user)
+  SESSION_RATE_LIMIT: 5,
+  SESSION_RATE_LIMIT_WINDOW_MS: 10 * 60 * 1000,
 } as const;
 
-export type ExerciseType = "squat" | "deadlift";
-
-// System prompt for the AI gym coach
-export function getGymCoachSystemPrompt(exercise: ExerciseType): string {
-  const exerciseGuidance =
-    exercise === "squat"
-      ? `### For Squats:
-- Knee tracking over toes (not caving inward)
-- Depth (thighs parallel to floor or below)
-- Back position (straight, not rounded)
-- Chest up, not leaning too far forward
-- Weight distribution (heels on ground)`
-      : `### For Deadlifts:
-- Back position (neutral spine, not rounded)
-- Bar path (close to body)
-- Hip hinge pattern (push hips back)
-- Lockout at top (full hip extension)
-- Head position (neutral, not looking up)`;
+// Instructions to coach in another language, quoting the same cues the app speaks
+// so the AI coach and the on-device voice sound alike
+function getLanguageSection(exercise: Exercise, locale: Locale): string {
+  const { englishName, name } = LOCALE_INFO[locale];
+  const issues = [...new Set(getExerciseDefinition(exercise).checks.map((check) => check.issue))];
+
+  return `
+
+## Language
+- Speak ONLY in ${englishName} (${name}), including greetings, rep counts and answers to questions
+- The user calls this exercise: ${MESSAGES[locale].exerciseNames[exercise]}
+- Use natural, everyday ${englishName} a gym coach would use, not literal translations
+- Use these cues for the form issues above:
+${issues.map((issue) => `  - ${getCueText("en", issue)}: "${getCueText(locale, issue)}"`).join("\n")}
+- Praise a good rep with: "${getCueText(locale, "good_rep")}"`;
+}
+
+// System prompt for the AI gym coach, in the user's coaching language
+export function getGymCoachSystemPrompt(
+  exercise: Exercise,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const definition = getExerciseDefinition(exercise);
+  const exerciseGuidance = `### For ${definition.pluralName}:
+${definition.coachGuidance.map((point) => `- ${point}`).join("\n")}`;
+  const languageSection = locale === DEFAULT_LOCALE ? "" : getLanguageSection(exercise, locale);
 
   return `You are an expert personal trainer and gym coach providing real-time exercise form feedback through video observation.
 
@@ -49,7 +67,7 @@ export function getGymCoachSystemPrompt(exercise: ExerciseType): string {
 - Count repetitions and announce them
 
 ## Exercise Being Performed
-The user is performing: **${exercise.toUpperCase()}**
+The user is performing: **${definition.name.toUpperCase()}**
 
 ## Key Form Points to Watch
 
@@ -74,7 +92,7 @@ ${exerciseGuidance}
 - Focus on overall form patterns, not micro-movements
 - If you can't see the user clearly, ask them to adjust camera position
 - Prioritize safety - if you see dangerous form, be emphatic about corrections
-- Start by greeting the user and confirming you can see them ready to exercise`;
+- Start by greeting the user and confirming you can see them ready to exercise${languageSection}`;
 }
 
 // Voice configuration for natural-sounding speech
@@ -34,6 +34,7 @@ export interface GeminiSessionSettings {
 
 export interface GeminiSessionResponse {
   wsUrl: string;
+  expiresAt: number; // Epoch ms after which the server-issued token stops working
   setupConfig: GeminiSetupConfig;
   settings: GeminiSessionSettings;
 }
@@ -55,6 +56,7 @@ export class GeminiLiveClient {
   private options: GeminiLiveClientOptions;
   private settings: GeminiSessionSettings | null = null;
   private setupComplete: boolean = false;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 3;
 
@@ -72,6 +74,7 @@ export class GeminiLiveClient {
 
     this.settings = sessionResponse.settings;
     this.setState("connecting");
+    this.scheduleExpiry(sessionResponse.expiresAt);
 
     return new Promise((resolve, reject) => {
       try {
@@ -118,6 +121,25 @@ export class GeminiLiveClient {
     });
   }
 
+  /**
+   * Close the session when its token expires so we never stream into a dead socket
+   */
+  private scheduleExpiry(expiresAt: number): void {
+    this.clearExpiry();
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.options.onError?.(new Error("Coaching session expired"));
+      this.disconnect();
+    }, Math.max(0, expiresAt - Date.now()));
+  }
+
+  private clearExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
   /**
    * Send setup configuration to initialize the session
    */
@@ -301,6 +323,7 @@ export class GeminiLiveClient {
    * Disconnect from Gemini
    */
   disconnect(): void {
+    this.clearExpiry();
     if (this.ws) {
       this.ws.close();
       this.ws = null;
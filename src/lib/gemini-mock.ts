@@ -0,0 +1,145 @@
+// Scripted stand-in for the Gemini Live API
+// Speaks the same JSON message protocol as BidiGenerateContent so the
+// browser client can be exercised end to end without network access.
+
+export interface MockTurn {
+  text?: string;
+  audioMs?: number; // Length of the generated audio chunk, omitted = no audio
+}
+
+export interface MockScript {
+  greeting: MockTurn[]; // Sent once the first media arrives
+  cues: MockTurn[]; // Cycled while the user streams media
+  cueIntervalMs: number;
+  replies: MockTurn[]; // Cycled whenever the user sends a text turn
+}
+
+export interface MockSession {
+  handleMessage: (raw: string) => void;
+  close: () => void;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  greeting: [{ text: "I can see you. Let's get started!", audioMs: 800 }],
+  cues: [
+    { text: "Looking good", audioMs: 400 },
+    { text: "Chest up", audioMs: 400 },
+    { text: "Nice and controlled", audioMs: 500 },
+  ],
+  cueIntervalMs: 8000,
+  replies: [{ text: "Keep going, you're doing great.", audioMs: 700 }],
+};
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TONE_HZ = 440;
+const TONE_AMPLITUDE = 0.1;
+
+// Quiet sine tone as 16-bit little-endian PCM, base64-encoded like Gemini audio
+function generateToneBase64(durationMs: number): string {
+  const sampleCount = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = Math.sin((2 * Math.PI * TONE_HZ * i) / OUTPUT_SAMPLE_RATE);
+    buffer.writeInt16LE(Math.round(sample * TONE_AMPLITUDE * 0x7fff), i * 2);
+  }
+  return buffer.toString("base64");
+}
+
+function turnToParts(turn: MockTurn) {
+  const parts: Record<string, unknown>[] = [];
+  if (turn.audioMs) {
+    parts.push({
+      inlineData: {
+        mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+        data: generateToneBase64(turn.audioMs),
+      },
+    });
+  }
+  if (turn.text) {
+    parts.push({ text: turn.text });
+  }
+  return parts;
+}
+
+/**
+ * Create a mock session for one connection
+ *
+ * @param script - Canned responses to replay
+ * @param send - Delivers a server message to the client
+ */
+export function createMockSession(
+  script: MockScript,
+  send: (message: object) => void
+): MockSession {
+  let setupDone = false;
+  let greeted = false;
+  let closed = false;
+  let lastCueAt = 0;
+  let cueIndex = 0;
+  let replyIndex = 0;
+
+  const sendTurn = (turns: MockTurn[]) => {
+    for (const turn of turns) {
+      send({ serverContent: { modelTurn: { parts: turnToParts(turn) } } });
+    }
+    send({ serverContent: { turnComplete: true } });
+  };
+
+  const handleMediaInput = () => {
+    const now = Date.now();
+
+    if (!greeted) {
+      greeted = true;
+      lastCueAt = now;
+      sendTurn(script.greeting);
+      return;
+    }
+
+    const cue = script.cues[cueIndex % Math.max(script.cues.length, 1)];
+    if (cue && now - lastCueAt >= script.cueIntervalMs) {
+      lastCueAt = now;
+      cueIndex++;
+      sendTurn([cue]);
+    }
+  };
+
+  const handleTextInput = () => {
+    const reply = script.replies[replyIndex % Math.max(script.replies.length, 1)];
+    if (reply) {
+      replyIndex++;
+      sendTurn([reply]);
+    }
+  };
+
+  return {
+    handleMessage(raw: string) {
+      if (closed) return;
+
+      let message: Record<string, unknown>;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        return;
+      }
+
+      if (message.setup) {
+        setupDone = true;
+        send({ setupComplete: {} });
+        return;
+      }
+
+      // Like the real API, ignore everything until setup has completed
+      if (!setupDone) return;
+
+      if (message.realtimeInput) {
+        handleMediaInput();
+      } else if (message.clientContent) {
+        handleTextInput();
+      }
+    },
+
+    close() {
+      closed = true;
+    },
+  };
+}
@@ -0,0 +1,160 @@
+// WebSocket relay between the browser and Gemini Live
+// Terminates the browser connection so coaching sessions can be logged and
+// throttled, then forwards to the upstream API or to the scripted mock.
+
+import { randomUUID } from "crypto";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { createMockSession, DEFAULT_MOCK_SCRIPT, type MockScript } from "./gemini-mock";
+
+export type GeminiRelayBackend = "live" | "mock";
+
+export interface GeminiRelayOptions {
+  port: number;
+  backend: GeminiRelayBackend;
+  upstreamUrl: string; // Constrained Live endpoint, used by the live backend
+  mockScript?: MockScript;
+  maxMessagesPerSecond?: number;
+  log: (message: string) => void;
+}
+
+interface RelayStats {
+  fromClient: number;
+  fromUpstream: number;
+  dropped: number;
+}
+
+const DEFAULT_MAX_MESSAGES_PER_SECOND = 20;
+
+// Gemini sends JSON in binary frames; forward it as text so browsers get a string
+function toText(data: RawData): string {
+  if (Array.isArray(data)) return Buffer.concat(data).toString("utf8");
+  if (data instanceof ArrayBuffer) return Buffer.from(data).toString("utf8");
+  return data.toString("utf8");
+}
+
+// Setup and user turns are never throttled, only streamed media
+function isThrottleable(raw: string): boolean {
+  return raw.includes('"realtimeInput"');
+}
+
+/**
+ * Start the relay server
+ */
+export function startGeminiRelay(options: GeminiRelayOptions): WebSocketServer {
+  const { log } = options;
+  const maxMessagesPerSecond = options.maxMessagesPerSecond ?? DEFAULT_MAX_MESSAGES_PER_SECOND;
+  const server = new WebSocketServer({ port: options.port });
+
+  server.on("connection", (client, request) => {
+    const sessionId = randomUUID().slice(0, 8);
+    const url = new URL(request.url ?? "/", "http://relay");
+    const accessToken = url.searchParams.get("access_token");
+
+    if (!accessToken) {
+      log(`[${sessionId}] rejected: missing access token`);
+      client.close(1008, "Missing access token");
+      return;
+    }
+
+    const stats: RelayStats = { fromClient: 0, fromUpstream: 0, dropped: 0 };
+    const openedAt = Date.now();
+    let windowStart = openedAt;
+    let windowCount = 0;
+
+    const allowMessage = (raw: string): boolean => {
+      if (!isThrottleable(raw)) return true;
+      const now = Date.now();
+      if (now - windowStart >= 1000) {
+        windowStart = now;
+        windowCount = 0;
+      }
+      windowCount++;
+      return windowCount <= maxMessagesPerSecond;
+    };
+
+    const sendToClient = (raw: string) => {
+      if (client.readyState === WebSocket.OPEN) {
+        stats.fromUpstream++;
+        client.send(raw);
+      }
+    };
+
+    log(`[${sessionId}] opened (${options.backend})`);
+
+    client.on("close", (code) => {
+      const seconds = Math.round((Date.now() - openedAt) / 1000);
+      log(
+        `[${sessionId}] closed ${code} after ${seconds}s - ` +
+          `${stats.fromClient} in, ${stats.fromUpstream} out, ${stats.dropped} dropped`
+      );
+    });
+
+    if (options.backend === "mock") {
+      const session = createMockSession(options.mockScript ?? DEFAULT_MOCK_SCRIPT, (message) =>
+        sendToClient(JSON.stringify(message))
+      );
+
+      client.on("message", (data) => {
+        const raw = toText(data);
+        if (!allowMessage(raw)) {
+          stats.dropped++;
+          return;
+        }
+        stats.fromClient++;
+        session.handleMessage(raw);
+      });
+      client.on("close", () => session.close());
+      return;
+    }
+
+    const upstream = new WebSocket(
+      `${options.upstreamUrl}?access_token=${encodeURIComponent(accessToken)}`
+    );
+    // Messages sent by the browser before the upstream socket opens
+    const pending: string[] = [];
+
+    upstream.on("open", () => {
+      for (const raw of pending.splice(0)) {
+        upstream.send(raw);
+      }
+    });
+
+    upstream.on("message", (data) => sendToClient(toText(data)));
+
+    upstream.on("close", (code, reason) => {
+      if (client.readyState === WebSocket.OPEN) {
+        // 1005/1006 can't be sent in a close frame
+        client.close(code === 1005 || code === 1006 ? 1011 : code, reason.toString());
+      }
+    });
+
+    upstream.on("error", (error) => {
+      log(`[${sessionId}] upstream error: ${error.message}`);
+      if (client.readyState === WebSocket.OPEN) {
+        client.close(1011, "Upstream connection failed");
+      }
+    });
+
+    client.on("message", (data) => {
+      const raw = toText(data);
+      if (!allowMessage(raw)) {
+        stats.dropped++;
+        return;
+      }
+      stats.fromClient++;
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(raw);
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        pending.push(raw);
+      }
+    });
+
+    client.on("close", () => {
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+        upstream.close();
+      }
+    });
+  });
+
+  return server;
+}
@@ -0,0 +1,62 @@
+// Languages the coach speaks and the workout pages are shown in
+// Shared by the server (coaching prompt, stored preference) and the client.
+
+export type Locale = "en" | "ar";
+
+export const LOCALES = ["en", "ar"] as const satisfies readonly Locale[];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export interface LocaleInfo {
+  name: string; // In the language itself, for the language picker
+  englishName: string;
+  speechLang: string; // BCP 47 tag for speech synthesis
+  direction: "ltr" | "rtl";
+  listSeparator: string; // Between all but the last two items of a list
+  listConjunction: string; // Before the last item of a list
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  en: {
+    name: "English",
+    englishName: "English",
+    speechLang: "en-US",
+    direction: "ltr",
+    listSeparator: ", ",
+    listConjunction: " and ",
+  },
+  ar: {
+    name: "العربية",
+    englishName: "Arabic",
+    speechLang: "ar-SA",
+    direction: "rtl",
+    listSeparator: "، ",
+    listConjunction: " و",
+  },
+};
+
+/**
+ * Check whether a value is a supported locale
+ */
+export function isLocale(value: string | null | undefined): value is Locale {
+  return value !== null && value !== undefined && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Join items into a sentence list: "a", "a and b", "a, b and c"
+ */
+export function formatList(items: readonly string[], locale: Locale = DEFAULT_LOCALE): string {
+  const { listSeparator, listConjunction } = LOCALE_INFO[locale];
+  const rest = items.slice(0, -1);
+  const last = items[items.length - 1] ?? "";
+  return rest.length > 0 ? `${rest.join(listSeparator)}${listConjunction}${last}` : last;
+}
+
+/**
+ * Fill {name} placeholders in a template
+ */
+export function interpolate(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
@@ -0,0 +1,688 @@
+// UI strings for the workout pages in every supported language
+// {placeholders} are filled in with interpolate() from ./i18n.
+
+import {
+  EXERCISE_IDS,
+  type Exercise,
+  type ExerciseDefinition,
+  getExerciseDefinition,
+  isExercise,
+} from "./exercises";
+import {
+  ISSUE_LABELS,
+  isFormIssue,
+  VIEW_LABELS,
+  type FormIssue,
+  type ViewAngle,
+} from "./form-checker";
+import { interpolate, type Locale } from "./i18n";
+import type { CueMode } from "./cue-modes";
+import type { BodyPart } from "./pose-utils";
+import type { ProgressionReason, ProgressionReasonCode } from "./progression";
+
+export interface Messages {
+  exerciseNames: Record<Exercise, string>;
+  exerciseDescriptions: Record<Exercise, string>;
+  issueLabels: Record<FormIssue, string>; // Short names, used in sentences
+  viewLabels: Record<ViewAngle, string>; // Completes "Filmed from ..."
+  bodyParts: Record<BodyPart, string>;
+  progressionReasons: Record<ProgressionReasonCode, string>;
+  common: {
+    back: string;
+    tryAgain: string;
+    startingCamera: string;
+    loadingPose: string;
+    filmedFrom: string; // {view}
+    language: string;
+  };
+  selection: {
+    backToHome: string;
+    title: string;
+    subtitle: string;
+    autoDetectTitle: string;
+    autoDetectDescription: string;
+    start: string;
+    next: string; // {sets}, {reps}, {weight}
+    cameraTip: string;
+    sideTip: string;
+  };
+  live: {
+    coachOff: string;
+    coachConnecting: string;
+    coachActive: string;
+    coachError: string;
+    coachDisconnected: string;
+    speaking: string;
+    turnCoachOff: string;
+    turnCoachOn: string;
+    muteMic: string;
+    enableMic: string;
+    trackingActive: string;
+    trackingOff: string;
+    recording: string;
+    coachWatching: string;
+    countingOnDevice: string;
+    planned: string; // {name}, {sets}, {reps}, {weight}
+    suggested: string; // {sets}, {reps}, {weight}, {reason}
+    recordSets: string;
+    calibratedThresholds: string;
+    defaultThresholds: string;
+    recalibrate: string;
+    calibrate: string;
+  };
+  auto: {
+    title: string;
+    startExercise: string;
+    resting: string; // {time}
+    waiting: string;
+    setReps: string; // {set}, {reps}
+    done: string; // {exercise}, {reps}
+    intro: string; // {exercises}
+  };
+  formIndicator: {
+    stepBack: string;
+    cantSee: string; // {parts}
+    goodForm: string;
+    checkForm: string;
+    cantCheck: string; // {issues}, {view}
+  };
+  repCounter: {
+    setOf: string; // {set}, {sets}
+    repsOfTarget: string; // {reps}, {target}
+    repsThisSet: string; // {reps}
+    reps: string;
+    good: string;
+    bad: string;
+    duration: string;
+  };
+  controls: {
+    startWorkout: string;
+    resume: string;
+    pause: string;
+    endSet: string;
+    endWorkout: string;
+  };
+  restTimer: {
+    heading: string; // {set}, {sets}
+    lastSet: string; // {set}, {reps}
+    ofTarget: string; // {target}
+    good: string; // {reps}
+    rpe: string;
+    nextWeight: string; // {unit}
+    bodyweight: string;
+    skip: string;
+  };
+  setPlanner: {
+    sets: string;
+    targetReps: string;
+    openReps: string; // No target, shown when empty
+    weight: string;
+    bodyweight: string;
+    weightUnit: string;
+    rest: string;
+    tempo: string;
+    tempoHint: string;
+  };
+  summary: {
+    complete: string; // {exercise}
+    greatJob: string;
+    totalReps: string;
+    goodForm: string;
+    duration: string;
+    goodFormReps: string;
+    badFormReps: string;
+    averageTempo: string; // Labels eccentric-pause-concentric seconds
+    timeUnderTension: string;
+    areasToImprove: string;
+    save: string;
+    saveAll: string;
+    saving: string;
+    startNew: string;
+    durationMinutes: string; // {minutes}, {seconds}
+    durationSeconds: string; // {seconds}
+    noData: string;
+    noDataDescription: string;
+    startWorkout: string;
+    backToExercises: string;
+    multipleExercises: string; // {count}
+    saved: string;
+    viewHistory: string;
+    savedOffline: string;
+    saveRejected: string;
+    discard: string;
+    discarded: string;
+    keptAsGuest: string;
+    signInToSave: string;
+    signIn: string;
+    loading: string;
+  };
+  setBreakdown: {
+    title: string;
+    description: string;
+    set: string; // {set}
+    bodyweight: string;
+    oneRepMax: string; // {weight}
+    reps: string; // {reps}
+    repsOfTarget: string; // {reps}, {target}
+    good: string;
+    bad: string;
+    rpe: string;
+    rest: string;
+    seconds: string; // {seconds}
+  };
+  repBreakdown: {
+    title: string;
+    description: string;
+    rep: string; // {rep}
+    good: string;
+    checkForm: string;
+    time: string;
+    tempo: string;
+    minKnee: string;
+    minHip: string;
+    maxLean: string;
+    seconds: string; // {seconds}
+  };
+  offlineSync: {
+    syncedOne: string;
+    syncedMany: string; // {count}
+    rejectedOne: string;
+    rejectedMany: string; // {count}
+    discard: string;
+    guestOne: string;
+    guestMany: string; // {count}
+    addToHistory: string;
+    adding: string;
+    added: string;
+    addedOffline: string;
+    addFailed: string;
+  };
+  audio: {
+    cueMode: string;
+    cueModes: Record<CueMode, string>;
+    repBeeps: string;
+  };
+}
+
+// English exercise names and descriptions come straight from the exercise registry
+function fromRegistry(pick: (definition: ExerciseDefinition) => string): Record<Exercise, string> {
+  return Object.fromEntries(
+    EXERCISE_IDS.map((exercise) => [exercise, pick(getExerciseDefinition(exercise))])
+  ) as Record<Exercise, string>;
+}
+
+export const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    exerciseNames: fromRegistry((definition) => definition.name),
+    exerciseDescriptions: fromRegistry((definition) => definition.description),
+    issueLabels: ISSUE_LABELS,
+    viewLabels: VIEW_LABELS,
+    bodyParts: {
+      shoulders: "shoulders",
+      elbows: "elbows",
+      wrists: "wrists",
+      hips: "hips",
+      knees: "knees",
+      ankles: "ankles",
+    },
+    progressionReasons: {
+      recurring_issue:
+        "Recurring {issue}: it came up in {count} of your last {sessions} sessions. Back off and rebuild with clean reps.",
+      form_breaking_down:
+        "Form has been breaking down on most reps. Lighten up to groove the movement.",
+      missed_targets:
+        "Rep targets were missed in each of your last {sessions} sessions. Reset slightly lower.",
+      issue_last_session: "There was some {issue} last session. Stay here until it's clean.",
+      no_reps: "No reps recorded last session. Repeat the same targets.",
+      confirm_form: "{form}% good form last session. One more clean session before adding load.",
+      form_below_threshold: "{form}% good form last session. Hold until it's above {threshold}%.",
+      short_of_target:
+        "Form was solid but some sets fell short of the rep target. Repeat this load.",
+      add_load: "{form}% good form and every rep target met. Add {increment} {unit}.",
+      add_rep: "{form}% good form and every rep target met. Add a rep per set.",
+    },
+    common: {
+      back: "Back",
+      tryAgain: "Try Again",
+      startingCamera: "Starting camera...",
+      loadingPose: "Loading pose detection...",
+      filmedFrom: "Filmed from {view}",
+      language: "Coaching language",
+    },
+    selection: {
+      backToHome: "Back to Home",
+      title: "Choose Exercise",
+      subtitle: "Select the exercise you want to perform with AI form analysis",
+      autoDetectTitle: "Auto-Detect",
+      autoDetectDescription:
+        "Skip choosing: just start training and the exercise is recognized, even when you switch exercises mid-session.",
+      start: "Start",
+      next: "Next: {sets} × {reps} · {weight}",
+      cameraTip: "Position your camera so your full body is visible.",
+      sideTip: "Stand sideways for best form detection results.",
+    },
+    live: {
+      coachOff: "AI Coach Off",
+      coachConnecting: "Connecting to AI coach...",
+      coachActive: "AI Coach Active",
+      coachError: "Connection Error",
+      coachDisconnected: "Disconnected",
+      speaking: "Speaking...",
+      turnCoachOff: "Turn off AI coach",
+      turnCoachOn: "Turn on AI coach",
+      muteMic: "Mute microphone",
+      enableMic: "Enable microphone",
+      trackingActive: "Form Tracking Active",
+      trackingOff: "Form Tracking Off",
+      recording: "REC",
+      coachWatching: "AI coach is also watching your form",
+      countingOnDevice: "Counting reps on your device",
+      planned: "Planned: {name} · {sets} × {reps} · {weight}",
+      suggested: "Suggested: {sets} × {reps} · {weight}. {reason}",
+      recordSets: "Record sets for replay (pose only, no video)",
+      calibratedThresholds: "Using your calibrated form thresholds.",
+      defaultThresholds: "Using default form thresholds.",
+      recalibrate: "Recalibrate",
+      calibrate: "Calibrate",
+    },
+    auto: {
+      title: "Auto-Detect",
+      startExercise: "Start an exercise",
+      resting: "Resting {time}",
+      waiting: "Waiting for an exercise",
+      setReps: "Set {set} · {reps} reps",
+      done: "Done: {exercise} · {reps} reps",
+      intro:
+        "Just start training and the exercise is recognized from your movement: {exercises}. A set ends when you stop and each exercise is saved as its own workout, logged at bodyweight. Keep your whole body in view.",
+    },
+    formIndicator: {
+      stepBack: "Step Back",
+      cantSee: "Can't see your {parts}. Move so your whole body is in frame.",
+      goodForm: "Good Form",
+      checkForm: "Check Form",
+      cantCheck: "Can't check {issues} from {view}. Try another camera angle.",
+    },
+    repCounter: {
+      setOf: "Set {set} of {sets}",
+      repsOfTarget: "{reps} / {target} reps",
+      repsThisSet: "{reps} reps this set",
+      reps: "Reps",
+      good: "Good",
+      bad: "Bad",
+      duration: "Duration",
+    },
+    controls: {
+      startWorkout: "Start Workout",
+      resume: "Resume",
+      pause: "Pause",
+      endSet: "End Set",
+      endWorkout: "End Workout",
+    },
+    restTimer: {
+      heading: "Rest · Set {set} of {sets} next",
+      lastSet: "Set {set}: {reps} reps",
+      ofTarget: " of {target}",
+      good: "{reps} good",
+      rpe: "How hard was that set? (RPE)",
+      nextWeight: "Next set weight ({unit})",
+      bodyweight: "Bodyweight",
+      skip: "Skip Rest",
+    },
+    setPlanner: {
+      sets: "Sets",
+      targetReps: "Target Reps",
+      openReps: "Open",
+      weight: "Weight",
+      bodyweight: "Bodyweight",
+      weightUnit: "Weight unit",
+      rest: "Rest (sec)",
+      tempo: "Tempo",
+      tempoHint:
+        "Seconds lowering, paused at the turnaround and lifting. Leave empty for your own pace",
+    },
+    summary: {
+      complete: "{exercise} Workout Complete",
+      greatJob: "Great job! Here's your summary",
+      totalReps: "Total Reps",
+      goodForm: "Good Form",
+      duration: "Duration",
+      goodFormReps: "Good Form Reps",
+      badFormReps: "Bad Form Reps",
+      averageTempo: "Avg Tempo",
+      timeUnderTension: "Time Under Tension",
+      areasToImprove: "Areas to Improve",
+      save: "Save Workout",
+      saveAll: "Save Workouts",
+      saving: "Saving...",
+      startNew: "Start New Workout",
+      durationMinutes: "{minutes}m {seconds}s",
+      durationSeconds: "{seconds}s",
+      noData: "No Workout Data",
+      noDataDescription: "It looks like you haven't completed a workout yet.",
+      startWorkout: "Start a Workout",
+      backToExercises: "Back to Exercises",
+      multipleExercises: "You trained {count} exercises. Each one is saved as its own workout.",
+      saved: "Workout saved!",
+      viewHistory: "View History",
+      savedOffline: "Saved on this device. It will sync to your history when you're back online.",
+      saveRejected:
+        "The server couldn't accept this workout, so it won't sync. You can discard it.",
+      discard: "Discard",
+      discarded: "Workout removed from this device.",
+      keptAsGuest: "This workout is kept on this device. Sign in to add it to your history.",
+      signInToSave: "Sign in to save your workout history",
+      signIn: "Sign In",
+      loading: "Loading...",
+    },
+    setBreakdown: {
+      title: "Sets",
+      description: "Reps, load and effort for each set. e1RM is estimated from good-form reps.",
+      set: "Set {set}",
+      bodyweight: "Bodyweight",
+      oneRepMax: "e1RM {weight}",
+      reps: "{reps} reps",
+      repsOfTarget: "{reps}/{target} reps",
+      good: "Good",
+      bad: "Bad",
+      rpe: "RPE",
+      rest: "Rest",
+      seconds: "{seconds}s",
+    },
+    repBreakdown: {
+      title: "Rep by Rep",
+      description: "Tempo, angles and issues recorded for each rep",
+      rep: "Rep {rep}",
+      good: "Good",
+      checkForm: "Check Form",
+      time: "Time",
+      tempo: "Tempo",
+      minKnee: "Min Knee",
+      minHip: "Min Hip",
+      maxLean: "Max Lean",
+      seconds: "{seconds}s",
+    },
+    offlineSync: {
+      syncedOne: "Synced 1 workout saved offline",
+      syncedMany: "Synced {count} workouts saved offline",
+      rejectedOne: "1 workout on this device was rejected and won't sync",
+      rejectedMany: "{count} workouts on this device were rejected and won't sync",
+      discard: "Discard",
+      guestOne: "You have 1 workout on this device from before you signed in.",
+      guestMany: "You have {count} workouts on this device from before you signed in.",
+      addToHistory: "Add to History",
+      adding: "Adding...",
+      added: "Workouts added to your history",
+      addedOffline: "Workouts added. They'll sync when you're back online.",
+      addFailed: "Couldn't add your workouts. Please try again.",
+    },
+    audio: {
+      cueMode: "Cues",
+      cueModes: { speech: "Voice", tones: "Tones" },
+      repBeeps: "Beep on every rep",
+    },
+  },
+  ar: {
+    exerciseNames: {
+      squat: "القرفصاء",
+      deadlift: "الرفعة الميتة",
+      lunge: "الطعن",
+      overhead_press: "الضغط فوق الرأس",
+      push_up: "الضغط",
+      bicep_curl: "ثني العضلة ذات الرأسين",
+    },
+    exerciseDescriptions: {
+      squat: "تمرين مركب للجزء السفلي من الجسم",
+      deadlift: "تمرين مركب للجسم بالكامل",
+      lunge: "تمرين بساق واحدة للجزء السفلي من الجسم",
+      overhead_press: "ضغط الكتفين وقوفًا",
+      push_up: "تمرين بوزن الجسم للجزء العلوي",
+      bicep_curl: "تمرين عزل للذراع",
+    },
+    issueLabels: {
+      knees_caving: "انثناء الركبتين للداخل",
+      not_deep_enough: "عمق النزول",
+      too_deep: "النزول الزائد",
+      forward_lean: "الميل للأمام",
+      rounded_back: "تقوّس الظهر",
+      knees_too_far_forward: "تقدّم الركبتين",
+      lockout_incomplete: "الوقوف الكامل",
+      front_knee_over_toes: "وضع الركبة الأمامية",
+      torso_not_upright: "زاوية الجذع",
+      press_lockout_incomplete: "مدّ الذراعين فوق الرأس",
+      back_arch: "تقوّس أسفل الظهر",
+      hip_sag: "هبوط الوركين",
+      elbow_drift: "ابتعاد المرفقين",
+      swinging: "أرجحة الجسم",
+    },
+    viewLabels: {
+      front: "الأمام",
+      side: "الجانب",
+      angled: "زاوية ٤٥°",
+    },
+    bodyParts: {
+      shoulders: "كتفيك",
+      elbows: "مرفقيك",
+      wrists: "معصميك",
+      hips: "وركيك",
+      knees: "ركبتيك",
+      ankles: "كاحليك",
+    },
+    progressionReasons: {
+      recurring_issue:
+        "تكرّر {issue} في {count} من آخر {sessions} جلسات. خفّف الحمل وابنِ من جديد بتكرارات نظيفة.",
+      form_breaking_down: "الأداء يتراجع في معظم التكرارات. خفّف الحمل لإتقان الحركة.",
+      missed_targets:
+        "لم تبلغ التكرارات المستهدفة في كل من آخر {sessions} جلسات. ابدأ من حمل أخف قليلًا.",
+      issue_last_session: "ظهر {issue} في الجلسة الماضية. ابقَ على هذا الحمل حتى يختفي.",
+      no_reps: "لم تُسجَّل أي تكرارات في الجلسة الماضية. كرّر الأهداف نفسها.",
+      confirm_form: "أداء جيد بنسبة {form}% في الجلسة الماضية. جلسة نظيفة أخرى قبل زيادة الحمل.",
+      form_below_threshold:
+        "أداء جيد بنسبة {form}% في الجلسة الماضية. ابقَ هنا حتى تتجاوز {threshold}%.",
+      short_of_target:
+        "كان الأداء جيدًا لكن بعض المجموعات لم تبلغ التكرارات المستهدفة. كرّر هذا الحمل.",
+      add_load: "أداء جيد بنسبة {form}% وبلغت كل التكرارات المستهدفة. أضف {increment} {unit}.",
+      add_rep: "أداء جيد بنسبة {form}% وبلغت كل التكرارات المستهدفة. أضف تكرارًا لكل مجموعة.",
+    },
+    common: {
+      back: "رجوع",
+      tryAgain: "حاول مرة أخرى",
+      startingCamera: "جارٍ تشغيل الكاميرا...",
+      loadingPose: "جارٍ تحميل تتبّع الوضعية...",
+      filmedFrom: "التصوير من {view}",
+      language: "لغة التدريب",
+    },
+    selection: {
+      backToHome: "العودة للرئيسية",
+      title: "اختر التمرين",
+      subtitle: "اختر التمرين الذي تريد أداءه مع تحليل الأداء بالذكاء الاصطناعي",
+      autoDetectTitle: "التعرّف التلقائي",
+      autoDetectDescription:
+        "لا داعي للاختيار: ابدأ التمرين وسيتم التعرّف عليه، حتى عند التبديل بين التمارين أثناء الجلسة.",
+      start: "ابدأ",
+      next: "التالي: {sets} × {reps} · {weight}",
+      cameraTip: "ضع الكاميرا بحيث يظهر جسمك بالكامل.",
+      sideTip: "قف بشكل جانبي للحصول على أفضل تتبّع للأداء.",
+    },
+    live: {
+      coachOff: "المدرب الذكي متوقف",
+      coachConnecting: "جارٍ الاتصال بالمدرب الذكي...",
+      coachActive: "المدرب الذكي نشط",
+      coachError: "خطأ في الاتصال",
+      coachDisconnected: "غير متصل",
+      speaking: "يتحدث...",
+      turnCoachOff: "إيقاف المدرب الذكي",
+      turnCoachOn: "تشغيل المدرب الذكي",
+      muteMic: "كتم الميكروفون",
+      enableMic: "تشغيل الميكروفون",
+      trackingActive: "تتبّع الأداء نشط",
+      trackingOff: "تتبّع الأداء متوقف",
+      recording: "تسجيل",
+      coachWatching: "المدرب الذكي يراقب أداءك أيضًا",
+      countingOnDevice: "يتم عدّ التكرارات على جهازك",
+      planned: "المخطط: {name} · {sets} × {reps} · {weight}",
+      suggested: "المقترح: {sets} × {reps} · {weight}. {reason}",
+      recordSets: "سجّل المجموعات لإعادة مشاهدتها (الوضعية فقط، بدون فيديو)",
+      calibratedThresholds: "يتم استخدام معايير الأداء المعايرة لك.",
+      defaultThresholds: "يتم استخدام معايير الأداء الافتراضية.",
+      recalibrate: "أعد المعايرة",
+      calibrate: "عاير",
+    },
+    auto: {
+      title: "التعرّف التلقائي",
+      startExercise: "ابدأ تمرينًا",
+      resting: "راحة {time}",
+      waiting: "بانتظار تمرين",
+      setReps: "المجموعة {set} · {reps} تكرار",
+      done: "تم: {exercise} · {reps} تكرار",
+      intro:
+        "ابدأ التمرين وسيتم التعرّف عليه من حركتك: {exercises}. تنتهي المجموعة عندما تتوقف، ويُحفظ كل تمرين كتمرين مستقل بوزن الجسم. أبقِ جسمك بالكامل ظاهرًا.",
+    },
+    formIndicator: {
+      stepBack: "ابتعد قليلًا",
+      cantSee: "لا أرى {parts}. تحرّك حتى يظهر جسمك بالكامل.",
+      goodForm: "أداء جيد",
+      checkForm: "انتبه لأدائك",
+      cantCheck: "لا يمكن تقييم {issues} من {view}. جرّب زاوية كاميرا أخرى.",
+    },
+    repCounter: {
+      setOf: "المجموعة {set} من {sets}",
+      repsOfTarget: "{reps} / {target} تكرار",
+      repsThisSet: "{reps} تكرار في هذه المجموعة",
+      reps: "التكرارات",
+      good: "جيد",
+      bad: "سيئ",
+      duration: "المدة",
+    },
+    controls: {
+      startWorkout: "ابدأ التمرين",
+      resume: "استئناف",
+      pause: "إيقاف مؤقت",
+      endSet: "إنهاء المجموعة",
+      endWorkout: "إنهاء التمرين",
+    },
+    restTimer: {
+      heading: "راحة · المجموعة {set} من {sets} تالية",
+      lastSet: "المجموعة {set}: {reps} تكرار",
+      ofTarget: " من {target}",
+      good: "{reps} جيد",
+      rpe: "ما مدى صعوبة هذه المجموعة؟ (RPE)",
+      nextWeight: "وزن المجموعة التالية ({unit})",
+      bodyweight: "وزن الجسم",
+      skip: "تخطَّ الراحة",
+    },
+    setPlanner: {
+      sets: "المجموعات",
+      targetReps: "التكرارات المستهدفة",
+      openReps: "مفتوح",
+      weight: "الوزن",
+      bodyweight: "وزن الجسم",
+      weightUnit: "وحدة الوزن",
+      rest: "الراحة (ث)",
+      tempo: "الإيقاع",
+      tempoHint: "ثوانٍ للنزول، ثم التوقف عند نقطة التحول، ثم الرفع. اتركه فارغًا لتتمرن بإيقاعك",
+    },
+    summary: {
+      complete: "اكتمل تمرين {exercise}",
+      greatJob: "عمل رائع! إليك الملخص",
+      totalReps: "إجمالي التكرارات",
+      goodForm: "أداء جيد",
+      duration: "المدة",
+      goodFormReps: "تكرارات بأداء جيد",
+      badFormReps: "تكرارات بأداء سيئ",
+      averageTempo: "متوسط الإيقاع",
+      timeUnderTension: "الزمن تحت الشد",
+      areasToImprove: "نقاط للتحسين",
+      save: "احفظ التمرين",
+      saveAll: "احفظ التمارين",
+      saving: "جارٍ الحفظ...",
+      startNew: "ابدأ تمرينًا جديدًا",
+      durationMinutes: "{minutes} د {seconds} ث",
+      durationSeconds: "{seconds} ث",
+      noData: "لا توجد بيانات تمرين",
+      noDataDescription: "يبدو أنك لم تُكمل أي تمرين بعد.",
+      startWorkout: "ابدأ تمرينًا",
+      backToExercises: "العودة للتمارين",
+      multipleExercises: "تمرّنت على {count} تمارين. يُحفظ كل منها كتمرين مستقل.",
+      saved: "تم حفظ التمرين!",
+      viewHistory: "عرض السجل",
+      savedOffline: "تم الحفظ على هذا الجهاز. ستتم مزامنته مع سجلك عند عودة الاتصال.",
+      saveRejected: "تعذّر على الخادم قبول هذا التمرين، لذا لن تتم مزامنته. يمكنك تجاهله.",
+      discard: "تجاهل",
+      discarded: "تمت إزالة التمرين من هذا الجهاز.",
+      keptAsGuest: "هذا التمرين محفوظ على هذا الجهاز. سجّل الدخول لإضافته إلى سجلك.",
+      signInToSave: "سجّل الدخول لحفظ سجل تمارينك",
+      signIn: "تسجيل الدخول",
+      loading: "جارٍ التحميل...",
+    },
+    setBreakdown: {
+      title: "المجموعات",
+      description:
+        "التكرارات والحمل والجهد لكل مجموعة. يُقدَّر e1RM من التكرارات ذات الأداء الجيد.",
+      set: "المجموعة {set}",
+      bodyweight: "وزن الجسم",
+      oneRepMax: "e1RM {weight}",
+      reps: "{reps} تكرار",
+      repsOfTarget: "{reps}/{target} تكرار",
+      good: "جيد",
+      bad: "سيئ",
+      rpe: "RPE",
+      rest: "الراحة",
+      seconds: "{seconds} ث",
+    },
+    repBreakdown: {
+      title: "تكرار بتكرار",
+      description: "الإيقاع والزوايا والملاحظات المسجّلة لكل تكرار",
+      rep: "التكرار {rep}",
+      good: "جيد",
+      checkForm: "راجع الأداء",
+      time: "الوقت",
+      tempo: "الإيقاع",
+      minKnee: "أدنى زاوية للركبة",
+      minHip: "أدنى زاوية للورك",
+      maxLean: "أقصى ميل",
+      seconds: "{seconds} ث",
+    },
+    offlineSync: {
+      syncedOne: "تمت مزامنة تمرين واحد محفوظ دون اتصال",
+      syncedMany: "تمت مزامنة {count} تمارين محفوظة دون اتصال",
+      rejectedOne: "رُفض تمرين واحد على هذا الجهاز ولن تتم مزامنته",
+      rejectedMany: "رُفضت {count} تمارين على هذا الجهاز ولن تتم مزامنتها",
+      discard: "تجاهل",
+      guestOne: "لديك تمرين واحد على هذا الجهاز من قبل تسجيل دخولك.",
+      guestMany: "لديك {count} تمارين على هذا الجهاز من قبل تسجيل دخولك.",
+      addToHistory: "أضف إلى السجل",
+      adding: "جارٍ الإضافة...",
+      added: "تمت إضافة التمارين إلى سجلك",
+      addedOffline: "تمت إضافة التمارين. ستتم مزامنتها عند عودة الاتصال.",
+      addFailed: "تعذّرت إضافة تمارينك. يُرجى المحاولة مرة أخرى.",
+    },
+    audio: {
+      cueMode: "التنبيهات",
+      cueModes: { speech: "صوت", tones: "نغمات" },
+      repBeeps: "صافرة مع كل تكرار",
+    },
+  },
+};
+
+/**
+ * Get a display name for a stored exercise id in a language, falling back to the raw id
+ */
+export function getLocalizedExerciseName(messages: Messages, exercise: string): string {
+  return isExercise(exercise) ? messages.exerciseNames[exercise] : exercise;
+}
+
+/**
+ * The sentence explaining a progression recommendation, in a language
+ */
+export function getProgressionReasonText(messages: Messages, reason: ProgressionReason): string {
+  const { issue, ...params } = reason.params;
+  return interpolate(messages.progressionReasons[reason.code], {
+    ...params,
+    ...(issue !== undefined
+      ? {
+          issue:
+            typeof issue === "string" && isFormIssue(issue) ? messages.issueLabels[issue] : issue,
+        }
+      : {}),
+  });
+}
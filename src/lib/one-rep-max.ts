@@ -0,0 +1,53 @@
+// Estimated one-rep max (e1RM) from submaximal sets
+
+import { convertWeight, type SetRecord, type WeightUnit } from "./sets";
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const ONE_REP_MAX_FORMULAS = ["epley", "brzycki"] as const satisfies readonly OneRepMaxFormula[];
+
+export const ONE_REP_MAX_FORMULA_NAMES: Record<OneRepMaxFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+// Both formulas lose accuracy quickly past ~10 reps; ignore longer sets
+export const MAX_REPS_FOR_ESTIMATE = 12;
+
+/**
+ * Estimate the one-rep max for a set of `reps` at `weight`
+ *
+ * @returns The estimate in the same unit as `weight`, or null when the set
+ * can't give a meaningful estimate (no load, no reps or too many reps)
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = "epley"
+): number | null {
+  if (weight <= 0 || reps < 1 || reps > MAX_REPS_FOR_ESTIMATE) return null;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case "epley":
+      return weight * (1 + reps / 30);
+    case "brzycki":
+      return (weight * 36) / (37 - reps);
+  }
+}
+
+/**
+ * Estimate the one-rep max for a recorded set, counting good-form reps only
+ *
+ * @returns The estimate in `unit`, or null for bodyweight sets and sets
+ * without a usable number of good-form reps
+ */
+export function estimateSetOneRepMax(
+  set: Pick<SetRecord, "weight" | "weightUnit" | "goodFormReps">,
+  unit: WeightUnit,
+  formula: OneRepMaxFormula = "epley"
+): number | null {
+  if (set.weight === null) return null;
+  const estimate = estimateOneRepMax(set.weight, set.goodFormReps, formula);
+  return estimate === null ? null : convertWeight(estimate, set.weightUnit, unit);
+}
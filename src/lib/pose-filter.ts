@@ -0,0 +1,83 @@
+// One Euro filter over pose landmarks
+// Smooths the per-frame jitter of the pose model while following fast movement
+// closely: the cutoff frequency rises with the speed of each coordinate.
+// See Casiez et al., "1€ Filter" (CHI 2012).
+
+type Landmark = { x: number; y: number; z?: number; visibility?: number };
+
+export interface OneEuroSettings {
+  minCutoff: number; // Hz; lower = smoother when still, more lag
+  beta: number; // How quickly the cutoff rises with speed; higher = less lag when moving
+  derivativeCutoff: number; // Hz; smoothing of the speed estimate itself
+}
+
+interface CoordinateState {
+  value: number;
+  derivative: number;
+}
+
+export interface LandmarkFilter {
+  lastTimestamp: number | null;
+  coordinates: CoordinateState[]; // x, y and z of each landmark in order
+}
+
+// Create an empty filter; it starts from the first frame it sees
+export function createLandmarkFilter(): LandmarkFilter {
+  return { lastTimestamp: null, coordinates: [] };
+}
+
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+function filterCoordinate(
+  state: CoordinateState,
+  value: number,
+  dtSeconds: number,
+  settings: OneEuroSettings
+): number {
+  const derivative = (value - state.value) / dtSeconds;
+  const derivativeAlpha = smoothingFactor(settings.derivativeCutoff, dtSeconds);
+  state.derivative += derivativeAlpha * (derivative - state.derivative);
+
+  const cutoff = settings.minCutoff + settings.beta * Math.abs(state.derivative);
+  state.value += smoothingFactor(cutoff, dtSeconds) * (value - state.value);
+  return state.value;
+}
+
+/**
+ * Smooth one frame of landmarks.
+ * Visibility passes through unfiltered. The filter restarts when the landmark
+ * count changes or time doesn't move forward.
+ */
+export function filterLandmarks<T extends Landmark>(
+  filter: LandmarkFilter,
+  landmarks: T[],
+  timestamp: number,
+  settings: OneEuroSettings
+): T[] {
+  const dtSeconds =
+    filter.lastTimestamp === null ? 0 : (timestamp - filter.lastTimestamp) / 1000;
+  const restart = dtSeconds <= 0 || filter.coordinates.length !== landmarks.length * 3;
+  filter.lastTimestamp = timestamp;
+
+  if (restart) {
+    filter.coordinates = landmarks.flatMap((landmark) =>
+      [landmark.x, landmark.y, landmark.z ?? 0].map((value) => ({ value, derivative: 0 }))
+    );
+    return landmarks;
+  }
+
+  return landmarks.map((landmark, i) => {
+    const smooth = (axis: number, raw: number) => {
+      const state = filter.coordinates[i * 3 + axis];
+      return state ? filterCoordinate(state, raw, dtSeconds, settings) : raw;
+    };
+    const smoothed: T = { ...landmark, x: smooth(0, landmark.x), y: smooth(1, landmark.y) };
+    if (landmark.z !== undefined) {
+      smoothed.z = smooth(2, landmark.z);
+    }
+    return smoothed;
+  });
+}
@@ -74,6 +74,37 @@ export function isVisible(
   return (landmark.visibility ?? 1) >= threshold;
 }
 
+// Tracked joints grouped into left/right pairs, for telling the user what's out of view
+export type BodyPart = "shoulders" | "elbows" | "wrists" | "hips" | "knees" | "ankles";
+
+export const BODY_PARTS: Record<BodyPart, readonly [left: number, right: number]> = {
+  shoulders: [LANDMARKS.LEFT_SHOULDER, LANDMARKS.RIGHT_SHOULDER],
+  elbows: [LANDMARKS.LEFT_ELBOW, LANDMARKS.RIGHT_ELBOW],
+  wrists: [LANDMARKS.LEFT_WRIST, LANDMARKS.RIGHT_WRIST],
+  hips: [LANDMARKS.LEFT_HIP, LANDMARKS.RIGHT_HIP],
+  knees: [LANDMARKS.LEFT_KNEE, LANDMARKS.RIGHT_KNEE],
+  ankles: [LANDMARKS.LEFT_ANKLE, LANDMARKS.RIGHT_ANKLE],
+};
+
+// Body parts among the required landmarks where neither side is visible.
+// One side is enough: the far side is naturally occluded in a side view.
+export function getHiddenBodyParts(
+  landmarks: Array<{ x: number; y: number; z?: number; visibility?: number }>,
+  required: readonly number[],
+  threshold = 0.5
+): BodyPart[] {
+  const seen = (index: number) => {
+    const landmark = landmarks[index];
+    return landmark !== undefined && isVisible(landmark, threshold);
+  };
+
+  return (Object.keys(BODY_PARTS) as BodyPart[]).filter((part) => {
+    const [left, right] = BODY_PARTS[part];
+    const isRequired = required.includes(left) || required.includes(right);
+    return isRequired && !seen(left) && !seen(right);
+  });
+}
+
 // Get knee angle (hip-knee-ankle)
 export function getKneeAngle(
   hip: Point,
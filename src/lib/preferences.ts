@@ -0,0 +1,42 @@
+// Stored user preferences shared by the API routes
+
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "./i18n";
+import { userPreference } from "./schema";
+
+export interface UserPreferences {
+  language: Locale;
+}
+
+/**
+ * Get a user's preferences, falling back to the defaults for anything unset
+ */
+export async function getPreferences(userId: string): Promise<UserPreferences> {
+  const [row] = await db
+    .select()
+    .from(userPreference)
+    .where(eq(userPreference.userId, userId));
+  return { language: isLocale(row?.language) ? row.language : DEFAULT_LOCALE };
+}
+
+/**
+ * Store a user's preferences, replacing earlier ones
+ */
+export async function savePreferences(
+  userId: string,
+  preferences: UserPreferences
+): Promise<UserPreferences> {
+  const [row] = await db
+    .insert(userPreference)
+    .values({ userId, language: preferences.language })
+    .onConflictDoUpdate({
+      target: userPreference.userId,
+      set: { language: preferences.language, updatedAt: new Date() },
+    })
+    .returning();
+  if (!row) {
+    throw new Error("Failed to save preferences");
+  }
+  return { language: row.language };
+}
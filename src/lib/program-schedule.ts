@@ -0,0 +1,199 @@
+// Program enrollment and schedule queries shared by the API routes and pages
+
+import { and, asc, desc, eq, gte, isNull, lte } from "drizzle-orm";
+import { db } from "./db";
+import {
+  addDays,
+  generateWeekSchedule,
+  getWeekStart,
+  type ProgramEnrollment,
+  type ProgramTemplate,
+} from "./programs";
+import { plannedWorkout, programTemplate, userProgram } from "./schema";
+
+export type UserProgramRow = typeof userProgram.$inferSelect;
+export type PlannedWorkoutRow = typeof plannedWorkout.$inferSelect;
+
+export interface ActiveProgram {
+  enrollment: UserProgramRow;
+  template: ProgramTemplate;
+}
+
+export interface WeekSchedule {
+  program: ActiveProgram;
+  weekStart: string; // YYYY-MM-DD (Monday)
+  plannedWorkouts: PlannedWorkoutRow[];
+}
+
+function toTemplate(row: typeof programTemplate.$inferSelect): ProgramTemplate {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    description: row.description,
+    trainingDays: row.trainingDays,
+    workouts: row.workouts,
+  };
+}
+
+/**
+ * List the available program templates
+ */
+export async function listProgramTemplates(): Promise<ProgramTemplate[]> {
+  const rows = await db.select().from(programTemplate).orderBy(asc(programTemplate.createdAt));
+  return rows.map(toTemplate);
+}
+
+/**
+ * Get a user's active program, if they are enrolled in one
+ */
+export async function getActiveProgram(userId: string): Promise<ActiveProgram | null> {
+  const [row] = await db
+    .select()
+    .from(userProgram)
+    .innerJoin(programTemplate, eq(userProgram.templateId, programTemplate.id))
+    .where(and(eq(userProgram.userId, userId), eq(userProgram.isActive, true)))
+    .orderBy(desc(userProgram.createdAt))
+    .limit(1);
+
+  if (!row) return null;
+  return { enrollment: row.user_program, template: toTemplate(row.program_template) };
+}
+
+/**
+ * Enroll a user in a program, replacing any program they were following
+ *
+ * @returns The new active program, or null if the template doesn't exist
+ */
+export async function enrollInProgram(
+  userId: string,
+  templateId: string,
+  enrollment: ProgramEnrollment
+): Promise<ActiveProgram | null> {
+  return db.transaction(async (tx) => {
+    const [template] = await tx
+      .select()
+      .from(programTemplate)
+      .where(eq(programTemplate.id, templateId));
+    if (!template) return null;
+
+    await tx
+      .update(userProgram)
+      .set({ isActive: false })
+      .where(and(eq(userProgram.userId, userId), eq(userProgram.isActive, true)));
+
+    const [created] = await tx
+      .insert(userProgram)
+      .values({ userId, templateId, ...enrollment })
+      .returning();
+    if (!created) {
+      throw new Error("Failed to create enrollment");
+    }
+
+    return { enrollment: created, template: toTemplate(template) };
+  });
+}
+
+/**
+ * Stop following the active program. Its schedule and history are kept.
+ *
+ * @returns Whether there was an active program
+ */
+export async function leaveProgram(userId: string): Promise<boolean> {
+  const updated = await db
+    .update(userProgram)
+    .set({ isActive: false })
+    .where(and(eq(userProgram.userId, userId), eq(userProgram.isActive, true)))
+    .returning({ id: userProgram.id });
+  return updated.length > 0;
+}
+
+/**
+ * Get the week of the active program containing `date`, generating it on
+ * first access
+ *
+ * @param date - The user's local date (YYYY-MM-DD)
+ * @returns The schedule, or null if the user isn't following a program
+ */
+export async function getWeekSchedule(userId: string, date: string): Promise<WeekSchedule | null> {
+  const program = await getActiveProgram(userId);
+  if (!program) return null;
+
+  const weekStart = getWeekStart(date);
+  const weekEnd = addDays(weekStart, 6);
+  const inWeek = and(
+    eq(plannedWorkout.userProgramId, program.enrollment.id),
+    gte(plannedWorkout.date, weekStart),
+    lte(plannedWorkout.date, weekEnd)
+  );
+
+  let plannedWorkouts = await db
+    .select()
+    .from(plannedWorkout)
+    .where(inWeek)
+    .orderBy(asc(plannedWorkout.date), asc(plannedWorkout.position));
+
+  if (plannedWorkouts.length === 0) {
+    const drafts = generateWeekSchedule(program.template, program.enrollment, weekStart);
+    if (drafts.length > 0) {
+      // Concurrent first loads may both generate; the unique index keeps one copy
+      await db
+        .insert(plannedWorkout)
+        .values(
+          drafts.map((draft) => ({
+            ...draft,
+            userProgramId: program.enrollment.id,
+            userId,
+          }))
+        )
+        .onConflictDoNothing();
+
+      plannedWorkouts = await db
+        .select()
+        .from(plannedWorkout)
+        .where(inWeek)
+        .orderBy(asc(plannedWorkout.date), asc(plannedWorkout.position));
+    }
+  }
+
+  return { program, weekStart, plannedWorkouts };
+}
+
+/**
+ * Get one of a user's planned workouts
+ */
+export async function getPlannedWorkout(
+  userId: string,
+  id: string
+): Promise<PlannedWorkoutRow | null> {
+  const [found] = await db
+    .select()
+    .from(plannedWorkout)
+    .where(and(eq(plannedWorkout.id, id), eq(plannedWorkout.userId, userId)));
+  return found ?? null;
+}
+
+/**
+ * Mark a planned workout as done by linking the saved workout to it
+ *
+ * Only links a planned workout for the same exercise that hasn't been
+ * completed yet.
+ */
+export async function completePlannedWorkout(
+  tx: Pick<typeof db, "update">,
+  userId: string,
+  plannedWorkoutId: string,
+  savedWorkout: { id: string; exerciseType: string }
+): Promise<void> {
+  await tx
+    .update(plannedWorkout)
+    .set({ workoutId: savedWorkout.id })
+    .where(
+      and(
+        eq(plannedWorkout.id, plannedWorkoutId),
+        eq(plannedWorkout.userId, userId),
+        eq(plannedWorkout.exerciseType, savedWorkout.exerciseType),
+        isNull(plannedWorkout.workoutId)
+      )
+    );
+}
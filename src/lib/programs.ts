@@ -0,0 +1,167 @@
+// Training programs and the schedules generated from them
+// Templates are stored in the program_template table; this module holds
+// their shape and the pure schedule generation shared by server and client.
+
+import type { WeightUnit } from "./sets";
+
+// One exercise prescribed within a program workout
+export interface ProgramExercise {
+  exerciseType: string; // Exercise id from the registry in exercises.ts
+  sets: number;
+  reps: number;
+  restSeconds: number;
+  increment: Record<WeightUnit, number> | null; // Load added each session, null = bodyweight
+}
+
+// A workout in the program's rotation, e.g. "Workout A"
+export interface ProgramWorkout {
+  name: string;
+  exercises: ProgramExercise[];
+}
+
+export interface ProgramTemplate {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  trainingDays: number[]; // Weekdays, 0 = Monday
+  workouts: ProgramWorkout[]; // Rotated through on successive training days
+}
+
+// A user's enrollment in a program
+export interface ProgramEnrollment {
+  startDate: string; // YYYY-MM-DD, in the user's local time
+  weightUnit: WeightUnit;
+  startingWeights: Record<string, number>; // Per exercise; missing = bodyweight
+}
+
+// One exercise scheduled on a given day, before it is saved
+export interface PlannedWorkoutDraft {
+  date: string; // YYYY-MM-DD
+  position: number; // Order within the day, starting at 0
+  workoutName: string;
+  exerciseType: string;
+  targetSets: number;
+  targetReps: number;
+  weight: number | null;
+  weightUnit: WeightUnit;
+  restSeconds: number;
+}
+
+// A saved planned workout as returned by the schedule API
+export interface PlannedWorkout extends PlannedWorkoutDraft {
+  id: string;
+  workoutId: string | null; // The saved workout that completed it
+}
+
+export const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Days since the epoch for a YYYY-MM-DD date
+function toDayNumber(date: string): number {
+  return Math.floor(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 = Monday; day 0 (1970-01-01) was a Thursday
+function toWeekday(day: number): number {
+  return (day + 3) % 7;
+}
+
+/**
+ * Check that a string is a real YYYY-MM-DD calendar date
+ */
+export function isDateString(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Get the Monday starting the week that contains `date` (both YYYY-MM-DD)
+ */
+export function getWeekStart(date: string): string {
+  const day = toDayNumber(date);
+  return formatDay(day - toWeekday(day));
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return formatDay(toDayNumber(date) + days);
+}
+
+/**
+ * Today's date in the browser's local time, as YYYY-MM-DD
+ */
+export function getLocalDate(now: Date = new Date()): string {
+  return formatDay(Math.floor((now.getTime() - now.getTimezoneOffset() * 60 * 1000) / DAY_MS));
+}
+
+/**
+ * Whether an exercise in a program is performed with added load
+ */
+export function isLoadedExercise(exercise: ProgramExercise): boolean {
+  return exercise.increment !== null;
+}
+
+/**
+ * Generate the planned workouts for the week starting `weekStart`
+ *
+ * Training days are counted from the enrollment's start date so the workout
+ * rotation and linear load increases carry on from week to week.
+ */
+export function generateWeekSchedule(
+  template: Pick<ProgramTemplate, "trainingDays" | "workouts">,
+  enrollment: ProgramEnrollment,
+  weekStart: string
+): PlannedWorkoutDraft[] {
+  if (template.workouts.length === 0 || template.trainingDays.length === 0) return [];
+
+  const trainingDays = new Set(template.trainingDays);
+  const firstDay = toDayNumber(weekStart);
+  const lastDay = firstDay + 6;
+  const occurrences = new Map<string, number>(); // Sessions so far per exercise
+  const drafts: PlannedWorkoutDraft[] = [];
+  let sessionCount = 0;
+
+  for (let day = toDayNumber(enrollment.startDate); day <= lastDay; day++) {
+    if (!trainingDays.has(toWeekday(day))) continue;
+
+    const workout = template.workouts[sessionCount % template.workouts.length];
+    sessionCount++;
+    if (!workout) continue;
+
+    workout.exercises.forEach((exercise, position) => {
+      const occurrence = occurrences.get(exercise.exerciseType) ?? 0;
+      occurrences.set(exercise.exerciseType, occurrence + 1);
+      if (day < firstDay) return;
+
+      const startingWeight = enrollment.startingWeights[exercise.exerciseType];
+      const weight =
+        exercise.increment && startingWeight !== undefined
+          ? startingWeight + exercise.increment[enrollment.weightUnit] * occurrence
+          : null;
+
+      drafts.push({
+        date: formatDay(day),
+        position,
+        workoutName: workout.name,
+        exerciseType: exercise.exerciseType,
+        targetSets: exercise.sets,
+        targetReps: exercise.reps,
+        weight,
+        weightUnit: enrollment.weightUnit,
+        restSeconds: exercise.restSeconds,
+      });
+    });
+  }
+
+  return drafts;
+}
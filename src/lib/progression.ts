@@ -0,0 +1,227 @@
+// Auto-progression: recommends the next session's targets from recent form
+// Load goes up while form quality stays high and rep targets are met, holds
+// when form slips and deloads when injury-risk mistakes keep recurring.
+
+import { convertWeight, DEFAULT_SET_PLAN, type SetRecord, type WeightUnit } from "./sets";
+import type { FormIssue } from "./form-checker";
+
+export type ProgressionAction = "increase" | "hold" | "deload";
+
+export type ProgressionReasonCode =
+  | "recurring_issue"
+  | "form_breaking_down"
+  | "missed_targets"
+  | "issue_last_session"
+  | "no_reps"
+  | "confirm_form"
+  | "form_below_threshold"
+  | "short_of_target"
+  | "add_load"
+  | "add_rep";
+
+// Why a target was recommended; the sentence is rendered in the user's language
+export interface ProgressionReason {
+  code: ProgressionReasonCode;
+  params: Record<string, string | number>; // An "issue" param holds a FormIssue id
+}
+
+export type ProgressionSet = Pick<
+  SetRecord,
+  "weight" | "weightUnit" | "targetReps" | "totalReps" | "goodFormReps"
+>;
+
+// A past session of one exercise
+export interface ProgressionSession {
+  totalReps: number;
+  goodFormReps: number;
+  mistakes: string[];
+  sets: ProgressionSet[]; // Empty for workouts recorded before sets existed
+}
+
+export interface Recommendation {
+  exerciseType: string;
+  action: ProgressionAction;
+  targetSets: number;
+  targetReps: number;
+  weight: number | null; // null = bodyweight
+  weightUnit: WeightUnit;
+  previousWeight: number | null;
+  reason: ProgressionReason;
+}
+
+// Mistakes that put joints or the spine at risk; recurring ones trigger a deload
+export const INJURY_RISK_ISSUES: readonly FormIssue[] = [
+  "rounded_back",
+  "knees_caving",
+  "back_arch",
+  "hip_sag",
+];
+
+// Sessions looked at when deciding, most recent first
+export const PROGRESSION_LOOKBACK = 3;
+
+const INCREASE_FORM_THRESHOLD = 0.85; // Good-form share needed to add load
+const DELOAD_FORM_THRESHOLD = 0.6; // Below this in consecutive sessions = deload
+const RECURRING_ISSUE_SESSIONS = 2; // Sessions within the lookback for an issue to count as recurring
+const DELOAD_FACTOR = 0.9;
+const REP_STEP = 1; // Reps added per session for bodyweight exercises
+const MAX_TARGET_REPS = 100;
+
+function getFormShare(session: ProgressionSession): number | null {
+  return session.totalReps === 0 ? null : session.goodFormReps / session.totalReps;
+}
+
+function hitRepTargets(session: ProgressionSession): boolean {
+  return session.sets.every((set) => set.targetReps === null || set.totalReps >= set.targetReps);
+}
+
+function roundToIncrement(weight: number, increment: number): number {
+  return Math.round(Math.round(weight / increment) * increment * 100) / 100;
+}
+
+// Heaviest set of a session, in the unit of its last loaded set
+function getWorkingWeight(session: ProgressionSession): { weight: number; unit: WeightUnit } | null {
+  const loaded = session.sets.filter((set) => set.weight !== null);
+  const unit = loaded[loaded.length - 1]?.weightUnit;
+  if (!unit) return null;
+
+  const weight = Math.max(
+    ...loaded.map((set) => convertWeight(set.weight ?? 0, set.weightUnit, unit))
+  );
+  return { weight, unit };
+}
+
+function getTargetReps(session: ProgressionSession): number {
+  const planned = session.sets.find((set) => set.targetReps !== null)?.targetReps;
+  if (planned != null) return planned;
+  if (session.sets.length === 0) {
+    return session.totalReps > 0 ? session.totalReps : (DEFAULT_SET_PLAN.targetReps ?? 10);
+  }
+  return Math.max(1, Math.round(session.totalReps / session.sets.length));
+}
+
+/**
+ * Recommend targets for the next session of an exercise
+ *
+ * @param sessions - Past sessions of the exercise, most recent first
+ * @param loadIncrement - The exercise's load step, null for bodyweight exercises
+ * @returns The recommendation, or null without any history to go on
+ */
+export function recommendNextSession(
+  exerciseType: string,
+  sessions: ProgressionSession[],
+  loadIncrement: Record<WeightUnit, number> | null
+): Recommendation | null {
+  const recent = sessions.slice(0, PROGRESSION_LOOKBACK);
+  const last = recent[0];
+  if (!last) return null;
+
+  const working = loadIncrement ? getWorkingWeight(last) : null;
+  const weightUnit = working?.unit ?? last.sets[0]?.weightUnit ?? DEFAULT_SET_PLAN.weightUnit;
+  const increment = loadIncrement?.[weightUnit] ?? null;
+  const targetSets = Math.max(last.sets.length, 1);
+  const targetReps = getTargetReps(last);
+  const lastShare = getFormShare(last);
+
+  const base = {
+    exerciseType,
+    targetSets,
+    targetReps,
+    weight: working ? Math.round(working.weight * 100) / 100 : null,
+    weightUnit,
+    previousWeight: working ? Math.round(working.weight * 100) / 100 : null,
+  };
+
+  const deload = (reason: ProgressionReason): Recommendation => ({
+    ...base,
+    action: "deload",
+    ...(base.weight !== null && increment !== null
+      ? { weight: Math.max(roundToIncrement(base.weight * DELOAD_FACTOR, increment), increment) }
+      : { targetReps: Math.max(1, Math.round(targetReps * DELOAD_FACTOR)) }),
+    reason,
+  });
+
+  // Injury-risk mistakes that keep coming back
+  const recurring = INJURY_RISK_ISSUES.find(
+    (issue) =>
+      recent.filter((session) => session.mistakes.includes(issue)).length >=
+      RECURRING_ISSUE_SESSIONS
+  );
+  if (recurring) {
+    const count = recent.filter((session) => session.mistakes.includes(recurring)).length;
+    return deload({
+      code: "recurring_issue",
+      params: { issue: recurring, count, sessions: recent.length },
+    });
+  }
+
+  const poorSessions = recent
+    .slice(0, 2)
+    .filter((session) => (getFormShare(session) ?? 1) < DELOAD_FORM_THRESHOLD).length;
+  if (poorSessions === 2) {
+    return deload({ code: "form_breaking_down", params: {} });
+  }
+
+  const missedAll =
+    recent.length === PROGRESSION_LOOKBACK && recent.every((session) => !hitRepTargets(session));
+  if (missedAll) {
+    return deload({ code: "missed_targets", params: { sessions: PROGRESSION_LOOKBACK } });
+  }
+
+  const lastRisk = INJURY_RISK_ISSUES.find((issue) => last.mistakes.includes(issue));
+  if (lastRisk) {
+    return {
+      ...base,
+      action: "hold",
+      reason: { code: "issue_last_session", params: { issue: lastRisk } },
+    };
+  }
+
+  // Form has to stay above the threshold, not just spike once
+  const steady = recent
+    .slice(0, 2)
+    .every((session) => (getFormShare(session) ?? 0) >= INCREASE_FORM_THRESHOLD);
+  if (!steady || lastShare === null) {
+    return {
+      ...base,
+      action: "hold",
+      reason:
+        lastShare === null
+          ? { code: "no_reps", params: {} }
+          : lastShare >= INCREASE_FORM_THRESHOLD
+            ? { code: "confirm_form", params: { form: Math.round(lastShare * 100) } }
+            : {
+                code: "form_below_threshold",
+                params: {
+                  form: Math.round(lastShare * 100),
+                  threshold: Math.round(INCREASE_FORM_THRESHOLD * 100),
+                },
+              },
+    };
+  }
+
+  if (!hitRepTargets(last)) {
+    return {
+      ...base,
+      action: "hold",
+      reason: { code: "short_of_target", params: {} },
+    };
+  }
+
+  const form = Math.round(lastShare * 100);
+  if (base.weight !== null && increment !== null) {
+    return {
+      ...base,
+      action: "increase",
+      weight: roundToIncrement(base.weight + increment, increment),
+      reason: { code: "add_load", params: { form, increment, unit: weightUnit } },
+    };
+  }
+
+  return {
+    ...base,
+    action: "increase",
+    targetReps: Math.min(targetReps + REP_STEP, MAX_TARGET_REPS),
+    reason: { code: "add_rep", params: { form } },
+  };
+}
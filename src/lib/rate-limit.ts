@@ -0,0 +1,50 @@
+// In-memory sliding window rate limiter
+// Counts are kept per server instance, which is enough to stop a single
+// client from hammering an endpoint.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+/**
+ * Create a rate limiter that allows `limit` hits per key within `windowMs`.
+ * Keys whose hits have all expired are dropped, at most once per window, so
+ * clients that stop calling don't stay in memory.
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    for (const [key, times] of hits) {
+      const latest = times[times.length - 1];
+      if (latest === undefined || now - latest >= windowMs) hits.delete(key);
+    }
+    lastSweep = now;
+  };
+
+  return {
+    check(key: string): RateLimitResult {
+      const now = Date.now();
+      if (now - lastSweep >= windowMs) sweep(now);
+
+      const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        const oldest = recent[0] ?? now;
+        return { allowed: false, remaining: 0, retryAfterMs: oldest + windowMs - now };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+  };
+}
@@ -0,0 +1,99 @@
+// Next-session recommendations built from a user's saved workouts
+
+import { and, desc, eq, inArray, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { getExerciseDefinition, isExercise } from "./exercises";
+import {
+  PROGRESSION_LOOKBACK,
+  recommendNextSession,
+  type ProgressionSession,
+  type ProgressionSet,
+  type Recommendation,
+} from "./progression";
+import { workout, workoutSet } from "./schema";
+
+// Recent workouts scanned when recommending for every exercise at once
+const RECENT_WORKOUT_LIMIT = 100;
+
+/**
+ * Recommend the next session's targets for each exercise the user has trained
+ *
+ * @param exerciseType - Limit to a single exercise
+ */
+export async function getRecommendations(
+  userId: string,
+  exerciseType?: string
+): Promise<Recommendation[]> {
+  const conditions: SQL[] = [eq(workout.userId, userId)];
+  if (exerciseType) {
+    conditions.push(eq(workout.exerciseType, exerciseType));
+  }
+
+  const workouts = await db
+    .select({
+      id: workout.id,
+      exerciseType: workout.exerciseType,
+      totalReps: workout.totalReps,
+      goodFormReps: workout.goodFormReps,
+      mistakes: workout.mistakes,
+    })
+    .from(workout)
+    .where(and(...conditions))
+    .orderBy(desc(workout.createdAt), desc(workout.id))
+    .limit(exerciseType ? PROGRESSION_LOOKBACK : RECENT_WORKOUT_LIMIT);
+
+  // Most recent sessions first, per exercise
+  const byExercise = new Map<string, typeof workouts>();
+  for (const w of workouts) {
+    const sessions = byExercise.get(w.exerciseType) ?? [];
+    if (sessions.length < PROGRESSION_LOOKBACK) {
+      byExercise.set(w.exerciseType, [...sessions, w]);
+    }
+  }
+
+  const workoutIds = Array.from(byExercise.values()).flatMap((sessions) =>
+    sessions.map((w) => w.id)
+  );
+  const sets =
+    workoutIds.length > 0
+      ? await db
+          .select({
+            workoutId: workoutSet.workoutId,
+            weight: workoutSet.weight,
+            weightUnit: workoutSet.weightUnit,
+            targetReps: workoutSet.targetReps,
+            totalReps: workoutSet.totalReps,
+            goodFormReps: workoutSet.goodFormReps,
+          })
+          .from(workoutSet)
+          .where(inArray(workoutSet.workoutId, workoutIds))
+          .orderBy(workoutSet.setIndex)
+      : [];
+
+  const setsByWorkout = new Map<string, ProgressionSet[]>();
+  for (const { workoutId, ...set } of sets) {
+    setsByWorkout.set(workoutId, [...(setsByWorkout.get(workoutId) ?? []), set]);
+  }
+
+  const recommendations: Recommendation[] = [];
+  for (const [type, recent] of byExercise) {
+    if (!isExercise(type)) continue;
+
+    const sessions: ProgressionSession[] = recent.map((w) => ({
+      totalReps: w.totalReps,
+      goodFormReps: w.goodFormReps,
+      mistakes: w.mistakes || [],
+      sets: setsByWorkout.get(w.id) ?? [],
+    }));
+    const recommendation = recommendNextSession(
+      type,
+      sessions,
+      getExerciseDefinition(type).loadIncrement
+    );
+    if (recommendation) {
+      recommendations.push(recommendation);
+    }
+  }
+
+  return recommendations;
+}
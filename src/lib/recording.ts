@@ -0,0 +1,109 @@
+// Landmark recordings of a set for later replay
+// Only the pose stream is kept (never video): one frame per detection result
+// with each landmark packed as [x, y, z, visibility].
+
+import { analyzeForm, createPhaseTracker, type FormAnalysis } from "./form-checker";
+import { createRepTracker, trackRepFrame, type RepRecord } from "./rep-tracker";
+import type { Exercise, ThresholdOverrides } from "./exercises";
+
+type Landmark = { x: number; y: number; z: number; visibility: number };
+
+export type PackedLandmark = [x: number, y: number, z: number, visibility: number];
+
+export interface LandmarkFrame {
+  t: number; // Milliseconds since the recording started
+  landmarks: PackedLandmark[];
+}
+
+export interface SetRecording {
+  version: 1;
+  exerciseType: string;
+  setIndex: number; // 1-based set within the workout
+  startedAt: number; // Epoch ms of the first frame
+  frames: LandmarkFrame[];
+}
+
+// One replayed frame with the analysis re-run over the recorded landmarks
+export interface ReplayFrame {
+  t: number;
+  landmarks: Landmark[];
+  analysis: FormAnalysis;
+  repCount: number; // Reps completed up to and including this frame
+  completedRep: RepRecord | null; // The rep finished on this frame, if any
+}
+
+// ~2 minutes at 30fps keeps a recording comfortably under the 5MB upload limit
+export const MAX_RECORDING_FRAMES = 3600;
+
+export const RECORDING_LANDMARK_COUNT = 33;
+
+// 4 decimals is well below a pixel at any camera resolution
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Pack landmarks into the compact recording format
+ */
+export function packLandmarks(landmarks: Landmark[]): PackedLandmark[] {
+  return landmarks.map((landmark) => [
+    round(landmark.x),
+    round(landmark.y),
+    round(landmark.z),
+    round(landmark.visibility),
+  ]);
+}
+
+/**
+ * Expand packed landmarks back into the shape the form checker expects
+ */
+export function unpackLandmarks(packed: PackedLandmark[]): Landmark[] {
+  return packed.map(([x, y, z, visibility]) => ({ x, y, z, visibility }));
+}
+
+/**
+ * Re-run form analysis over a recording with a fresh phase tracker,
+ * exactly as the live page analyzed it frame by frame
+ */
+export function replayRecording(
+  exercise: Exercise,
+  recording: SetRecording,
+  thresholds?: ThresholdOverrides | null
+): ReplayFrame[] {
+  const tracker = createPhaseTracker();
+  const repTracker = createRepTracker();
+  let repCount = 0;
+
+  return recording.frames.map((frame) => {
+    const landmarks = unpackLandmarks(frame.landmarks);
+    const timestamp = recording.startedAt + frame.t;
+    const analysis = analyzeForm(exercise, landmarks, tracker, thresholds, timestamp);
+    const completedRep = trackRepFrame(repTracker, analysis, timestamp);
+    if (completedRep) {
+      repCount++;
+    }
+    return { t: frame.t, landmarks, analysis, repCount, completedRep };
+  });
+}
+
+/**
+ * Find the last frame at or before a playback position
+ *
+ * @returns The frame index, or -1 before the first frame
+ */
+export function findFrameIndex(frames: { t: number }[], position: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if ((frames[mid]?.t ?? Infinity) <= position) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
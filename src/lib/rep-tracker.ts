@@ -0,0 +1,155 @@
+import type { FormAnalysis, FormIssue, Phase } from "./form-checker";
+
+// Angles at one point during a rep, for plotting the rep timeline
+export interface AngleSample {
+  t: number; // Milliseconds since the rep started
+  kneeAngle: number;
+  hipAngle: number;
+  torsoAngle: number;
+  phase: Phase;
+  issues?: FormIssue[]; // Issues that first fired on this frame
+}
+
+// Detailed record of a single completed rep
+export interface RepRecord {
+  repIndex: number; // 1-based position of the rep within the workout
+  startedAt: number; // Epoch ms when the user left the standing position
+  endedAt: number; // Epoch ms when the rep was completed
+  minKneeAngle: number;
+  minHipAngle: number;
+  maxTorsoAngle: number;
+  issues: FormIssue[];
+  phaseDurations: Record<Phase, number>; // Milliseconds spent in each phase
+  samples: AngleSample[];
+  setIndex?: number; // 1-based set within the session, assigned by the workout context
+}
+
+interface RepInProgress {
+  startedAt: number;
+  lastTimestamp: number;
+  lastPhase: Phase;
+  minKneeAngle: number;
+  minHipAngle: number;
+  maxTorsoAngle: number;
+  issues: Set<FormIssue>;
+  phaseDurations: Record<Phase, number>;
+  samples: AngleSample[];
+  lastSampleAt: number;
+}
+
+export interface RepTracker {
+  current: RepInProgress | null;
+  completedReps: number;
+}
+
+// Keep at most ~10 samples per second so stored reps stay small
+const SAMPLE_INTERVAL_MS = 100;
+
+function createSample(
+  analysis: FormAnalysis,
+  t: number,
+  newIssues: FormIssue[]
+): AngleSample {
+  const sample: AngleSample = {
+    t,
+    kneeAngle: Math.round(analysis.kneeAngle),
+    hipAngle: Math.round(analysis.hipAngle),
+    torsoAngle: Math.round(analysis.torsoAngle),
+    phase: analysis.phase,
+  };
+  if (newIssues.length > 0) {
+    sample.issues = newIssues;
+  }
+  return sample;
+}
+
+function emptyPhaseDurations(): Record<Phase, number> {
+  return { standing: 0, descending: 0, bottom: 0, ascending: 0 };
+}
+
+// Create a new rep tracker
+export function createRepTracker(): RepTracker {
+  return {
+    current: null,
+    completedReps: 0,
+  };
+}
+
+// Feed one analyzed frame into the tracker.
+// Returns the finished RepRecord on the frame a rep completes, otherwise null.
+export function trackRepFrame(
+  tracker: RepTracker,
+  analysis: FormAnalysis,
+  timestamp: number
+): RepRecord | null {
+  const rep = tracker.current;
+
+  // Frames with the lifter partly out of view carry no usable angles; the time
+  // they cover is attributed to the phase held across them
+  if (!analysis.inFrame) {
+    return null;
+  }
+
+  if (!rep) {
+    // A rep starts on the first frame that leaves the standing position
+    if (analysis.phase !== "standing") {
+      tracker.current = {
+        startedAt: timestamp,
+        lastTimestamp: timestamp,
+        lastPhase: analysis.phase,
+        minKneeAngle: analysis.kneeAngle,
+        minHipAngle: analysis.hipAngle,
+        maxTorsoAngle: analysis.torsoAngle,
+        issues: new Set(analysis.issues),
+        phaseDurations: emptyPhaseDurations(),
+        samples: [createSample(analysis, 0, analysis.issues)],
+        lastSampleAt: timestamp,
+      };
+    }
+    return null;
+  }
+
+  // Always sample phase changes, new issues and the final frame; otherwise throttle
+  const newIssues = analysis.issues.filter((issue) => !rep.issues.has(issue));
+  if (
+    analysis.phase !== rep.lastPhase ||
+    newIssues.length > 0 ||
+    analysis.repCompleted ||
+    timestamp - rep.lastSampleAt >= SAMPLE_INTERVAL_MS
+  ) {
+    rep.samples.push(createSample(analysis, timestamp - rep.startedAt, newIssues));
+    rep.lastSampleAt = timestamp;
+  }
+
+  // Attribute the time since the previous frame to the phase we were in
+  rep.phaseDurations[rep.lastPhase] += Math.max(0, timestamp - rep.lastTimestamp);
+  rep.lastTimestamp = timestamp;
+  rep.lastPhase = analysis.phase;
+  rep.minKneeAngle = Math.min(rep.minKneeAngle, analysis.kneeAngle);
+  rep.minHipAngle = Math.min(rep.minHipAngle, analysis.hipAngle);
+  rep.maxTorsoAngle = Math.max(rep.maxTorsoAngle, analysis.torsoAngle);
+  newIssues.forEach((issue) => rep.issues.add(issue));
+
+  if (analysis.repCompleted) {
+    tracker.completedReps += 1;
+    tracker.current = null;
+    return {
+      repIndex: tracker.completedReps,
+      startedAt: rep.startedAt,
+      endedAt: timestamp,
+      minKneeAngle: Math.round(rep.minKneeAngle),
+      minHipAngle: Math.round(rep.minHipAngle),
+      maxTorsoAngle: Math.round(rep.maxTorsoAngle),
+      issues: Array.from(rep.issues),
+      phaseDurations: rep.phaseDurations,
+      samples: rep.samples,
+    };
+  }
+
+  // Back to standing without completing the rep (e.g. a half rep) - discard it
+  if (analysis.phase === "standing") {
+    tracker.current = null;
+  }
+
+  return null;
+}
@@ -1,4 +1,9 @@
-import { pgTable, text, timestamp, boolean, index, integer, jsonb, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, index, uniqueIndex, integer, jsonb, uuid, real, date } from "drizzle-orm/pg-core";
+import type { Locale } from "./i18n";
+import type { ProgramWorkout } from "./programs";
+import type { AngleSample } from "./rep-tracker";
+import type { WeightUnit } from "./sets";
+import type { Tempo } from "./tempo";
 
 // IMPORTANT! ID fields should ALWAYS use UUID types, EXCEPT the BetterAuth tables.
 
@@ -87,16 +92,170 @@ export const workout = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     userId: text("user_id").references(() => user.id, { onDelete: "cascade" }), // nullable for guest display
-    exerciseType: text("exercise_type").notNull(), // "squat" | "deadlift"
+    exerciseType: text("exercise_type").notNull(), // Exercise id from the registry in exercises.ts
     totalReps: integer("total_reps").notNull().default(0),
     goodFormReps: integer("good_form_reps").notNull().default(0),
     badFormReps: integer("bad_form_reps").notNull().default(0),
     durationSeconds: integer("duration_seconds").notNull().default(0),
     mistakes: jsonb("mistakes").$type<string[]>().default([]),
+    averageTempo: jsonb("average_tempo").$type<Tempo>(), // null when no reps were recorded
+    timeUnderTensionSeconds: integer("time_under_tension_seconds"), // Summed over the recorded reps
+    clientId: text("client_id"), // Idempotency key generated on the device
+    notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
     index("workout_user_id_idx").on(table.userId),
     index("workout_created_at_idx").on(table.createdAt),
+    index("workout_user_created_at_idx").on(table.userId, table.createdAt, table.id), // Cursor pagination
+    uniqueIndex("workout_user_client_id_idx").on(table.userId, table.clientId),
   ]
 );
+
+// A set within a workout session; reps link back to the set they belong to
+export const workoutSet = pgTable(
+  "workout_set",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    workoutId: uuid("workout_id")
+      .notNull()
+      .references(() => workout.id, { onDelete: "cascade" }),
+    setIndex: integer("set_index").notNull(), // 1-based position within the workout
+    targetReps: integer("target_reps"), // null = open-ended set
+    weight: real("weight"), // null = bodyweight
+    weightUnit: text("weight_unit").$type<WeightUnit>().notNull().default("kg"),
+    rpe: real("rpe"),
+    totalReps: integer("total_reps").notNull().default(0),
+    goodFormReps: integer("good_form_reps").notNull().default(0),
+    badFormReps: integer("bad_form_reps").notNull().default(0),
+    mistakes: jsonb("mistakes").$type<string[]>().default([]),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+    restSeconds: integer("rest_seconds"), // Rest taken after the set, null for the last set
+    recordingUrl: text("recording_url"), // Landmark recording for replay, null when not recorded
+  },
+  (table) => [index("workout_set_workout_id_idx").on(table.workoutId)]
+);
+
+// Per-rep detail for a workout, populated from the on-device form analysis
+export const workoutRep = pgTable(
+  "workout_rep",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    workoutId: uuid("workout_id")
+      .notNull()
+      .references(() => workout.id, { onDelete: "cascade" }),
+    setId: uuid("set_id").references(() => workoutSet.id, { onDelete: "set null" }),
+    repIndex: integer("rep_index").notNull(), // 1-based position within the workout
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+    minKneeAngle: real("min_knee_angle").notNull(),
+    minHipAngle: real("min_hip_angle").notNull(),
+    maxTorsoAngle: real("max_torso_angle").notNull(),
+    issues: jsonb("issues").$type<string[]>().default([]),
+    phaseDurations: jsonb("phase_durations").$type<Record<string, number>>().default({}), // ms per phase
+    samples: jsonb("samples").$type<AngleSample[]>().default([]), // Angle timeline for charts
+  },
+  (table) => [index("workout_rep_workout_id_idx").on(table.workoutId)]
+);
+
+// Built-in training program templates, seeded by migration
+export const programTemplate = pgTable("program_template", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  trainingDays: jsonb("training_days").$type<number[]>().notNull(), // Weekdays, 0 = Monday
+  workouts: jsonb("workouts").$type<ProgramWorkout[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A user's enrollment in a program; only one is active at a time
+export const userProgram = pgTable(
+  "user_program",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    templateId: uuid("template_id")
+      .notNull()
+      .references(() => programTemplate.id, { onDelete: "cascade" }),
+    startDate: date("start_date", { mode: "string" }).notNull(), // User's local date
+    weightUnit: text("weight_unit").$type<WeightUnit>().notNull().default("kg"),
+    startingWeights: jsonb("starting_weights").$type<Record<string, number>>().notNull().default({}),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("user_program_user_id_idx").on(table.userId)]
+);
+
+// One exercise scheduled on a day of a user's program, generated a week at a time
+export const plannedWorkout = pgTable(
+  "planned_workout",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userProgramId: uuid("user_program_id")
+      .notNull()
+      .references(() => userProgram.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    date: date("date", { mode: "string" }).notNull(), // User's local date
+    position: integer("position").notNull(), // Order within the day
+    workoutName: text("workout_name").notNull(),
+    exerciseType: text("exercise_type").notNull(),
+    targetSets: integer("target_sets").notNull(),
+    targetReps: integer("target_reps").notNull(),
+    weight: real("weight"), // null = bodyweight
+    weightUnit: text("weight_unit").$type<WeightUnit>().notNull().default("kg"),
+    restSeconds: integer("rest_seconds").notNull(),
+    workoutId: uuid("workout_id").references(() => workout.id, { onDelete: "set null" }), // Set once completed
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("planned_workout_program_date_position_idx").on(
+      table.userProgramId,
+      table.date,
+      table.position
+    ),
+    index("planned_workout_user_date_idx").on(table.userId, table.date),
+  ]
+);
+
+// Personalized form thresholds from a user's calibration reps, one row per exercise
+export const formCalibration = pgTable(
+  "form_calibration",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    exerciseType: text("exercise_type").notNull(),
+    thresholds: jsonb("thresholds").$type<Record<string, number>>().notNull(), // Overrides of the exercise defaults
+    repCount: integer("rep_count").notNull(), // Reference reps the thresholds were derived from
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("form_calibration_user_exercise_idx").on(table.userId, table.exerciseType),
+  ]
+);
+
+// Per-user settings that follow the user across devices, one row per user
+export const userPreference = pgTable("user_preference", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id")
+    .notNull()
+    .unique()
+    .references(() => user.id, { onDelete: "cascade" }),
+  language: text("language").$type<Locale>().notNull().default("en"), // Coaching cues, workout pages and the AI coach
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
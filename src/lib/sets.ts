@@ -0,0 +1,69 @@
+// Sets and rest periods within a training session
+
+import type { Tempo } from "./tempo";
+
+export type WeightUnit = "kg" | "lb";
+
+export const WEIGHT_UNITS = ["kg", "lb"] as const satisfies readonly WeightUnit[];
+
+// How the user wants to structure the session, chosen before starting
+export interface SetPlan {
+  targetSets: number;
+  targetReps: number | null; // null = open-ended sets, ended manually
+  weight: number | null; // Load for the first set, null = bodyweight
+  weightUnit: WeightUnit;
+  restSeconds: number;
+  tempo: Tempo | null; // Prescribed tempo, null = the lifter's own pace
+}
+
+// A completed set
+export interface SetRecord {
+  setIndex: number; // 1-based position within the session
+  targetReps: number | null;
+  weight: number | null;
+  weightUnit: WeightUnit;
+  rpe: number | null; // Rate of perceived exertion (6-10), entered while resting
+  totalReps: number;
+  goodFormReps: number;
+  badFormReps: number;
+  mistakes: string[];
+  startedAt: number; // Epoch ms
+  endedAt: number; // Epoch ms
+  restSeconds: number | null; // Rest actually taken after the set, null for the last set
+}
+
+export const DEFAULT_SET_PLAN: SetPlan = {
+  targetSets: 3,
+  targetReps: 10,
+  weight: null,
+  weightUnit: "kg",
+  restSeconds: 90,
+  tempo: null,
+};
+
+export const SET_PLAN_LIMITS = {
+  maxSets: 20,
+  maxTargetReps: 100,
+  maxRestSeconds: 600,
+  maxWeight: 1000,
+} as const;
+
+export const RPE_VALUES = [6, 7, 8, 9, 10] as const;
+
+const KG_PER_LB = 0.45359237;
+
+/**
+ * Convert a weight between units
+ */
+export function convertWeight(weight: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return weight;
+  return from === "lb" ? weight * KG_PER_LB : weight / KG_PER_LB;
+}
+
+/**
+ * Format a weight for display, e.g. "60 kg", "135 lb" or "Bodyweight"
+ */
+export function formatWeight(weight: number | null, unit: WeightUnit = "kg"): string {
+  if (weight === null) return "Bodyweight";
+  return `${Number.isInteger(weight) ? weight : weight.toFixed(1)} ${unit}`;
+}
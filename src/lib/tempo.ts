@@ -0,0 +1,124 @@
+// Rep tempo and time under tension
+// A tempo is written eccentric-pause-concentric in seconds: 3-1-1 is three
+// seconds lowering the load, a one-second pause at the turnaround and one
+// second lifting it. Measured tempos come from the time a rep spends in each
+// movement phase, so the pause is the time held at "bottom".
+
+import { getExerciseDefinition, isExercise } from "./exercises";
+import type { Phase } from "./form-checker";
+
+export interface Tempo {
+  eccentricMs: number; // Lowering the load
+  pauseMs: number; // Held at the turnaround
+  concentricMs: number; // Lifting the load
+}
+
+export interface TempoSummary {
+  averageTempo: Tempo;
+  timeUnderTensionSeconds: number; // Summed over every rep
+}
+
+// Phase durations of a rep; summaries saved before a phase was timed leave it out
+export interface RepPhaseDurations {
+  phaseDurations: Partial<Record<Phase, number>>;
+}
+
+// Longest phase a prescribed tempo can ask for
+export const MAX_TEMPO_SECONDS = 10;
+
+// Without a prescribed tempo, a descent faster than this is a drop rather than a controlled lowering
+const MIN_ECCENTRIC_MS = 800;
+// A descent is too fast when it takes less than this share of the prescribed time
+const ECCENTRIC_TOLERANCE = 0.75;
+
+const TEMPO_PATTERN = /^(\d+(?:\.\d)?)-(\d+(?:\.\d)?)-(\d+(?:\.\d)?)$/;
+
+/**
+ * Parse a prescribed tempo such as "3-1-1"
+ *
+ * @returns The tempo, or null when the value isn't eccentric-pause-concentric
+ * seconds with a lowering phase of at most MAX_TEMPO_SECONDS
+ */
+export function parseTempo(value: string): Tempo | null {
+  const match = TEMPO_PATTERN.exec(value.replace(/\s/g, ""));
+  if (!match) return null;
+
+  const [eccentric, pause, concentric] = match.slice(1).map(Number);
+  if (eccentric === undefined || pause === undefined || concentric === undefined) return null;
+  if (eccentric <= 0 || [eccentric, pause, concentric].some((s) => s > MAX_TEMPO_SECONDS)) {
+    return null;
+  }
+
+  return { eccentricMs: eccentric * 1000, pauseMs: pause * 1000, concentricMs: concentric * 1000 };
+}
+
+/**
+ * Format a tempo in seconds, e.g. "3-1-1" or "2.4-0.3-1.1"
+ */
+export function formatTempo(tempo: Tempo): string {
+  return [tempo.eccentricMs, tempo.pauseMs, tempo.concentricMs]
+    .map((ms) => {
+      const seconds = Math.round(ms / 100) / 10;
+      return Number.isInteger(seconds) ? `${seconds}` : seconds.toFixed(1);
+    })
+    .join("-");
+}
+
+/**
+ * The tempo of a recorded rep.
+ * Which phase lowers the load depends on the exercise; unknown exercises are
+ * assumed to lower it on the way down. A phase with no duration took no time.
+ */
+export function getRepTempo(rep: RepPhaseDurations, exerciseType: string): Tempo {
+  const eccentricPhase = isExercise(exerciseType)
+    ? getExerciseDefinition(exerciseType).eccentricPhase
+    : "descending";
+  const concentricPhase = eccentricPhase === "descending" ? "ascending" : "descending";
+
+  return {
+    eccentricMs: rep.phaseDurations[eccentricPhase] ?? 0,
+    pauseMs: rep.phaseDurations.bottom ?? 0,
+    concentricMs: rep.phaseDurations[concentricPhase] ?? 0,
+  };
+}
+
+/**
+ * Time the muscles spend working through a rep, in milliseconds
+ */
+export function getTimeUnderTensionMs(tempo: Tempo): number {
+  return tempo.eccentricMs + tempo.pauseMs + tempo.concentricMs;
+}
+
+/**
+ * Average tempo and total time under tension of a workout's reps
+ *
+ * @returns The summary, or null when no reps were recorded
+ */
+export function summarizeTempo(
+  exerciseType: string,
+  reps: RepPhaseDurations[]
+): TempoSummary | null {
+  if (reps.length === 0) return null;
+
+  const tempos = reps.map((rep) => getRepTempo(rep, exerciseType));
+  const average = (key: keyof Tempo) =>
+    Math.round(tempos.reduce((sum, tempo) => sum + tempo[key], 0) / tempos.length);
+  const totalMs = tempos.reduce((sum, tempo) => sum + getTimeUnderTensionMs(tempo), 0);
+
+  return {
+    averageTempo: {
+      eccentricMs: average("eccentricMs"),
+      pauseMs: average("pauseMs"),
+      concentricMs: average("concentricMs"),
+    },
+    timeUnderTensionSeconds: Math.round(totalMs / 1000),
+  };
+}
+
+/**
+ * Whether a rep was lowered too fast, against the prescribed tempo if there is one
+ */
+export function isDescentTooFast(tempo: Tempo, target: Tempo | null): boolean {
+  const minimum = target ? target.eccentricMs * ECCENTRIC_TOLERANCE : MIN_ECCENTRIC_MS;
+  return tempo.eccentricMs < minimum;
+}
@@ -0,0 +1,99 @@
+// Spoken coaching cues in every supported language
+// Form corrections are keyed by FormIssue, the rest by the workout event that
+// triggers them. {placeholders} are filled in when the cue is spoken.
+
+import { VOICE_FEEDBACK, type FormIssue } from "./form-checker";
+import { type Locale, interpolate } from "./i18n";
+
+export type WorkoutEventCue =
+  | "good_rep"
+  | "bad_rep"
+  | "out_of_frame"
+  | "set_complete" // {seconds} of rest follow
+  | "set_complete_open_rest" // Rest lasts until the next set is started
+  | "next_set"
+  | "exercise_detected" // {exercise} was recognized
+  | "slow_down"; // The load was lowered faster than the tempo allows
+
+export type VoiceCue = FormIssue | WorkoutEventCue;
+
+// How urgent a cue is, most urgent first. A cue is never cut off by a less urgent one.
+// safety: form that risks injury; form: depth, lockout and posture corrections and
+// workout instructions; encouragement: feedback on a finished rep
+export const CUE_PRIORITIES = ["safety", "form", "encouragement"] as const;
+
+export type CuePriority = (typeof CUE_PRIORITIES)[number];
+
+export const CUE_PRIORITY: Record<VoiceCue, CuePriority> = {
+  rounded_back: "safety",
+  back_arch: "safety",
+  knees_caving: "safety",
+  hip_sag: "safety",
+  front_knee_over_toes: "safety",
+  not_deep_enough: "form",
+  too_deep: "form",
+  forward_lean: "form",
+  knees_too_far_forward: "form",
+  lockout_incomplete: "form",
+  torso_not_upright: "form",
+  press_lockout_incomplete: "form",
+  elbow_drift: "form",
+  swinging: "form",
+  out_of_frame: "form",
+  set_complete: "form",
+  set_complete_open_rest: "form",
+  next_set: "form",
+  exercise_detected: "form",
+  slow_down: "form",
+  good_rep: "encouragement",
+  bad_rep: "encouragement",
+};
+
+export const VOICE_CUES: Record<Locale, Record<VoiceCue, string>> = {
+  en: {
+    ...VOICE_FEEDBACK,
+    good_rep: "Good rep!",
+    bad_rep: "Watch your form",
+    out_of_frame: "Step back so I can see your whole body",
+    set_complete: "Set complete. Rest for {seconds} seconds",
+    set_complete_open_rest: "Set complete. Rest up",
+    next_set: "Next set. Let's go",
+    exercise_detected: "{exercise}",
+    slow_down: "Slower on the way down",
+  },
+  ar: {
+    knees_caving: "ادفع ركبتيك للخارج",
+    not_deep_enough: "انزل أكثر",
+    too_deep: "لا تنزل كثيرًا",
+    forward_lean: "ارفع صدرك",
+    rounded_back: "اجعل ظهرك مستقيمًا",
+    knees_too_far_forward: "ادفع وركيك للخلف",
+    lockout_incomplete: "قف بشكل كامل",
+    front_knee_over_toes: "أبقِ ركبتك الأمامية فوق كاحلك",
+    torso_not_upright: "أبقِ جذعك مستقيمًا",
+    press_lockout_incomplete: "ادفع حتى النهاية فوق رأسك",
+    back_arch: "شدّ بطنك ولا تمِل للخلف",
+    hip_sag: "ارفع وركيك",
+    elbow_drift: "أبقِ مرفقيك بجانبك",
+    swinging: "لا تؤرجح جسمك",
+    good_rep: "تكرار ممتاز!",
+    bad_rep: "انتبه لأدائك",
+    out_of_frame: "ابتعد قليلًا حتى أرى جسمك بالكامل",
+    set_complete: "انتهت المجموعة. استرح {seconds} ثانية",
+    set_complete_open_rest: "انتهت المجموعة. خذ قسطًا من الراحة",
+    next_set: "المجموعة التالية. هيا بنا",
+    exercise_detected: "{exercise}",
+    slow_down: "أبطئ في النزول",
+  },
+};
+
+/**
+ * The text of a cue in a language, with its placeholders filled in
+ */
+export function getCueText(
+  locale: Locale,
+  cue: VoiceCue,
+  params?: Record<string, string | number>
+): string {
+  return interpolate(VOICE_CUES[locale][cue], params);
+}
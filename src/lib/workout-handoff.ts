@@ -0,0 +1,51 @@
+// Hands finished workouts from the live workout pages to the summary page
+// Summaries carry every rep's angle samples, far more than fits in a URL, so
+// they wait in sessionStorage under the first workout's client id and only
+// that id travels in the summary link.
+
+import type { WorkoutSummaryData } from "./workout-queue";
+
+const KEY_PREFIX = "gymcoach-summary:";
+
+/**
+ * Store workouts for the summary page
+ *
+ * @returns The id to pass in the summary URL, or null when nothing could be stored
+ */
+export function handOffWorkouts(workouts: WorkoutSummaryData[]): string | null {
+  const [first] = workouts;
+  if (!first) return null;
+
+  try {
+    // Only the latest session is needed; earlier ones would eat into the quota
+    for (let i = sessionStorage.length - 1; i >= 0; i--) {
+      const key = sessionStorage.key(i);
+      if (key?.startsWith(KEY_PREFIX)) sessionStorage.removeItem(key);
+    }
+    sessionStorage.setItem(`${KEY_PREFIX}${first.clientId}`, JSON.stringify(workouts));
+    return first.clientId;
+  } catch (error) {
+    console.warn("Failed to hand off workout summary:", error);
+    return null;
+  }
+}
+
+/**
+ * Read workouts handed off under an id.
+ * They stay stored so the summary survives a reload.
+ */
+export function loadHandedOffWorkouts(id: string): WorkoutSummaryData[] | null {
+  try {
+    const stored = sessionStorage.getItem(`${KEY_PREFIX}${id}`);
+    return stored ? (JSON.parse(stored) as WorkoutSummaryData[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Summary page link for handed-off workouts
+ */
+export function getSummaryUrl(id: string | null): string {
+  return id ? `/workout/summary?id=${encodeURIComponent(id)}` : "/workout/summary";
+}
@@ -0,0 +1,409 @@
+// Offline workout queue backed by IndexedDB
+// Completed workouts are stored on the device first and synced to
+// POST /api/workouts when a signed-in user is online. Set recordings wait
+// alongside them and are uploaded once their workout has been saved.
+
+import type { SetRecording } from "./recording";
+import type { RepRecord } from "./rep-tracker";
+import type { SetRecord } from "./sets";
+
+/**
+ * Workout summary as produced by the live workout page
+ */
+export interface WorkoutSummaryData {
+  clientId: string; // Generated on the device, doubles as the idempotency key
+  exerciseType: string;
+  totalReps: number;
+  goodFormReps: number;
+  badFormReps: number;
+  durationSeconds: number;
+  mistakes: string[];
+  plannedWorkoutId?: string; // Set when following a program schedule
+  sets?: SetRecord[];
+  reps?: RepRecord[];
+}
+
+export type QueuedWorkoutStatus = "pending" | "failed";
+
+/**
+ * A workout waiting on this device to be synced
+ */
+export interface QueuedWorkout {
+  clientId: string;
+  ownerId: string | null; // null = recorded while signed out (guest)
+  data: WorkoutSummaryData;
+  status: QueuedWorkoutStatus;
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms before which we won't retry
+  lastError: string | null;
+  createdAt: number;
+}
+
+/**
+ * Landmark recordings of a workout's sets waiting to be uploaded
+ */
+export interface QueuedRecordings {
+  clientId: string; // The workout the recordings belong to
+  workoutId: string | null; // Server id, set once the workout itself has synced
+  ownerId: string | null; // The account the workout synced to, set along with workoutId
+  recordings: SetRecording[];
+}
+
+export interface SyncResult {
+  synced: number;
+  pending: number;
+  failed: number;
+}
+
+const DB_NAME = "gymcoach";
+const DB_VERSION = 2;
+const STORE_NAME = "workout-queue";
+const RECORDINGS_STORE_NAME = "set-recordings";
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// A sync running for a user, and the forced one queued to run after it
+interface SyncInFlight {
+  result: Promise<SyncResult>;
+  force: boolean;
+  forcedFollowUp: Promise<SyncResult> | null;
+}
+
+const syncsInFlight = new Map<string, SyncInFlight>();
+
+/**
+ * Check whether IndexedDB is available (not during SSR or in private modes that disable it)
+ */
+export function isQueueSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "clientId" });
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE_NAME)) {
+          db.createObjectStore(RECORDINGS_STORE_NAME, { keyPath: "clientId" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open IndexedDB"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+}
+
+async function getRecord(clientId: string): Promise<QueuedWorkout | undefined> {
+  return withStore<QueuedWorkout | undefined>("readonly", (store) => store.get(clientId));
+}
+
+async function putRecord(record: QueuedWorkout): Promise<void> {
+  await withStore("readwrite", (store) => store.put(record));
+}
+
+async function deleteRecord(clientId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientId));
+}
+
+async function getRecordings(clientId: string): Promise<QueuedRecordings | undefined> {
+  return withStore<QueuedRecordings | undefined>(
+    "readonly",
+    (store) => store.get(clientId),
+    RECORDINGS_STORE_NAME
+  );
+}
+
+async function putRecordings(record: QueuedRecordings): Promise<void> {
+  await withStore("readwrite", (store) => store.put(record), RECORDINGS_STORE_NAME);
+}
+
+async function deleteRecordings(clientId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientId), RECORDINGS_STORE_NAME);
+}
+
+/**
+ * Get every workout currently stored on this device
+ */
+export async function getQueuedWorkouts(): Promise<QueuedWorkout[]> {
+  return withStore<QueuedWorkout[]>("readonly", (store) => store.getAll());
+}
+
+/**
+ * Get workouts recorded while signed out that haven't been claimed yet
+ */
+export async function getGuestWorkouts(): Promise<QueuedWorkout[]> {
+  const all = await getQueuedWorkouts();
+  return all.filter((record) => record.ownerId === null);
+}
+
+/**
+ * Store a completed workout on this device.
+ * Saving the same clientId twice is a no-op, except that a guest record
+ * can be upgraded to an owned one.
+ */
+export async function saveWorkoutLocally(
+  data: WorkoutSummaryData,
+  ownerId: string | null
+): Promise<QueuedWorkout> {
+  const existing = await getRecord(data.clientId);
+  if (existing) {
+    if (existing.ownerId === null && ownerId !== null) {
+      const claimed = { ...existing, ownerId, status: "pending" as const, nextAttemptAt: 0 };
+      await putRecord(claimed);
+      return claimed;
+    }
+    return existing;
+  }
+
+  const record: QueuedWorkout = {
+    clientId: data.clientId,
+    ownerId,
+    data,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    createdAt: Date.now(),
+  };
+  await putRecord(record);
+  return record;
+}
+
+/**
+ * Get a workout stored on this device, if it is still waiting there
+ */
+export async function getQueuedWorkout(clientId: string): Promise<QueuedWorkout | undefined> {
+  return getRecord(clientId);
+}
+
+/**
+ * Check whether a workout is still waiting on this device
+ */
+export async function isWorkoutQueued(clientId: string): Promise<boolean> {
+  return (await getRecord(clientId)) !== undefined;
+}
+
+/**
+ * Assign all guest workouts on this device to the signed-in user
+ *
+ * @returns The number of workouts claimed
+ */
+export async function claimGuestWorkouts(userId: string): Promise<number> {
+  const guests = await getGuestWorkouts();
+  for (const record of guests) {
+    await putRecord({ ...record, ownerId: userId, status: "pending", nextAttemptAt: 0 });
+  }
+  return guests.length;
+}
+
+/**
+ * Discard a workout stored on this device without syncing it
+ */
+export async function discardQueuedWorkout(clientId: string): Promise<void> {
+  await deleteRecord(clientId);
+  await deleteRecordings(clientId);
+}
+
+/**
+ * Discard the user's workouts the server rejected, which would otherwise stay on the device forever
+ *
+ * @returns The number of workouts discarded
+ */
+export async function discardFailedWorkouts(userId: string): Promise<number> {
+  const failed = (await getQueuedWorkouts()).filter(
+    (record) => record.ownerId === userId && record.status === "failed"
+  );
+  for (const record of failed) {
+    await discardQueuedWorkout(record.clientId);
+  }
+  return failed.length;
+}
+
+/**
+ * Store a workout's set recordings on this device until the workout syncs
+ */
+export async function saveRecordingsLocally(
+  clientId: string,
+  recordings: SetRecording[]
+): Promise<void> {
+  await putRecordings({ clientId, workoutId: null, ownerId: null, recordings });
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Errors the server will never accept no matter how often we retry
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+}
+
+async function uploadWorkout(record: QueuedWorkout): Promise<void> {
+  const { clientId, ...payload } = record.data;
+
+  let response: Response;
+  try {
+    response = await fetch("/api/workouts", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": clientId,
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    // Network failure - keep the record and back off
+    const attempts = record.attempts + 1;
+    await putRecord({
+      ...record,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: "Network unavailable",
+    });
+    return;
+  }
+
+  if (response.ok) {
+    const saved = (await response.json()) as { id: string };
+    const recordings = await getRecordings(clientId);
+    if (recordings) {
+      await putRecordings({ ...recordings, workoutId: saved.id, ownerId: record.ownerId });
+    }
+    await deleteRecord(clientId);
+    return;
+  }
+
+  const attempts = record.attempts + 1;
+  await putRecord({
+    ...record,
+    attempts,
+    status: isPermanentFailure(response.status) ? "failed" : "pending",
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lastError: `Server responded with ${response.status}`,
+  });
+}
+
+// Upload what we can; recordings that fail transiently stay for the next sync
+async function uploadRecordings(record: QueuedRecordings): Promise<void> {
+  if (!record.workoutId) return;
+
+  const remaining: SetRecording[] = [];
+  for (const recording of record.recordings) {
+    try {
+      const response = await fetch(`/api/workouts/${record.workoutId}/recordings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(recording),
+      });
+      if (!response.ok && !isPermanentFailure(response.status)) {
+        remaining.push(recording);
+      }
+    } catch {
+      remaining.push(recording);
+    }
+  }
+
+  if (remaining.length === 0) {
+    await deleteRecordings(record.clientId);
+  } else {
+    await putRecordings({ ...record, recordings: remaining });
+  }
+}
+
+async function runSync(userId: string, force: boolean): Promise<SyncResult> {
+  const now = Date.now();
+  const owned = (await getQueuedWorkouts()).filter((record) => record.ownerId === userId);
+
+  let synced = 0;
+  for (const record of owned) {
+    if (record.status !== "pending") continue;
+    if (!force && record.nextAttemptAt > now) continue;
+    if (typeof navigator !== "undefined" && !navigator.onLine) break;
+
+    await uploadWorkout(record);
+    if (!(await isWorkoutQueued(record.clientId))) {
+      synced++;
+    }
+  }
+
+  // Only upload under the account whose workout the recordings belong to
+  const recordings = (
+    await withStore<QueuedRecordings[]>(
+      "readonly",
+      (store) => store.getAll(),
+      RECORDINGS_STORE_NAME
+    )
+  ).filter((record) => record.ownerId === userId);
+  for (const record of recordings) {
+    if (typeof navigator !== "undefined" && !navigator.onLine) break;
+    await uploadRecordings(record);
+  }
+
+  const remaining = (await getQueuedWorkouts()).filter((record) => record.ownerId === userId);
+  return {
+    synced,
+    pending: remaining.filter((record) => record.status === "pending").length,
+    failed: remaining.filter((record) => record.status === "failed").length,
+  };
+}
+
+/**
+ * Upload the signed-in user's queued workouts.
+ * Only one sync runs per user at a time; concurrent callers share its result.
+ * A forced sync requested while a background one is running waits for it and
+ * then runs, so workouts held back by the retry backoff aren't skipped.
+ *
+ * @param userId - The signed-in user whose workouts should be synced
+ * @param force - Ignore the retry backoff (e.g. when the user taps Save)
+ */
+export function syncQueuedWorkouts(userId: string, force = false): Promise<SyncResult> {
+  const running = syncsInFlight.get(userId);
+  if (running) {
+    if (!force || running.force) return running.result;
+
+    running.forcedFollowUp ??= running.result
+      .catch(() => undefined)
+      .then(() => syncQueuedWorkouts(userId, true));
+    return running.forcedFollowUp;
+  }
+
+  const sync: SyncInFlight = {
+    result: runSync(userId, force).finally(() => {
+      syncsInFlight.delete(userId);
+    }),
+    force,
+    forcedFollowUp: null,
+  };
+  syncsInFlight.set(userId, sync);
+  return sync.result;
+}
@@ -0,0 +1,139 @@
+// Workout queries shared by the API routes and server-rendered pages
+
+import { and, desc, eq, gte, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { workout, workoutRep, workoutSet } from "./schema";
+
+export type WorkoutRow = typeof workout.$inferSelect;
+export type WorkoutRepRow = typeof workoutRep.$inferSelect;
+export type WorkoutSetRow = typeof workoutSet.$inferSelect;
+
+export type WorkoutDetail = WorkoutRow & { sets: WorkoutSetRow[]; reps: WorkoutRepRow[] };
+
+export interface WorkoutFilters {
+  exerciseType?: string | undefined;
+  from?: Date | undefined; // Inclusive
+  to?: Date | undefined; // Inclusive
+}
+
+export interface ListWorkoutsOptions extends WorkoutFilters {
+  limit: number;
+  cursor?: string | undefined;
+}
+
+export interface WorkoutPage {
+  workouts: WorkoutRow[];
+  nextCursor: string | null;
+}
+
+interface DecodedCursor {
+  createdAt: string; // Full-precision timestamp, as CURSOR_TIMESTAMP formats it
+  id: string;
+}
+
+// created_at to the microsecond. A JS Date keeps only milliseconds, which would
+// skip or repeat rows created within the same millisecond.
+const CURSOR_TIMESTAMP = sql<string>`to_char(${workout.createdAt}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`;
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/;
+
+// Cursors are opaque to clients: base64url of "<createdAt>|<id>"
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(`${createdAt}|${id}`).toString("base64url");
+}
+
+/**
+ * Decode a pagination cursor
+ *
+ * @returns The cursor position, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): DecodedCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  if (!createdAt || !id || !CURSOR_TIMESTAMP_PATTERN.test(createdAt)) return null;
+  if (Number.isNaN(new Date(createdAt).getTime())) return null;
+
+  return { createdAt, id };
+}
+
+/**
+ * List a user's workouts, newest first, one page at a time
+ */
+export async function listWorkouts(
+  userId: string,
+  options: ListWorkoutsOptions
+): Promise<WorkoutPage> {
+  const conditions: SQL[] = [eq(workout.userId, userId)];
+
+  if (options.exerciseType) {
+    conditions.push(eq(workout.exerciseType, options.exerciseType));
+  }
+  if (options.from) {
+    conditions.push(gte(workout.createdAt, options.from));
+  }
+  if (options.to) {
+    conditions.push(lte(workout.createdAt, options.to));
+  }
+
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+  if (cursor) {
+    // Rows strictly after the cursor in (createdAt desc, id desc) order
+    const cursorCreatedAt = sql`${cursor.createdAt}::timestamp`;
+    const afterCursor = or(
+      lt(workout.createdAt, cursorCreatedAt),
+      and(eq(workout.createdAt, cursorCreatedAt), lt(workout.id, cursor.id))
+    );
+    if (afterCursor) {
+      conditions.push(afterCursor);
+    }
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select({ workout, cursorCreatedAt: CURSOR_TIMESTAMP })
+    .from(workout)
+    .where(and(...conditions))
+    .orderBy(desc(workout.createdAt), desc(workout.id))
+    .limit(options.limit + 1);
+
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    workouts: page.map((row) => row.workout),
+    nextCursor:
+      rows.length > options.limit && last
+        ? encodeCursor(last.cursorCreatedAt, last.workout.id)
+        : null,
+  };
+}
+
+/**
+ * Get one of a user's workouts together with its sets and reps
+ *
+ * @returns The workout, or null if it doesn't exist or belongs to someone else
+ */
+export async function getWorkoutDetail(
+  userId: string,
+  workoutId: string
+): Promise<WorkoutDetail | null> {
+  const [found] = await db
+    .select()
+    .from(workout)
+    .where(and(eq(workout.id, workoutId), eq(workout.userId, userId)));
+
+  if (!found) return null;
+
+  const [sets, reps] = await Promise.all([
+    db
+      .select()
+      .from(workoutSet)
+      .where(eq(workoutSet.workoutId, found.id))
+      .orderBy(workoutSet.setIndex),
+    db
+      .select()
+      .from(workoutRep)
+      .where(eq(workoutRep.workoutId, found.id))
+      .orderBy(workoutRep.repIndex),
+  ]);
+
+  return { ...found, sets, reps };
+}